@@ -1,11 +1,18 @@
 import cron from 'node-cron';
 import { ConfigManager } from './config/ConfigManager';
 import { JobManager } from './jobs/JobManager';
-import { Database } from './database/Database';
-import { RSSProcessor } from './rss/RSSProcessor';
+import { Database, FeedToken } from './database/Database';
+import { RSSProcessor, ParsedFeed } from './rss/RSSProcessor';
 import { StorageManager } from './storage/StorageManager';
 import { AudioProcessor } from './audio/AudioProcessor';
 import { LLMOrchestrator } from './llm/LLMOrchestrator';
+import { RetentionManager, RetentionOptions, RetentionReport } from './services/RetentionManager';
+import { BudgetManager } from './services/BudgetManager';
+import { EventBus } from './services/EventBus';
+import { WebhookDispatcher } from './services/WebhookDispatcher';
+import { AuthManager } from './services/AuthManager';
+import { OpmlImporter, OpmlImportOptions, OpmlImportReport } from './services/OpmlImporter';
+import { buildOpml } from './rss/opml';
 import { ProcessingResult } from '@podcastoor/shared';
 
 export class PodcastProcessor {
@@ -16,6 +23,11 @@ export class PodcastProcessor {
   private storageManager!: StorageManager;
   private audioProcessor!: AudioProcessor;
   private llmOrchestrator!: LLMOrchestrator;
+  private retentionManager!: RetentionManager;
+  private budgetManager!: BudgetManager;
+  private events: EventBus = new EventBus();
+  private webhookDispatcher!: WebhookDispatcher;
+  private authManager!: AuthManager;
   private cronJobs: Map<string, cron.ScheduledTask> = new Map();
   private isRunning: boolean = false;
 
@@ -34,6 +46,7 @@ export class PodcastProcessor {
     try {
       await this.initializeServices();
       await this.jobManager.start();
+      this.webhookDispatcher.start();
       this.setupCronJobs();
       this.config.startWatching();
       
@@ -63,6 +76,10 @@ export class PodcastProcessor {
       await this.jobManager.stop();
     }
     
+    if (this.webhookDispatcher) {
+      this.webhookDispatcher.stop();
+    }
+    
     if (this.config) {
       this.config.stopWatching();
     }
@@ -104,11 +121,17 @@ export class PodcastProcessor {
       }
 
       // Fetch RSS feed
-      const feed = await this.rssProcessor.fetchFeed(podcast.rssUrl);
+      let feed: ParsedFeed;
+      try {
+        feed = await this.rssProcessor.fetchFeed(podcast.rssUrl);
+      } catch (error) {
+        this.events.publish({ type: 'feed.fetch_failed', showId: podcastId, feedUrl: podcast.rssUrl, error: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
       console.log(`Fetched RSS feed: ${feed.title} (${feed.episodes.length} episodes)`);
 
       // Save/update show information
-      this.database.upsertShow(podcastId, feed.title, feed.description, podcast.rssUrl);
+      this.database.upsertShow(podcastId, feed.title, feed.description, podcast.rssUrl, feed.image?.url);
 
       // Calculate retention cutoff date
       const retentionDays = podcast.retentionDays || this.config.getProcessingConfig().defaultRetentionDays;
@@ -116,6 +139,11 @@ export class PodcastProcessor {
       cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
       console.log(`Retention policy: ${retentionDays} days (cutoff: ${cutoffDate.toISOString()})`);
 
+      // Episodes are processed once however many users subscribe; shows more people
+      // are waiting on are queued ahead of the rest
+      const subscribers = this.database.countSubscribers(podcastId);
+      const priority = 10 + subscribers;
+
       // Store episodes and queue jobs
       let newJobs = 0;
       let skippedOldEpisodes = 0;
@@ -127,6 +155,8 @@ export class PodcastProcessor {
           continue;
         }
 
+        const isNewEpisode = !this.database.getEpisode(episode.guid);
+        
         // Store episode
         this.database.upsertEpisode({
           guid: episode.guid,
@@ -135,16 +165,21 @@ export class PodcastProcessor {
           description: episode.description,
           audioUrl: episode.audioUrl,
           publishDate: episode.publishDate,
-          duration: episode.duration
+          duration: episode.duration,
+          imageUrl: episode.imageUrl
         });
         
-        // Check if already has a job
+        if (isNewEpisode) {
+          this.events.publish({ type: 'episode.discovered', showId: podcastId, episodeGuid: episode.guid, title: episode.title });
+        }
+        
+        // Queue a job only for episodes never attempted; failed jobs retry on their own
         const existingJobs = this.database.getEpisodeJobs(episode.guid);
-        const hasSuccessfulJob = existingJobs.some(job => job.status === 'completed');
         
-        if (!hasSuccessfulJob) {
-          const jobId = this.database.createJob(episode.guid, 10);
+        if (existingJobs.length === 0) {
+          const jobId = this.database.createJob(episode.guid, priority);
           console.log(`Added podcast processing job: ${podcastId}/${episode.guid} (ID: ${jobId})`);
+          this.events.publish({ type: 'job.queued', jobId, episodeGuid: episode.guid, showId: podcastId });
           newJobs++;
         }
       }
@@ -153,20 +188,61 @@ export class PodcastProcessor {
         console.log(`Skipped ${skippedOldEpisodes} episodes older than ${retentionDays} days`);
       }
 
-      console.log(`Found ${newJobs} new episodes to process`);
+      console.log(`Found ${newJobs} new episodes to process (${subscribers} subscribers)`);
 
     } catch (error) {
       this.handleProcessingError(error as Error, podcastId);
     }
   }
 
-  async cleanupOldFiles(): Promise<void> {
+  async cleanupOldFiles(options: RetentionOptions = {}): Promise<RetentionReport> {
     console.log('Starting cleanup of old files...');
     
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - this.config.getProcessingConfig().defaultRetentionDays);
+    const report = await this.retentionManager.run(options);
     
     console.log('Cleanup completed');
+    return report;
+  }
+
+  // With a userId, the user is also subscribed to every listed feed, including ones already configured
+  async importOpml(xml: string, options: OpmlImportOptions & { userId?: number } = {}): Promise<OpmlImportReport> {
+    const report = await new OpmlImporter(this.config).run(xml, options);
+
+    if (options.userId !== undefined && !report.dryRun) {
+      for (const entry of report.entries) {
+        if (entry.id && entry.status !== 'would-add' && entry.status !== 'would-update') {
+          this.database.subscribe(options.userId, entry.id);
+        }
+      }
+    }
+
+    // Fetch the new feeds one after another rather than all at once
+    const added = report.added.filter(podcast => podcast.enabled);
+    if (added.length > 0) {
+      (async () => {
+        for (const podcast of added) {
+          await this.processPodcast(podcast.id);
+        }
+      })();
+    }
+
+    return report;
+  }
+
+  // Lists every enabled podcast by its proxied feed, so apps subscribe to the ad-free versions.
+  // With a feed token it lists that user's subscriptions at their private URLs.
+  async exportOpml(feedToken?: FeedToken): Promise<string> {
+    const feedBase = feedToken
+      ? `${this.config.getPublicUrl()}/rss/${feedToken.token}`
+      : `${this.config.getPublicUrl()}/rss`;
+    const subscriptions = feedToken ? new Set(this.database.getSubscriptions(feedToken.userId)) : null;
+    const podcasts = (await this.config.getAllPodcasts())
+      .filter(podcast => podcast.enabled && (!subscriptions || subscriptions.has(podcast.id)));
+
+    return buildOpml('Podcastoor subscriptions', podcasts.map(podcast => ({
+      title: this.database.getShow(podcast.id)?.title || podcast.name,
+      xmlUrl: `${feedBase}/${podcast.id}`
+    })));
   }
 
   getHealthStatus() {
@@ -194,6 +270,7 @@ export class PodcastProcessor {
       shows: shows.length,
       jobs: jobStats,
       lastProcessingRun: new Date(),
+      budget: this.budgetManager.getStatus(),
       stats: {
         totalPodcasts: shows.length,
         totalEpisodes: totalEpisodes,
@@ -222,6 +299,14 @@ export class PodcastProcessor {
     this.llmOrchestrator = new LLMOrchestrator(llmConfig);
     this.storageManager = new StorageManager(storageConfig);
     this.rssProcessor = new RSSProcessor();
+    this.retentionManager = new RetentionManager(this.database, this.storageManager, this.config);
+    this.budgetManager = new BudgetManager(this.database, this.config);
+    this.config.onConfigChange(() => this.events.publish({ type: 'config.reloaded' }));
+    this.webhookDispatcher = new WebhookDispatcher(this.database, this.config, this.events);
+    this.authManager = new AuthManager(this.database, this.config);
+    if (!this.authManager.isEnabled()) {
+      console.warn('⚠️  No admin password or API key configured: the API and feeds are open to anyone');
+    }
     
     // Initialize job manager
     this.jobManager = new JobManager(
@@ -231,7 +316,14 @@ export class PodcastProcessor {
       this.llmOrchestrator,
       this.storageManager,
       this.rssProcessor,
-      { minAdDuration: processingConfig.minAdDuration }
+      {
+        minAdDuration: processingConfig.minAdDuration,
+        chunkConcurrency: processingConfig.chunkConcurrency,
+        leaseTimeoutSeconds: processingConfig.leaseTimeoutSeconds
+      },
+      this.config,
+      this.budgetManager,
+      this.events
     );
 
     // Test connections
@@ -258,7 +350,11 @@ export class PodcastProcessor {
     // Cleanup old files daily at 3am
     const cleanupJob = cron.schedule('0 3 * * *', async () => {
       console.log('Running scheduled cleanup...');
-      await this.cleanupOldFiles();
+      try {
+        await this.cleanupOldFiles();
+      } catch (error) {
+        this.handleProcessingError(error as Error, 'cleanup');
+      }
     });
     this.cronJobs.set('cleanup', cleanupJob);
     
@@ -285,4 +381,12 @@ export class PodcastProcessor {
   getJobManager(): JobManager {
     return this.jobManager;
   }
+
+  getAuth(): AuthManager {
+    return this.authManager;
+  }
+
+  getEvents(): EventBus {
+    return this.events;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { Context } from 'hono';
+import { Readable } from 'stream';
+import { randomBytes } from 'crypto';
+import { StorageManager } from '../storage/StorageManager';
+import { ByteRange, isIfRangeSatisfied, matchesETag, parseRangeHeader } from './http';
+
+export interface StoredAudio {
+  key: string;
+  contentType?: string;
+}
+
+/**
+ * Serves an audio file from storage with the conditional and partial request
+ * handling podcast apps rely on for seeking: HEAD, ETag/If-None-Match,
+ * If-Range and single or multi-range 206 responses.
+ * Returns null when the file is missing so the caller can fall back.
+ */
+export async function serveStoredAudio(c: Context, storage: StorageManager, audio: StoredAudio): Promise<Response | null> {
+  const metadata = await storage.getFileMetadata(audio.key);
+  if (!metadata) {
+    return null;
+  }
+
+  const { size, etag, lastModified } = metadata;
+  const contentType = audio.contentType || metadata.contentType;
+  const isHead = c.req.method === 'HEAD';
+
+  c.header('Accept-Ranges', 'bytes');
+  c.header('ETag', etag);
+  c.header('Last-Modified', lastModified.toUTCString());
+  c.header('Cache-Control', 'public, max-age=3600');
+
+  if (matchesETag(c.req.header('If-None-Match'), etag)) {
+    return c.body(null, 304);
+  }
+
+  const ranges = isIfRangeSatisfied(c.req.header('If-Range'), etag, lastModified)
+    ? parseRangeHeader(c.req.header('Range'), size)
+    : null;
+
+  if (ranges === 'unsatisfiable') {
+    c.header('Content-Range', `bytes */${size}`);
+    return c.body(null, 416);
+  }
+
+  if (!ranges) {
+    c.header('Content-Type', contentType);
+    c.header('Content-Length', String(size));
+    return isHead ? c.body(null, 200) : c.body(toWebStream(await storage.openReadStream(audio.key)), 200);
+  }
+
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    c.header('Content-Type', contentType);
+    c.header('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    c.header('Content-Length', String(range.end - range.start + 1));
+    return isHead ? c.body(null, 206) : c.body(toWebStream(await storage.openReadStream(audio.key, range)), 206);
+  }
+
+  // Several ranges go back as one multipart/byteranges body
+  const boundary = randomBytes(16).toString('hex');
+  const parts = ranges.map(range => ({
+    range,
+    header: Buffer.from(
+      `\r\n--${boundary}\r\n` +
+      `Content-Type: ${contentType}\r\n` +
+      `Content-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`
+    )
+  }));
+  const trailer = Buffer.from(`\r\n--${boundary}--\r\n`);
+  const contentLength = parts.reduce(
+    (total, part) => total + part.header.length + (part.range.end - part.range.start + 1),
+    trailer.length
+  );
+
+  c.header('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  c.header('Content-Length', String(contentLength));
+
+  if (isHead) {
+    return c.body(null, 206);
+  }
+
+  async function* multipartBody(): AsyncGenerator<Buffer> {
+    for (const part of parts) {
+      yield part.header;
+      yield* readRange(storage, audio.key, part.range);
+    }
+    yield trailer;
+  }
+
+  return c.body(toWebStream(Readable.from(multipartBody())), 206);
+}
+
+async function* readRange(storage: StorageManager, key: string, range: ByteRange): AsyncGenerator<Buffer> {
+  for await (const chunk of await storage.openReadStream(key, range)) {
+    yield chunk as Buffer;
+  }
+}
+
+function toWebStream(stream: Readable): ReadableStream {
+  return Readable.toWeb(stream) as ReadableStream;
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { Context, MiddlewareHandler } from 'hono';
+import { getCookie, setCookie, deleteCookie } from 'hono/cookie';
+import { AuthManager, AdminSession } from '../services/AuthManager';
+
+export const SESSION_COOKIE = 'podcastoor_session';
+
+// Reachable signed out, so the UI can find out whether to show a login form
+const PUBLIC_PATHS = new Set(['/api/auth/login', '/api/auth/logout', '/api/auth/session']);
+
+// A valid ?token= stands in for an admin here: it only exports that token's own private feeds
+const FEED_TOKEN_PATHS = new Set(['/api/opml']);
+
+function getBearerToken(c: Context): string | undefined {
+  const header = c.req.header('Authorization');
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  return c.req.header('X-API-Key');
+}
+
+// True when auth is off, or the request carries an API key or a live admin session
+export function isAdminRequest(c: Context, auth: AuthManager): boolean {
+  if (!auth.isEnabled()) return true;
+
+  const apiKey = getBearerToken(c);
+  if (apiKey && auth.verifyApiKey(apiKey)) return true;
+
+  const session = getCookie(c, SESSION_COOKIE);
+  return Boolean(session && auth.verifySession(session));
+}
+
+/**
+ * Guards /api/*: everything but the sign-in endpoints needs an admin, reads
+ * included, since episodes, events and costs expose processed URLs and spend.
+ */
+export function requireAdmin(auth: AuthManager): MiddlewareHandler {
+  return async (c, next) => {
+    const path = c.req.path;
+    const token = c.req.query('token');
+    const needsAdmin = !PUBLIC_PATHS.has(path) &&
+      !(FEED_TOKEN_PATHS.has(path) && token && auth.resolveFeedToken(token));
+
+    if (needsAdmin && !isAdminRequest(c, auth)) {
+      return c.json({ error: 'Authentication required' }, 401);
+    }
+    await next();
+  };
+}
+
+export function setSessionCookie(c: Context, session: AdminSession, secure: boolean): void {
+  setCookie(c, SESSION_COOKIE, session.token, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'Lax',
+    secure,
+    expires: session.expiresAt
+  });
+}
+
+// Returns the session token that was set, so it can be invalidated server-side as well
+export function clearSessionCookie(c: Context): string | undefined {
+  const token = getCookie(c, SESSION_COOKIE);
+  deleteCookie(c, SESSION_COOKIE, { path: '/' });
+  return token;
+}
\ No newline at end of file
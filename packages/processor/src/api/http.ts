@@ -0,0 +1,78 @@
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+// Requests asking for more ranges than this are answered with the whole file
+const MAX_RANGES = 20;
+
+// If-None-Match may list several tags, or '*'; weak tags compare equal to strong ones
+export function matchesETag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some(tag => {
+    const candidate = tag.trim().replace(/^W\//, '');
+    return candidate === '*' || candidate === etag;
+  });
+}
+
+/**
+ * Whether a Range header should be honoured given its If-Range validator.
+ * If-Range uses strong comparison, so weak ETags never match.
+ */
+export function isIfRangeSatisfied(ifRange: string | undefined, etag: string, lastModified: Date): boolean {
+  if (!ifRange) return true;
+
+  const validator = ifRange.trim();
+  if (validator.startsWith('"')) {
+    return validator === etag;
+  }
+  if (validator.startsWith('W/')) {
+    return false;
+  }
+
+  const date = Date.parse(validator);
+  return !isNaN(date) && Math.floor(lastModified.getTime() / 1000) === Math.floor(date / 1000);
+}
+
+/**
+ * Parses a `Range: bytes=...` header (RFC 9110 section 14.1).
+ * Returns null when the header should be ignored and the whole file served,
+ * or 'unsatisfiable' when none of the requested ranges overlap the file.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange[] | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) return null;
+
+  const specs = match[1].split(',').map(spec => spec.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = spec.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (!parts || (parts[1] === '' && parts[2] === '')) {
+      return null;
+    }
+
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      const length = parseInt(parts[2], 10);
+      if (length > 0 && size > 0) {
+        ranges.push({ start: Math.max(0, size - length), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = parseInt(parts[1], 10);
+    const end = parts[2] === '' ? size - 1 : Math.min(parseInt(parts[2], 10), size - 1);
+    if (parts[2] !== '' && parseInt(parts[2], 10) < start) {
+      return null;
+    }
+    if (start < size) {
+      ranges.push({ start, end });
+    }
+  }
+
+  return ranges.length > 0 ? ranges : 'unsatisfiable';
+}
\ No newline at end of file
@@ -1,31 +1,198 @@
 import { Hono, Context } from 'hono';
 import { cors } from 'hono/cors';
+import { streamSSE } from 'hono/streaming';
 import { serveStatic } from '@hono/node-server/serve-static';
 import { existsSync } from 'fs';
+import { createHash } from 'crypto';
 import { join } from 'path';
+import { PodcastConfig, PodcastConfigSchema, PodcastoorError } from '@podcastoor/shared';
 import { PodcastProcessor } from '../PodcastProcessor';
+import { FeedPreferences, FeedToken } from '../database/Database';
+import { TranscriptFormatter, TRANSCRIPT_CONTENT_TYPES, TranscriptFormat, buildTranscriptLinks } from '../transcript';
+import { buildJsonChapters, buildChaptersUrl, JSON_CHAPTERS_CONTENT_TYPE } from '../rss/chapters';
+import { FeedTransformer, FeedItemRewrite } from '../rss/FeedTransformer';
+import { FeedFetcher } from '../rss/FeedFetcher';
+import { OPML_CONTENT_TYPE } from '../rss/opml';
+import { matchesETag } from './http';
+import { serveStoredAudio } from './audioStreaming';
+import { isAdminRequest, requireAdmin, setSessionCookie, clearSessionCookie } from './auth';
+import { PODCAST_ID_PATTERN, slugify } from '../config/ConfigManager';
 
-// Helper functions for RSS feed generation
-function escapeXml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-}
-
-function formatTimeForPSC(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  const ms = Math.round((seconds % 1) * 1000);
-  
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
-}
+const SSE_KEEPALIVE_MS = 15000;
+
+const FEED_PREFERENCE_VALUES: { [K in keyof FeedPreferences]: ReadonlyArray<FeedPreferences[K]> } = {
+  adMode: ['strip', 'keep'],
+  titleSuffix: ['full', 'short', 'none'],
+  chapterFormat: ['all', 'podcast', 'psc', 'none']
+};
 
 export function createAPIServer(processor: PodcastProcessor) {
   const app = new Hono();
+  const transcriptFormatter = new TranscriptFormatter();
+  const feedTransformer = new FeedTransformer();
+  const feedFetcher = new FeedFetcher(processor.getDatabase(), processor.getConfig().getFeedConfig(), processor.getEvents());
+  const auth = processor.getAuth();
+
+  const serveTranscript = (c: Context, episodeGuid: string, format: TranscriptFormat) => {
+    const db = processor.getDatabase();
+    const details = db.getEpisodeDetails(episodeGuid);
+    
+    if (!details || !details.episode) {
+      return c.json({ error: 'Episode not found' }, 404);
+    }
+    
+    const transcript = details.job?.status === 'completed' ? db.getTranscript(details.job.id) : [];
+    if (transcript.length === 0) {
+      return c.json({ error: 'Transcript not available' }, 404);
+    }
+    
+    c.header('Content-Type', `${TRANSCRIPT_CONTENT_TYPES[format]}; charset=utf-8`);
+    return c.body(transcriptFormatter.format(transcript, format));
+  };
+
+  // A private feed token may read an episode's files only if its user subscribes to the show
+  const getSubscriber = (feedToken: FeedToken, episodeGuid: string) => {
+    const db = processor.getDatabase();
+    const episode = db.getEpisode(episodeGuid);
+    const user = db.getUser(feedToken.userId);
+    return episode && user && db.isSubscribed(user.id, episode.showId) ? { episode, user } : null;
+  };
+
+  const serveAudio = async (c: Context, episodeGuid: string) => {
+    try {
+      const db = processor.getDatabase();
+      const details = db.getEpisodeDetails(episodeGuid);
+      
+      if (!details?.episode) {
+        return c.json({ error: 'Episode not found' }, 404);
+      }
+      
+      const processedEpisode = details.job?.status === 'completed' ? details.processedEpisode : null;
+      if (processedEpisode) {
+        const storage = processor.getStorageManager();
+        const key = storage.getKeyFromUrl(processedEpisode.processedUrl);
+        
+        // Processed audio stored somewhere we can't read directly is still reachable by URL
+        if (!key) {
+          return c.redirect(processedEpisode.processedUrl);
+        }
+        
+        const response = await serveStoredAudio(c, storage, { key, contentType: processedEpisode.contentType });
+        if (response) {
+          return response;
+        }
+        console.warn(`Processed audio missing from storage for ${episodeGuid}, redirecting to original`);
+      }
+      
+      return c.redirect(details.episode.audioUrl, 307);
+    } catch (error) {
+      console.error('Error serving audio:', error);
+      return c.json({ 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      }, 500);
+    }
+  };
+
+  // Proxied show feed; a private feed uses the token's URLs and is composed with its user's preferences
+  const serveFeed = async (c: Context, showIdWithExt: string, privateFeed?: { token: string; preferences: FeedPreferences }) => {
+    const token = privateFeed?.token;
+    const preferences = privateFeed?.preferences;
+    // Remove .rss extension if present
+    const showId = showIdWithExt.endsWith('.rss') 
+      ? showIdWithExt.slice(0, -4) 
+      : showIdWithExt;
+    
+    try {
+      const db = processor.getDatabase();
+      console.log('RSS request for show:', showId);
+      const show = db.getShow(showId);
+      console.log('Found show:', show);
+      
+      if (!show) {
+        return c.json({ error: 'Show not found' }, 404);
+      }
+      
+      // Fetch the original RSS feed, revalidating the cached copy when it has expired
+      const upstream = await feedFetcher.fetchFeed(showId, show.feedUrl);
+      
+      // Get the public URL from config
+      const publicUrl = processor.getConfig().getPublicUrl();
+      const feedBase = token ? `${publicUrl}/rss/${token}` : `${publicUrl}/rss`;
+      const audioBase = token ? `${publicUrl}/audio/${token}` : `${publicUrl}/audio`;
+      
+      // Every known episode streams through our audio proxy; processed ones get their
+      // processed duration, chapters and transcripts as well. Users keeping ads get the
+      // original audio, so none of the processed details (all timed against it) apply.
+      const keepAds = preferences?.adMode === 'keep';
+      const items = new Map<string, FeedItemRewrite>();
+      for (const episode of db.getShowEpisodes(showId)) {
+        const completedJob = keepAds ? undefined : db.getEpisodeJobs(episode.guid).find(job => job.status === 'completed');
+        const processedEpisode = completedJob ? db.getProcessedEpisode(completedJob.id) : null;
+        
+        items.set(episode.guid, {
+          audioUrl: `${audioBase}/${encodeURIComponent(episode.guid)}`,
+          processed: completedJob && processedEpisode ? {
+            originalDuration: processedEpisode.originalDuration,
+            processedDuration: processedEpisode.processedDuration,
+            adsRemoved: db.getAds(completedJob.id).length,
+            // Episodes processed before file sizes were recorded fall back to a 128kbps estimate
+            enclosureLength: processedEpisode.fileSize ?? Math.round(processedEpisode.processedDuration * 128 * 1000 / 8),
+            enclosureType: processedEpisode.contentType || 'audio/mpeg',
+            chapters: db.getChapters(completedJob.id),
+            chaptersUrl: buildChaptersUrl(publicUrl, episode.guid, token),
+            transcripts: db.hasTranscript(completedJob.id) ? buildTranscriptLinks(publicUrl, episode.guid, { token }) : []
+          } : undefined
+        });
+      }
+      
+      const rssContent = feedTransformer.transform(upstream.body, {
+        feedUrl: `${feedBase}/${showId}`,
+        sourceUrl: show.feedUrl,
+        items,
+        titleSuffix: preferences?.titleSuffix,
+        chapterFormat: preferences?.chapterFormat
+      });
+      
+      // Set appropriate headers
+      const etag = `"${createHash('sha1').update(rssContent).digest('hex')}"`;
+      c.header('ETag', etag);
+      // Cache for 5 minutes, but keep shared caches from storing a user's private feed
+      c.header('Cache-Control', `${token ? 'private' : 'public'}, max-age=300`);
+      
+      if (matchesETag(c.req.header('If-None-Match'), etag)) {
+        return c.body(null, 304);
+      }
+      
+      c.header('Content-Type', 'application/rss+xml; charset=utf-8');
+      return c.body(rssContent);
+      
+    } catch (error) {
+      console.error('Error serving RSS feed:', error);
+      return c.json({ 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      }, 500);
+    }
+  };
+
+  const podcastErrorResponse = (c: Context, error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof PodcastoorError && error.code === 'PODCAST_NOT_FOUND') {
+      return c.json({ error: message }, 404);
+    }
+    if (error instanceof PodcastoorError && (error.code === 'PODCAST_EXISTS' || error.code === 'CONFIG_READ_ONLY')) {
+      return c.json({ error: message }, 409);
+    }
+    return c.json({ error: message }, 500);
+  };
+
+  const readJsonObject = async (c: Context): Promise<Record<string, any> | null> => {
+    try {
+      const body = await c.req.json();
+      return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+    } catch {
+      return null;
+    }
+  };
 
   // Enable CORS for development
   if (process.env.NODE_ENV === 'development') {
@@ -35,6 +202,8 @@ export function createAPIServer(processor: PodcastProcessor) {
     }));
   }
 
+  app.use('/api/*', requireAdmin(auth));
+
   // Health check
   app.get('/health', async (c: Context) => {
     try {
@@ -52,6 +221,56 @@ export function createAPIServer(processor: PodcastProcessor) {
     }
   });
 
+  // Live job, episode and config updates as Server-Sent Events
+  app.get('/api/events', (c: Context) => {
+    return streamSSE(c, async (stream) => {
+      let eventId = 0;
+      const unsubscribe = processor.getEvents().subscribe(event => {
+        stream.writeSSE({ id: String(++eventId), data: JSON.stringify(event) }).catch(() => unsubscribe());
+      });
+      stream.onAbort(unsubscribe);
+      
+      // Comment lines keep idle connections from being dropped by proxies
+      while (!stream.aborted && !stream.closed) {
+        await stream.write(': keepalive\n\n');
+        await stream.sleep(SSE_KEEPALIVE_MS);
+      }
+      unsubscribe();
+    });
+  });
+
+  // Whether auth is on and this browser is signed in
+  app.get('/api/auth/session', (c: Context) => {
+    return c.json({
+      authRequired: auth.isEnabled(),
+      authenticated: isAdminRequest(c, auth)
+    });
+  });
+
+  // Exchange the admin password for a session cookie
+  app.post('/api/auth/login', async (c: Context) => {
+    const body = await readJsonObject(c);
+    if (typeof body?.password !== 'string') {
+      return c.json({ error: 'password is required' }, 400);
+    }
+
+    const session = auth.login(body.password);
+    if (!session) {
+      return c.json({ error: 'Invalid password' }, 401);
+    }
+
+    setSessionCookie(c, session, processor.getConfig().getPublicUrl().startsWith('https:'));
+    return c.json({ authenticated: true, expiresAt: session.expiresAt });
+  });
+
+  app.post('/api/auth/logout', (c: Context) => {
+    const token = clearSessionCookie(c);
+    if (token) {
+      auth.logout(token);
+    }
+    return c.json({ authenticated: false });
+  });
+
   // Process specific podcast
   app.post('/api/process/:podcastId', async (c: Context) => {
     const podcastId = c.req.param('podcastId');
@@ -80,6 +299,331 @@ export function createAPIServer(processor: PodcastProcessor) {
     }
   });
 
+  // Configured podcasts, as stored in the config file
+  app.get('/api/podcasts', async (c: Context) => {
+    try {
+      return c.json(await processor.getConfig().getAllPodcasts());
+    } catch (error) {
+      return c.json({ 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      }, 500);
+    }
+  });
+
+  // Add a podcast; only name and rssUrl are required, the id defaults to a slug of the name
+  app.post('/api/podcasts', async (c: Context) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json({ error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const config = processor.getConfig();
+    const defaults = config.getPodcastDefaults();
+    const id = body.id ?? (typeof body.name === 'string' ? slugify(body.name) : undefined);
+
+    if (typeof id !== 'string' || !PODCAST_ID_PATTERN.test(id)) {
+      return c.json({ error: 'id may only contain letters, numbers, dashes and underscores' }, 400);
+    }
+
+    const parsed = PodcastConfigSchema.safeParse({
+      ...defaults,
+      ...body,
+      id,
+      processingOptions: { ...defaults.processingOptions, ...body.processingOptions }
+    });
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid podcast', issues: parsed.error.issues }, 400);
+    }
+
+    try {
+      const podcast = await config.addPodcast(parsed.data);
+      
+      // Fetch the feed straight away so the show and its episodes appear
+      if (podcast.enabled) {
+        processor.processPodcast(podcast.id);
+      }
+      
+      return c.json(podcast, 201);
+    } catch (error) {
+      return podcastErrorResponse(c, error);
+    }
+  });
+
+  // Update a podcast; fields left out of the body keep their values
+  app.put('/api/podcasts/:id', async (c: Context) => {
+    const id = c.req.param('id');
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json({ error: 'Request body must be a JSON object' }, 400);
+    }
+    if (body.id !== undefined && body.id !== id) {
+      return c.json({ error: 'A podcast id cannot be changed' }, 400);
+    }
+
+    const config = processor.getConfig();
+    const current = await config.getPodcast(id);
+    if (!current) {
+      return c.json({ error: `Podcast with id '${id}' not found` }, 404);
+    }
+
+    const parsed = PodcastConfigSchema.safeParse({
+      ...current,
+      ...body,
+      id,
+      processingOptions: { ...current.processingOptions, ...body.processingOptions }
+    });
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid podcast', issues: parsed.error.issues }, 400);
+    }
+
+    // Persist only the fields the request set, taking their validated values
+    const { processingOptions, ...fields } = parsed.data as Record<string, any>;
+    const updates: Record<string, any> = {};
+    for (const key of Object.keys(body)) {
+      if (key === 'processingOptions') {
+        updates.processingOptions = Object.fromEntries(
+          Object.keys(body.processingOptions ?? {})
+            .filter(option => option in processingOptions)
+            .map(option => [option, processingOptions[option]])
+        );
+      } else if (key in fields) {
+        updates[key] = fields[key];
+      }
+    }
+
+    try {
+      return c.json(await config.updatePodcast(id, updates as Partial<PodcastConfig>));
+    } catch (error) {
+      return podcastErrorResponse(c, error);
+    }
+  });
+
+  // Remove a podcast from the config and from users' subscriptions; its processed episodes
+  // stay until retention cleans them up
+  app.delete('/api/podcasts/:id', async (c: Context) => {
+    try {
+      await processor.getConfig().removePodcast(c.req.param('id'));
+      processor.getDatabase().deleteShowSubscriptions(c.req.param('id'));
+      return c.json({ success: true });
+    } catch (error) {
+      return podcastErrorResponse(c, error);
+    }
+  });
+
+  // Export enabled podcasts as OPML, pointing at their proxied feeds; ?token= gives a user's subscriptions at their private URLs.
+  // Without a token only an admin can export, and the /rss/<showId> URLs it lists need an API key when auth is on
+  app.get('/api/opml', async (c: Context) => {
+    const token = c.req.query('token');
+    const feedToken = token ? auth.resolveFeedToken(token) : null;
+    if (token && !feedToken) {
+      return c.json({ error: 'Feed token not found' }, 404);
+    }
+
+    try {
+      c.header('Content-Type', `${OPML_CONTENT_TYPE}; charset=utf-8`);
+      c.header('Content-Disposition', 'attachment; filename="podcastoor.opml"');
+      return c.body(await processor.exportOpml(feedToken ?? undefined));
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Import podcasts from an OPML file, sent as the raw body or as a multipart "file" field.
+  // ?dryRun=true previews the result; ?onConflict=update renames and re-enables feeds already configured
+  app.post('/api/opml/import', async (c: Context) => {
+    const onConflict = c.req.query('onConflict') ?? 'skip';
+    if (onConflict !== 'skip' && onConflict !== 'update') {
+      return c.json({ error: 'onConflict must be "skip" or "update"' }, 400);
+    }
+
+    let xml: string;
+    if (c.req.header('Content-Type')?.startsWith('multipart/form-data')) {
+      const file = (await c.req.parseBody())['file'];
+      xml = typeof file === 'string' ? file : file ? await file.text() : '';
+    } else {
+      xml = await c.req.text();
+    }
+    if (!xml.trim()) {
+      return c.json({ error: 'Request must contain an OPML document' }, 400);
+    }
+
+    // ?userId= subscribes that user to the imported feeds
+    const userId = c.req.query('userId') === undefined ? undefined : Number(c.req.query('userId'));
+    if (userId !== undefined && !processor.getDatabase().getUser(userId)) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    try {
+      const dryRun = c.req.query('dryRun') === 'true';
+      return c.json(await processor.importOpml(xml, { dryRun, onConflict, userId }));
+    } catch (error) {
+      if (error instanceof PodcastoorError && error.code === 'INVALID_OPML') {
+        return c.json({ error: error.message }, 400);
+      }
+      return podcastErrorResponse(c, error);
+    }
+  });
+
+  // Private feeds live under /rss/<token>/<showId>
+  const withFeedUrl = (token: FeedToken) => ({
+    ...token,
+    feedBaseUrl: `${processor.getConfig().getPublicUrl()}/rss/${token.token}`
+  });
+
+  // Users with their subscriptions and feed tokens, revoked ones included
+  app.get('/api/users', async (c: Context) => {
+    try {
+      const db = processor.getDatabase();
+      return c.json(db.getUsers().map(user => ({
+        ...user,
+        subscriptions: db.getSubscriptions(user.id),
+        tokens: db.getFeedTokens(user.id).map(withFeedUrl)
+      })));
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Add a user; they get a first feed token straight away
+  app.post('/api/users', async (c: Context) => {
+    const body = await readJsonObject(c);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return c.json({ error: 'name is required' }, 400);
+    }
+
+    try {
+      const db = processor.getDatabase();
+      if (db.getUsers().some(user => user.name === name)) {
+        return c.json({ error: `User '${name}' already exists` }, 409);
+      }
+
+      const user = db.createUser(name);
+      return c.json({ ...user, subscriptions: [], tokens: [withFeedUrl(auth.createFeedToken(user.id))] }, 201);
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Remove a user and all of their feed tokens
+  app.delete('/api/users/:id', async (c: Context) => {
+    try {
+      if (!processor.getDatabase().deleteUser(Number(c.req.param('id')))) {
+        return c.json({ error: 'User not found' }, 404);
+      }
+      return c.json({ success: true });
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Change how a user's feeds are composed; preferences left out of the body keep their values
+  app.put('/api/users/:id/preferences', async (c: Context) => {
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json({ error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const preferences: Partial<FeedPreferences> = {};
+    for (const [key, allowed] of Object.entries(FEED_PREFERENCE_VALUES) as Array<[keyof FeedPreferences, readonly string[]]>) {
+      if (body[key] === undefined) continue;
+      if (!allowed.includes(body[key])) {
+        return c.json({ error: `${key} must be one of: ${allowed.join(', ')}` }, 400);
+      }
+      (preferences as Record<string, string>)[key] = body[key];
+    }
+
+    try {
+      const user = processor.getDatabase().updateUserPreferences(Number(c.req.param('id')), preferences);
+      if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+      }
+      return c.json(user);
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Subscribe a user to a configured podcast; its feed then appears under their tokens
+  app.put('/api/users/:id/subscriptions/:showId', async (c: Context) => {
+    const showId = c.req.param('showId');
+
+    try {
+      const db = processor.getDatabase();
+      const user = db.getUser(Number(c.req.param('id')));
+      if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+      }
+      if (!await processor.getConfig().getPodcast(showId)) {
+        return c.json({ error: `Podcast with id '${showId}' not found` }, 404);
+      }
+
+      db.subscribe(user.id, showId);
+      return c.json({ success: true, subscriptions: db.getSubscriptions(user.id) });
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  app.delete('/api/users/:id/subscriptions/:showId', async (c: Context) => {
+    try {
+      const db = processor.getDatabase();
+      const userId = Number(c.req.param('id'));
+      if (!db.unsubscribe(userId, c.req.param('showId'))) {
+        return c.json({ error: 'Subscription not found' }, 404);
+      }
+      return c.json({ success: true, subscriptions: db.getSubscriptions(userId) });
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Issue another feed token, e.g. one per podcast app so each can be revoked on its own
+  app.post('/api/users/:id/tokens', async (c: Context) => {
+    const body = await readJsonObject(c);
+    const label = typeof body?.label === 'string' ? body.label.trim() : undefined;
+
+    try {
+      const user = processor.getDatabase().getUser(Number(c.req.param('id')));
+      if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+      }
+      return c.json(withFeedUrl(auth.createFeedToken(user.id, label || undefined)), 201);
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Revoke a feed token; its feed and audio URLs stop working immediately
+  app.delete('/api/feed-tokens/:id', async (c: Context) => {
+    try {
+      if (!processor.getDatabase().revokeFeedToken(Number(c.req.param('id')))) {
+        return c.json({ error: 'Feed token not found or already revoked' }, 404);
+      }
+      return c.json({ success: true });
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
   // Get all shows
   app.get('/api/shows', async (c: Context) => {
     try {
@@ -223,6 +767,25 @@ export function createAPIServer(processor: PodcastProcessor) {
     }
   });
 
+  // Get episode transcript as JSON, SRT or WebVTT (?format=json|srt|vtt)
+  app.get('/api/episodes/:episodeGuid/transcript', async (c: Context) => {
+    const episodeGuid = c.req.param('episodeGuid');
+    const format = (c.req.query('format') || 'json').toLowerCase() as TranscriptFormat;
+    
+    if (!(format in TRANSCRIPT_CONTENT_TYPES)) {
+      return c.json({ error: `Unsupported transcript format: ${format}` }, 400);
+    }
+    
+    try {
+      return serveTranscript(c, episodeGuid, format);
+    } catch (error) {
+      console.error('Error fetching transcript:', error);
+      return c.json({ 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      }, 500);
+    }
+  });
+
   // Create processing job
   app.post('/api/jobs', async (c: Context) => {
     try {
@@ -241,6 +804,7 @@ export function createAPIServer(processor: PodcastProcessor) {
       }
       
       const jobId = db.createJob(episodeGuid, priority);
+      processor.getEvents().publish({ type: 'job.queued', jobId, episodeGuid, showId: episode.showId });
       
       return c.json({ 
         success: true, 
@@ -266,228 +830,252 @@ export function createAPIServer(processor: PodcastProcessor) {
     }
   });
 
+  // Get a job with its progress and step timeline - MUST be after /api/jobs/stats
+  app.get('/api/jobs/:id', async (c: Context) => {
+    const jobId = Number(c.req.param('id'));
+    if (!Number.isInteger(jobId)) {
+      return c.json({ error: 'Invalid job id' }, 400);
+    }
+
+    try {
+      const db = processor.getDatabase();
+      const job = db.getJob(jobId);
+
+      if (!job) {
+        return c.json({ error: 'Job not found' }, 404);
+      }
+
+      return c.json({
+        ...job,
+        steps: db.getJobSteps(jobId),
+        llmCosts: db.getJobLLMCosts(jobId),
+        totalCost: db.getJobLLMCostTotal(jobId)
+      });
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // LLM spend rolled up by show, model and day; ?from=YYYY-MM-DD&to=YYYY-MM-DD
+  app.get('/api/costs', async (c: Context) => {
+    const from = c.req.query('from');
+    const to = c.req.query('to');
+    const isDay = (value?: string) => !value || /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+    if (!isDay(from) || !isDay(to)) {
+      return c.json({ error: 'from and to must be YYYY-MM-DD dates' }, 400);
+    }
+
+    try {
+      return c.json(processor.getDatabase().getLLMCostReport(from, to));
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Recent webhook deliveries, newest first; ?limit=50
+  app.get('/api/webhooks/deliveries', async (c: Context) => {
+    const limit = Math.min(Math.max(Number(c.req.query('limit')) || 50, 1), 500);
+
+    try {
+      const deliveries = processor.getDatabase().getWebhookDeliveries(limit);
+      return c.json(deliveries.map(({ payload, ...delivery }) => ({ ...delivery, payload: JSON.parse(payload) })));
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Report what retention cleanup would delete, without deleting anything
+  app.get('/api/cleanup/preview', async (c: Context) => {
+    try {
+      return c.json(await processor.cleanupOldFiles({ dryRun: true }));
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
+  // Run retention cleanup now; ?dryRun=true only reports
+  app.post('/api/cleanup', async (c: Context) => {
+    try {
+      const dryRun = c.req.query('dryRun') === 'true';
+      return c.json(await processor.cleanupOldFiles({ dryRun }));
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  });
+
 
-  // Serve processed audio files
+  // Serve processed audio files, with range support so podcast apps can seek
   app.get('/audio/:episodeGuid', async (c: Context) => {
+    if (!isAdminRequest(c, auth)) {
+      return c.json({ error: 'Authentication required' }, 401);
+    }
+    return serveAudio(c, c.req.param('episodeGuid'));
+  });
+
+  // Audio referenced by a private feed carries the same token
+  app.get('/audio/:token/:episodeGuid', async (c: Context) => {
+    const feedToken = auth.resolveFeedToken(c.req.param('token'));
+    if (!feedToken) {
+      return c.json({ error: 'Feed token not found' }, 404);
+    }
+
     const episodeGuid = c.req.param('episodeGuid');
+    const subscriber = getSubscriber(feedToken, episodeGuid);
+    if (!subscriber) {
+      return c.json({ error: 'Episode not found' }, 404);
+    }
+
+    if (subscriber.user.preferences.adMode === 'keep') {
+      return c.redirect(subscriber.episode.audioUrl, 307);
+    }
+    return serveAudio(c, episodeGuid);
+  });
+
+  // Transcript files are named <guid>.<format>; a private feed's links carry its token
+  const serveTranscriptFile = async (c: Context, file: string, feedToken?: FeedToken) => {
+    const extensionIndex = file.lastIndexOf('.');
+    const episodeGuid = extensionIndex === -1 ? file : file.slice(0, extensionIndex);
+    const format = (extensionIndex === -1 ? '' : file.slice(extensionIndex + 1).toLowerCase()) as TranscriptFormat;
     
-    try {
-      const db = processor.getDatabase();
-      const details = db.getEpisodeDetails(episodeGuid);
-      
-      // Redirect to processed URL if available, otherwise original
-      if (details?.processedEpisode) {
-        return c.redirect(details.processedEpisode.processedUrl);
-      } else if (details?.episode) {
-        return c.redirect(details.episode.audioUrl);
-      } else {
-        return c.json({ error: 'Episode not found' }, 404);
+    if (!(format in TRANSCRIPT_CONTENT_TYPES)) {
+      return c.json({ error: 'Transcript not found' }, 404);
+    }
+    
+    // Transcripts are timed against the processed audio, which users keeping ads don't get
+    if (feedToken) {
+      const subscriber = getSubscriber(feedToken, episodeGuid);
+      if (!subscriber || subscriber.user.preferences.adMode === 'keep') {
+        return c.json({ error: 'Transcript not found' }, 404);
       }
+    }
+    
+    try {
+      // Podcast apps fetch transcripts cross-origin from web players
+      c.header('Access-Control-Allow-Origin', '*');
+      c.header('Cache-Control', `${auth.isEnabled() ? 'private' : 'public'}, max-age=3600`);
+      return serveTranscript(c, episodeGuid, format);
     } catch (error) {
-      console.error('Error serving audio:', error);
+      console.error('Error serving transcript:', error);
       return c.json({ 
         error: error instanceof Error ? error.message : 'Unknown error' 
       }, 500);
     }
+  };
+
+  // Hosted transcript files referenced by <podcast:transcript> tags, e.g. /transcripts/<guid>.vtt
+  app.get('/transcripts/:file', async (c: Context) => {
+    if (!isAdminRequest(c, auth)) {
+      return c.json({ error: 'Authentication required' }, 401);
+    }
+    return serveTranscriptFile(c, c.req.param('file'));
   });
 
-  // RSS feed proxy - serves processed audio URLs
-  app.get('/rss/:showId', async (c: Context) => {
-    const showIdWithExt = c.req.param('showId');
-    // Remove .rss extension if present
-    const showId = showIdWithExt.endsWith('.rss') 
-      ? showIdWithExt.slice(0, -4) 
-      : showIdWithExt;
+  // Transcripts referenced by a private feed carry the same token
+  app.get('/transcripts/:token/:file', async (c: Context) => {
+    const feedToken = auth.resolveFeedToken(c.req.param('token'));
+    if (!feedToken) {
+      return c.json({ error: 'Feed token not found' }, 404);
+    }
+    return serveTranscriptFile(c, c.req.param('file'), feedToken);
+  });
+
+  // JSON chapters files are named <guid>.json; a private feed's URLs carry its token
+  const serveChaptersFile = async (c: Context, file: string, feedToken?: FeedToken) => {
+    if (!file.toLowerCase().endsWith('.json')) {
+      return c.json({ error: 'Chapters not found' }, 404);
+    }
+    const episodeGuid = file.slice(0, -5);
+    
+    // Chapters are timed against the processed audio, which users keeping ads don't get
+    if (feedToken) {
+      const subscriber = getSubscriber(feedToken, episodeGuid);
+      if (!subscriber || subscriber.user.preferences.adMode === 'keep') {
+        return c.json({ error: 'Chapters not found' }, 404);
+      }
+    }
     
     try {
       const db = processor.getDatabase();
-      console.log('RSS request for show:', showId);
-      const show = db.getShow(showId);
-      console.log('Found show:', show);
-      
-      if (!show) {
-        return c.json({ error: 'Show not found' }, 404);
-      }
-      
-      // Fetch the original RSS feed
-      const response = await fetch(show.feedUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch RSS feed: ${response.statusText}`);
-      }
-      
-      let rssContent = await response.text();
-      
-      // Get the public URL from config
-      const publicUrl = processor.getConfig().getPublicUrl();
-      
-      // Modify the channel title to make it unique
-      rssContent = rssContent.replace(
-        /(<title>)([^<]*?)(<\/title>)/,
-        (match, p1, p2, p3) => {
-          // Only replace the first title tag (channel title, not episode titles)
-          return `${p1}${p2} (Podcastoor)${p3}`;
-        }
-      );
-      
-      // Update the channel link to our RSS feed
-      rssContent = rssContent.replace(
-        /(<link>)([^<]*?)(<\/link>)/,
-        `$1${publicUrl}/rss/${showId}$3`
-      );
-      
-      // Get all episodes with processed versions
-      const episodes = db.getShowEpisodes(showId);
+      const details = db.getEpisodeDetails(episodeGuid);
       
-      // Replace all audio URLs to go through our proxy and modify GUIDs
-      for (const episode of episodes) {
-        // Always use our audio proxy endpoint
-        const audioProxyUrl = `${publicUrl}/audio/${episode.guid}`;
-        
-        // Find all items with this GUID and replace their audio URLs
-        const guidPattern = episode.guid.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        
-        // Create a pattern to find the item block for this episode
-        const itemPattern = new RegExp(
-          `<item>(?:[\\s\\S]*?)<guid[^>]*>${guidPattern}</guid>(?:[\\s\\S]*?)</item>`,
-          'g'
-        );
-        
-        rssContent = rssContent.replace(itemPattern, (itemBlock) => {
-          // Replace audio URL in enclosure tag
-          itemBlock = itemBlock.replace(
-            /(<enclosure[^>]*url=["'])([^"']+)([^>]*>)/g,
-            `$1${audioProxyUrl}$3`
-          );
-          
-          // Replace audio URL in media:content tag
-          itemBlock = itemBlock.replace(
-            /(<media:content[^>]*url=["'])([^"']+)([^>]*type="audio)/g,
-            `$1${audioProxyUrl}$3`
-          );
-          
-          // Modify the GUID to make it unique
-          itemBlock = itemBlock.replace(
-            /(<guid[^>]*>)([^<]+)(<\/guid>)/,
-            `$1podcastoor-${episode.guid}$3`
-          );
-          
-          return itemBlock;
-        });
+      if (!details || !details.episode) {
+        return c.json({ error: 'Episode not found' }, 404);
       }
       
-      // Now handle additional modifications for processed episodes
-      for (const episode of episodes) {
-        const jobs = db.getEpisodeJobs(episode.guid);
-        const completedJob = jobs.find(job => job.status === 'completed');
-        
-        if (completedJob) {
-          const processedEpisode = db.getProcessedEpisode(completedJob.id);
-          const chapters = db.getChapters(completedJob.id);
-          const ads = db.getAds(completedJob.id);
-          
-          if (processedEpisode) {
-            // Find all items with this GUID to make additional modifications
-            const guidPattern = episode.guid.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            
-            // Create a pattern to find the item block for this episode
-            const itemPattern = new RegExp(
-              `<item>(?:[\\s\\S]*?)<guid[^>]*>${guidPattern}</guid>(?:[\\s\\S]*?)</item>`,
-              'g'
-            );
-            
-            rssContent = rssContent.replace(itemPattern, (itemBlock) => {
-              // Update duration
-              if (processedEpisode.processedDuration) {
-                itemBlock = itemBlock.replace(
-                  /<itunes:duration>[^<]*<\/itunes:duration>/g,
-                  `<itunes:duration>${Math.round(processedEpisode.processedDuration)}</itunes:duration>`
-                );
-              }
-              
-              // Update file size in enclosure tag
-              const fileSizeInBytes = Math.round(processedEpisode.processedDuration * 128 * 1024 / 8); // Estimate based on 128kbps
-              itemBlock = itemBlock.replace(
-                /(<enclosure[^>]*length=["'])([^"']+)([^>]*>)/g,
-                `$1${fileSizeInBytes}$3`
-              );
-              
-              // Add ad removal stats to title if ads were removed
-              if (ads && ads.length > 0) {
-                const timeSaved = processedEpisode.originalDuration - processedEpisode.processedDuration;
-                const minutes = Math.floor(timeSaved / 60);
-                const seconds = Math.round(timeSaved % 60);
-                const timeString = minutes > 0 ? `${minutes}:${seconds.toString().padStart(2, '0')}` : `0:${seconds}`;
-                const adStats = ` (${ads.length} ads removed, ${timeString} saved)`;
-                
-                itemBlock = itemBlock.replace(
-                  /(<title>)([^<]*)(<\/title>)/,
-                  `$1$2${adStats}$3`
-                );
-              }
-              
-              // Add note to description
-              if (ads && ads.length > 0) {
-                const timeSaved = processedEpisode.originalDuration - processedEpisode.processedDuration;
-                const minutes = Math.floor(timeSaved / 60);
-                const seconds = Math.round(timeSaved % 60);
-                const timeString = minutes > 0 ? `${minutes}:${seconds.toString().padStart(2, '0')}` : `0:${seconds}`;
-                const adNote = `<p><strong>Ad-Free Version</strong> - ${ads.length} ads removed, ${timeString} saved.</p>`;
-                
-                itemBlock = itemBlock.replace(
-                  /(<description><!\[CDATA\[)([^\]]*)/,
-                  `$1${adNote}$2`
-                );
-              }
-              
-              // Add chapters if we have them
-              if (chapters && chapters.length > 0) {
-                // Add Podcast 2.0 chapters
-                const chaptersXml = chapters.map(ch => 
-                  `<podcast:chapter start="${ch.startTime}" title="${escapeXml(ch.title)}"${ch.description ? ` description="${escapeXml(ch.description)}"` : ''} />`
-                ).join('\n    ');
-                
-                // Insert chapters before the closing </item> tag
-                itemBlock = itemBlock.replace(
-                  '</item>',
-                  `  <podcast:chapters version="1.2">
-    ${chaptersXml}
-  </podcast:chapters>
-</item>`
-                );
-                
-                // Also add PSC (Podlove Simple Chapters) format for better compatibility
-                const pscChapters = chapters.map(ch => {
-                  const startTime = formatTimeForPSC(ch.startTime);
-                  return `<psc:chapter start="${startTime}" title="${escapeXml(ch.title)}" />`;
-                }).join('\n    ');
-                
-                itemBlock = itemBlock.replace(
-                  '</item>',
-                  `  <psc:chapters version="1.2">
-    ${pscChapters}
-  </psc:chapters>
-</item>`
-                );
-              }
-              
-              return itemBlock;
-            });
-          }
-        }
+      const chapters = details.chapters;
+      if (chapters.length === 0) {
+        return c.json({ error: 'Chapters not available' }, 404);
       }
       
-      // Set appropriate headers
-      c.header('Content-Type', 'application/rss+xml; charset=utf-8');
-      c.header('Cache-Control', 'public, max-age=300'); // Cache for 5 minutes
-      
-      return c.body(rssContent);
+      const show = db.getShow(details.episode.showId);
       
+      c.header('Access-Control-Allow-Origin', '*');
+      c.header('Cache-Control', `${auth.isEnabled() ? 'private' : 'public'}, max-age=3600`);
+      c.header('Content-Type', `${JSON_CHAPTERS_CONTENT_TYPE}; charset=utf-8`);
+      return c.body(JSON.stringify(buildJsonChapters(chapters, {
+        title: details.episode.title,
+        podcastName: show?.title
+      })));
     } catch (error) {
-      console.error('Error serving RSS feed:', error);
+      console.error('Error serving chapters:', error);
       return c.json({ 
         error: error instanceof Error ? error.message : 'Unknown error' 
       }, 500);
     }
+  };
+
+  // Hosted JSON chapters files referenced by <podcast:chapters> tags, e.g. /chapters/<guid>.json
+  app.get('/chapters/:file', async (c: Context) => {
+    if (!isAdminRequest(c, auth)) {
+      return c.json({ error: 'Authentication required' }, 401);
+    }
+    return serveChaptersFile(c, c.req.param('file'));
+  });
+
+  // Chapters referenced by a private feed carry the same token
+  app.get('/chapters/:token/:file', async (c: Context) => {
+    const feedToken = auth.resolveFeedToken(c.req.param('token'));
+    if (!feedToken) {
+      return c.json({ error: 'Feed token not found' }, 404);
+    }
+    return serveChaptersFile(c, c.req.param('file'), feedToken);
+  });
+
+  // RSS feed proxy - serves processed audio URLs
+  app.get('/rss/:showId', async (c: Context) => {
+    if (!isAdminRequest(c, auth)) {
+      return c.json({ error: 'Authentication required' }, 401);
+    }
+    return serveFeed(c, c.req.param('showId'));
+  });
+
+  // Private feed for one user's token: /rss/<token>/<showId>, composed with their preferences
+  app.get('/rss/:token/:showId', async (c: Context) => {
+    const feedToken = auth.resolveFeedToken(c.req.param('token'));
+    if (!feedToken) {
+      return c.json({ error: 'Feed token not found' }, 404);
+    }
+
+    const showIdWithExt = c.req.param('showId');
+    const showId = showIdWithExt.endsWith('.rss') ? showIdWithExt.slice(0, -4) : showIdWithExt;
+    const db = processor.getDatabase();
+    const user = db.getUser(feedToken.userId);
+    if (!user || !db.isSubscribed(user.id, showId)) {
+      return c.json({ error: 'Show not found' }, 404);
+    }
+
+    return serveFeed(c, showId, { token: feedToken.token, preferences: user.preferences });
   });
 
 
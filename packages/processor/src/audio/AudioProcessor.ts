@@ -4,9 +4,17 @@ import { promisify } from 'util';
 import { pipeline } from 'stream';
 import { join, dirname, resolve } from 'path';
 import { AdDetection, AudioMetadata } from '@podcastoor/shared';
+import { AudioChunk } from './types';
+import { buildKeptSegments, KeptSegment } from './timeline';
+import { buildId3Tag, getId3TagSize, Id3Artwork, Id3TagData } from './id3';
 
 const pipelineAsync = promisify(pipeline);
 
+// Cover art larger than this is left out of the ID3 tag rather than bloating every download
+const MAX_ARTWORK_BYTES = 5 * 1024 * 1024;
+// Artwork is best-effort; a slow image host mustn't hold up the job
+const ARTWORK_TIMEOUT_MS = 15000;
+
 export interface AudioProcessingOptions {
   tempDirectory: string;
   ffmpegPath?: string;
@@ -147,6 +155,72 @@ export class AudioProcessor {
     }
   }
 
+  /**
+   * Replaces the ID3v2 tag at the start of an MP3 with one carrying the given
+   * metadata and chapters. The audio frames are streamed across unchanged.
+   */
+  async writeId3Tag(filePath: string, data: Id3TagData): Promise<void> {
+    const tag = buildId3Tag(data);
+    const existingTagSize = await this.readId3TagSize(filePath);
+    const taggedPath = `${filePath}.tagged`;
+
+    try {
+      await fs.writeFile(taggedPath, tag);
+      await pipelineAsync(
+        createReadStream(filePath, { start: existingTagSize }),
+        createWriteStream(taggedPath, { flags: 'a' })
+      );
+      await fs.rename(taggedPath, filePath);
+    } catch (error) {
+      await fs.unlink(taggedPath).catch(() => {});
+      throw new Error(`Failed to write ID3 tag: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    console.log(`Wrote ID3 tag to ${filePath}: ${data.chapters?.length || 0} chapters${data.artwork ? ', artwork' : ''}`);
+  }
+
+  async fetchArtwork(url: string): Promise<Id3Artwork | undefined> {
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(ARTWORK_TIMEOUT_MS) });
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const mimeType = (response.headers.get('content-type') || 'image/jpeg').split(';')[0].trim();
+      if (!mimeType.startsWith('image/')) {
+        await response.body?.cancel();
+        throw new Error(`unexpected content type ${mimeType}`);
+      }
+
+      const declaredLength = Number(response.headers.get('content-length'));
+      if (declaredLength > MAX_ARTWORK_BYTES) {
+        await response.body?.cancel();
+        throw new Error(`image is ${(declaredLength / 1024 / 1024).toFixed(1)}MB`);
+      }
+
+      // Content-Length may be missing or wrong, so the limit is enforced while reading too
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      if (response.body) {
+        const reader = response.body.getReader();
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          size += chunk.value.length;
+          if (size > MAX_ARTWORK_BYTES) {
+            await reader.cancel();
+            throw new Error(`image is over ${MAX_ARTWORK_BYTES / 1024 / 1024}MB`);
+          }
+          chunks.push(chunk.value);
+        }
+      }
+
+      return { mimeType, data: Buffer.concat(chunks) };
+    } catch (error) {
+      console.warn(`Skipping artwork ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
   async extractMetadata(filePath: string): Promise<AudioMetadata> {
     const args = [
       '-i', filePath,
@@ -162,22 +236,48 @@ export class AudioProcessor {
     }
   }
 
-  async createChunks(inputPath: string, chunkDuration: number, overlap: number): Promise<string[]> {
+  async createChunks(inputPath: string, chunkDuration: number, overlap: number): Promise<AudioChunk[]> {
     const metadata = await this.extractMetadata(inputPath);
-    const chunks: string[] = [];
+    const chunks: AudioChunk[] = [];
+    const chunkSeconds = chunkDuration * 60;
+    const step = chunkSeconds - overlap;
+
+    if (step <= 0) {
+      throw new Error(`Chunk overlap (${overlap}s) must be shorter than the chunk duration (${chunkSeconds}s)`);
+    }
     
     let currentTime = 0;
     let chunkIndex = 0;
+    let chunkPath: string | undefined;
 
-    while (currentTime < metadata.duration) {
-      const chunkPath = join(this.tempDirectory, `chunk_${chunkIndex}_${Date.now()}.mp3`);
-      const actualDuration = Math.min(chunkDuration * 60, metadata.duration - currentTime);
-      
-      await this.extractSegment(inputPath, chunkPath, currentTime, actualDuration);
-      chunks.push(chunkPath);
-      
-      currentTime += (chunkDuration * 60) - overlap;
-      chunkIndex++;
+    try {
+      while (currentTime < metadata.duration) {
+        chunkPath = join(this.tempDirectory, `chunk_${chunkIndex}_${Date.now()}.mp3`);
+        const actualDuration = Math.min(chunkSeconds, metadata.duration - currentTime);
+        
+        await this.extractSegment(inputPath, chunkPath, currentTime, actualDuration);
+        chunks.push({
+          filePath: chunkPath,
+          startTime: currentTime,
+          endTime: currentTime + actualDuration,
+          duration: actualDuration,
+          chunkIndex,
+          hasOverlap: chunkIndex > 0 && overlap > 0
+        });
+
+        // Stop once a chunk reaches the end, otherwise the last chunk would only repeat the overlap
+        if (currentTime + actualDuration >= metadata.duration) {
+          break;
+        }
+        
+        currentTime += step;
+        chunkIndex++;
+      }
+    } catch (error) {
+      // The caller never sees the chunks, so remove them here, including the one that failed partway
+      const paths = [...chunks.map(chunk => chunk.filePath), ...(chunkPath ? [chunkPath] : [])];
+      await Promise.all([...new Set(paths)].map(path => this.cleanup(path)));
+      throw new Error(`Failed to create audio chunks: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     return chunks;
@@ -241,33 +341,19 @@ export class AudioProcessor {
     }
   }
 
-  private createSegmentList(ads: AdDetection[], metadata: AudioMetadata): Array<{start: number, duration: number}> {
-    const segments: Array<{start: number, duration: number}> = [];
-    let currentTime = 0;
-
-    for (const ad of ads) {
-      // Add segment before ad (if there's content)
-      if (ad.startTime > currentTime) {
-        segments.push({
-          start: currentTime,
-          duration: ad.startTime - currentTime
-        });
-      }
-      
-      // Skip the ad content
-      currentTime = ad.endTime;
-    }
-
-    // Add final segment after last ad
-    if (currentTime < metadata.duration) {
-      segments.push({
-        start: currentTime,
-        duration: metadata.duration - currentTime
-      });
+  private async readId3TagSize(filePath: string): Promise<number> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const header = Buffer.alloc(10);
+      const { bytesRead } = await handle.read(header, 0, header.length, 0);
+      return getId3TagSize(header.subarray(0, bytesRead));
+    } finally {
+      await handle.close();
     }
+  }
 
-    // Filter out segments that are too short (< 1 second)
-    return segments.filter(segment => segment.duration >= 1);
+  private createSegmentList(ads: AdDetection[], metadata: AudioMetadata): KeptSegment[] {
+    return buildKeptSegments(ads, metadata.duration);
   }
 
   private async runFFmpeg(args: string[], description: string): Promise<string> {
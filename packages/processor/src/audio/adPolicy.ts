@@ -0,0 +1,88 @@
+import { AdDetection, AdPolicy, Chapter, KeptAd, ProcessingOptions } from '@podcastoor/shared';
+
+export interface AdPolicyDecision {
+  removed: AdDetection[];
+  kept: KeptAd[];
+}
+
+// Topic chapter fragments left over after a sponsor chapter is cut out of them
+const MIN_CHAPTER_DURATION = 1;
+
+/**
+ * The policy a podcast is processed with. Podcasts without an explicit
+ * adPolicy fall back to removeAds: strip when it's on, mark when it's off.
+ */
+export function resolveAdPolicy(options?: Pick<ProcessingOptions, 'removeAds' | 'adPolicy'>): AdPolicy {
+  if (options?.adPolicy) {
+    return options.adPolicy;
+  }
+  return { mode: options?.removeAds === false ? 'mark' : 'strip' };
+}
+
+function allowlistReason(ad: AdDetection, policy: AdPolicy): KeptAd['keptBecause'] | null {
+  const sponsors = policy.allowlist?.sponsors ?? [];
+  const adTypes = policy.allowlist?.adTypes ?? [];
+
+  const text = [ad.sponsor, ad.description].filter(Boolean).join(' ').toLowerCase();
+  if (sponsors.some(sponsor => text.includes(sponsor.toLowerCase()))) {
+    return 'sponsor';
+  }
+  if (adTypes.includes(ad.adType) || (ad.hostRead === true && adTypes.includes('host-read'))) {
+    return 'ad-type';
+  }
+  return null;
+}
+
+/**
+ * Splits detected ads into the ones to cut from the audio and the ones to
+ * leave in (and mark with sponsor chapters).
+ */
+export function applyAdPolicy(ads: AdDetection[], policy: AdPolicy): AdPolicyDecision {
+  const decision: AdPolicyDecision = { removed: [], kept: [] };
+
+  for (const ad of ads) {
+    const reason = policy.mode === 'mark' ? 'mark' : allowlistReason(ad, policy);
+    if (reason) {
+      decision.kept.push({ ...ad, keptBecause: reason });
+    } else {
+      decision.removed.push(ad);
+    }
+  }
+
+  return decision;
+}
+
+/**
+ * Inserts a "Sponsor" chapter for every kept ad, splitting any topic chapter
+ * it falls inside so the topic resumes once the ad ends. All times are on the
+ * original timeline.
+ */
+export function addSponsorChapters(chapters: Chapter[], keptAds: AdDetection[]): Chapter[] {
+  if (keptAds.length === 0) {
+    return chapters;
+  }
+
+  const sponsorChapters: Chapter[] = keptAds.map(ad => ({
+    title: ad.sponsor ? `Sponsor: ${ad.sponsor}` : 'Sponsor',
+    startTime: ad.startTime,
+    endTime: ad.endTime
+  }));
+
+  const topicChapters = chapters.flatMap(chapter => {
+    let pieces = [chapter];
+    for (const sponsor of sponsorChapters) {
+      pieces = pieces.flatMap(piece => {
+        if (sponsor.endTime <= piece.startTime || sponsor.startTime >= piece.endTime) {
+          return [piece];
+        }
+        return [
+          { ...piece, endTime: sponsor.startTime },
+          { ...piece, startTime: sponsor.endTime }
+        ];
+      });
+    }
+    return pieces.filter(piece => piece.endTime - piece.startTime >= MIN_CHAPTER_DURATION);
+  });
+
+  return [...topicChapters, ...sponsorChapters].sort((a, b) => a.startTime - b.startTime);
+}
\ No newline at end of file
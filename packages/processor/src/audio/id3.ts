@@ -0,0 +1,139 @@
+import { Chapter } from '@podcastoor/shared';
+
+export interface Id3Artwork {
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface Id3TagData {
+  title?: string;
+  artist?: string;
+  album?: string;
+  artwork?: Id3Artwork;
+  chapters?: Chapter[];
+}
+
+const ID3_HEADER_SIZE = 10;
+const TOC_ELEMENT_ID = 'toc';
+// CTOC stores its entry count in a single byte
+const MAX_CHAPTERS = 255;
+
+/**
+ * Builds an ID3v2.3 tag with text frames, cover art and CHAP/CTOC chapter
+ * frames (https://id3.org/id3v2-chapters-1.0). v2.3 is used rather than v2.4
+ * because it is the version podcast apps read most reliably.
+ */
+export function buildId3Tag(data: Id3TagData): Buffer {
+  const frames: Buffer[] = [];
+
+  if (data.title) frames.push(textFrame('TIT2', data.title));
+  if (data.artist) frames.push(textFrame('TPE1', data.artist));
+  if (data.album) frames.push(textFrame('TALB', data.album));
+  frames.push(textFrame('TCON', 'Podcast'));
+
+  if (data.artwork) {
+    frames.push(pictureFrame(data.artwork));
+  }
+
+  const chapters = (data.chapters || [])
+    .filter(chapter => chapter.endTime > chapter.startTime)
+    .sort((a, b) => a.startTime - b.startTime)
+    .slice(0, MAX_CHAPTERS);
+
+  if (chapters.length > 0) {
+    const elementIds = chapters.map((_, index) => `chp${index}`);
+    frames.push(tableOfContentsFrame(elementIds));
+    chapters.forEach((chapter, index) => frames.push(chapterFrame(elementIds[index], chapter)));
+  }
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.alloc(ID3_HEADER_SIZE);
+  header.write('ID3', 0, 'latin1');
+  header[3] = 3; // major version
+  header[4] = 0; // revision
+  header[5] = 0; // flags
+  writeSyncsafe(header, body.length, 6);
+
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Size in bytes of the ID3v2 tag at the start of a file, or 0 if there is none.
+ */
+export function getId3TagSize(header: Buffer): number {
+  if (header.length < ID3_HEADER_SIZE || header.toString('latin1', 0, 3) !== 'ID3') {
+    return 0;
+  }
+
+  const hasFooter = (header[5] & 0x10) !== 0;
+  return ID3_HEADER_SIZE + readSyncsafe(header, 6) + (hasFooter ? ID3_HEADER_SIZE : 0);
+}
+
+function frame(id: string, content: Buffer): Buffer {
+  const header = Buffer.alloc(ID3_HEADER_SIZE);
+  header.write(id, 0, 'latin1');
+  header.writeUInt32BE(content.length, 4); // v2.3 frame sizes are not syncsafe
+  return Buffer.concat([header, content]);
+}
+
+// Text is written as UTF-16 with a BOM so titles keep non-Latin characters
+function encodeText(text: string): Buffer {
+  return Buffer.concat([
+    Buffer.from([0xff, 0xfe]),
+    Buffer.from(text, 'utf16le'),
+    Buffer.from([0x00, 0x00])
+  ]);
+}
+
+function textFrame(id: string, text: string): Buffer {
+  return frame(id, Buffer.concat([Buffer.from([0x01]), encodeText(text)]));
+}
+
+function latin1String(text: string): Buffer {
+  return Buffer.concat([Buffer.from(text, 'latin1'), Buffer.from([0x00])]);
+}
+
+function pictureFrame(artwork: Id3Artwork): Buffer {
+  return frame('APIC', Buffer.concat([
+    Buffer.from([0x00]), // latin1 text encoding
+    latin1String(artwork.mimeType),
+    Buffer.from([0x03]), // front cover
+    Buffer.from([0x00]), // empty description
+    artwork.data
+  ]));
+}
+
+function chapterFrame(elementId: string, chapter: Chapter): Buffer {
+  const times = Buffer.alloc(16);
+  times.writeUInt32BE(Math.round(chapter.startTime * 1000), 0);
+  times.writeUInt32BE(Math.round(chapter.endTime * 1000), 4);
+  // Byte offsets are unknown, which the spec signals with 0xFFFFFFFF
+  times.writeUInt32BE(0xffffffff, 8);
+  times.writeUInt32BE(0xffffffff, 12);
+
+  return frame('CHAP', Buffer.concat([
+    latin1String(elementId),
+    times,
+    textFrame('TIT2', chapter.title)
+  ]));
+}
+
+function tableOfContentsFrame(childElementIds: string[]): Buffer {
+  return frame('CTOC', Buffer.concat([
+    latin1String(TOC_ELEMENT_ID),
+    Buffer.from([0x03]), // top-level, ordered
+    Buffer.from([childElementIds.length]),
+    ...childElementIds.map(latin1String)
+  ]));
+}
+
+function writeSyncsafe(buffer: Buffer, value: number, offset: number): void {
+  buffer[offset] = (value >> 21) & 0x7f;
+  buffer[offset + 1] = (value >> 14) & 0x7f;
+  buffer[offset + 2] = (value >> 7) & 0x7f;
+  buffer[offset + 3] = value & 0x7f;
+}
+
+function readSyncsafe(buffer: Buffer, offset: number): number {
+  return (buffer[offset] << 21) | (buffer[offset + 1] << 14) | (buffer[offset + 2] << 7) | buffer[offset + 3];
+}
\ No newline at end of file
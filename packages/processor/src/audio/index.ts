@@ -1,3 +1,5 @@
 export { AudioProcessor } from './AudioProcessor';
 export { FFmpegWrapper } from './FFmpegWrapper';
-export * from './types';
\ No newline at end of file
+export * from './types';
+export * from './timeline';
+export * from './id3';export * from './adPolicy';
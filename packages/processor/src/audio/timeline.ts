@@ -0,0 +1,101 @@
+import { AdDetection, Chapter } from '@podcastoor/shared';
+
+export interface KeptSegment {
+  start: number;
+  duration: number;
+}
+
+// Kept segments shorter than this are dropped when the processed file is built
+const MIN_SEGMENT_DURATION = 1;
+
+/**
+ * The parts of the original audio that survive ad removal, in order.
+ */
+export function buildKeptSegments(ads: AdDetection[], totalDuration: number): KeptSegment[] {
+  const sortedAds = [...ads].sort((a, b) => a.startTime - b.startTime);
+  const segments: KeptSegment[] = [];
+  let currentTime = 0;
+
+  for (const ad of sortedAds) {
+    // Add segment before ad (if there's content)
+    if (ad.startTime > currentTime) {
+      segments.push({
+        start: currentTime,
+        duration: ad.startTime - currentTime
+      });
+    }
+
+    // Skip the ad content
+    currentTime = Math.max(currentTime, ad.endTime);
+  }
+
+  // Add final segment after last ad
+  if (currentTime < totalDuration) {
+    segments.push({
+      start: currentTime,
+      duration: totalDuration - currentTime
+    });
+  }
+
+  return segments.filter(segment => segment.duration >= MIN_SEGMENT_DURATION);
+}
+
+/**
+ * Maps a timestamp in the original audio to the processed (ad-free) audio.
+ * Returns null when the timestamp falls inside removed audio.
+ */
+export function toProcessedTime(time: number, segments: KeptSegment[]): number | null {
+  let offset = 0;
+
+  for (const segment of segments) {
+    if (time < segment.start) {
+      return null;
+    }
+    if (time <= segment.start + segment.duration) {
+      return offset + (time - segment.start);
+    }
+    offset += segment.duration;
+  }
+
+  return null;
+}
+
+/**
+ * Like toProcessedTime, but snaps timestamps inside removed audio forward to
+ * where the next kept segment begins in the processed audio.
+ */
+export function toProcessedTimeClamped(time: number, segments: KeptSegment[]): number {
+  let offset = 0;
+
+  for (const segment of segments) {
+    if (time < segment.start) {
+      return offset;
+    }
+    if (time <= segment.start + segment.duration) {
+      return offset + (time - segment.start);
+    }
+    offset += segment.duration;
+  }
+
+  return offset;
+}
+
+/**
+ * Shifts chapter boundaries from the original audio onto the processed audio.
+ * Chapters that only covered removed audio are dropped.
+ */
+export function alignChaptersToProcessedAudio(
+  chapters: Chapter[],
+  removedAds: AdDetection[],
+  originalDuration: number
+): Chapter[] {
+  const keptSegments = buildKeptSegments(removedAds, originalDuration);
+
+  return chapters
+    .map(chapter => ({
+      ...chapter,
+      startTime: toProcessedTimeClamped(chapter.startTime, keptSegments),
+      endTime: toProcessedTimeClamped(chapter.endTime, keptSegments)
+    }))
+    .filter(chapter => chapter.endTime > chapter.startTime);
+}
@@ -1,12 +1,29 @@
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, writeFileSync, renameSync, rmSync } from 'fs';
 import { join } from 'path';
-import { parse } from 'yaml';
+import { Document, parse, parseDocument, isMap, isSeq } from 'yaml';
 import { watch } from 'chokidar';
 import { 
+  LLMProviderConfig,
+  LLMProviderConfigSchema,
   PodcastConfig, 
   PodcastConfigSchema, 
+  PodcastoorError,
+  StorageConfig,
+  StorageConfigSchema,
+  WebhookConfig,
+  WebhookConfigSchema,
   validateConfig 
 } from '@podcastoor/shared';
+import { StorageProviderConfig } from '../storage/types';
+import { RetryPolicy } from '../jobs/types';
+
+// Podcast ids end up in URLs and storage keys
+export const PODCAST_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// Errors meaning config.yaml can't be replaced where it is mounted
+const READ_ONLY_ERROR_CODES = ['EROFS', 'EACCES', 'EPERM', 'EBUSY'];
+
+export const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
 
 export interface AppConfig {
   podcasts: PodcastConfig[];
@@ -18,15 +35,46 @@ export interface AppConfig {
     maxDuration: number;
     timeoutMinutes: number;
     minAdDuration: number;
+    chunkConcurrency?: number; // Chunks of one long episode analyzed in parallel
+    leaseTimeoutSeconds?: number; // A processing job with no heartbeat for this long is requeued
+    retry?: {
+      maxAttempts?: number;
+      backoff?: 'fixed' | 'exponential';
+      initialDelaySeconds?: number;
+      maxDelaySeconds?: number;
+    };
   };
   llm: {
     geminiApiKey: string;
     models: {
       geminiAudio: string;
     };
+    adDetectionProvider?: string;
+    providers?: Record<string, LLMProviderConfig>;
+    fallbackModels?: string[];
   };
-  storage: {
-    publicUrl?: string;
+  // Local files under dataDir unless an S3-compatible provider is configured
+  storage:
+    | { provider?: 'local'; publicUrl?: string }
+    | (StorageConfig & { publicUrl?: string });
+  // LLM spending caps in USD, tracked per UTC day and calendar month
+  budget?: {
+    dailyLimit?: number;
+    monthlyLimit?: number;
+    onLimit?: 'hold' | 'skip'; // Hold jobs until the budget resets, or fail them outright
+    estimatedCostPerMinute?: number; // Overrides the estimate learned from past jobs
+    podcasts?: Record<string, { dailyLimit?: number; monthlyLimit?: number }>;
+  };
+  webhooks?: WebhookConfig[];
+  // Without a password or API key the API and feeds stay open to anyone who can reach the port
+  auth?: {
+    adminPassword?: string; // Signs in the web UI
+    apiKeys?: string[]; // Sent as "Authorization: Bearer <key>" by scripts
+    sessionHours?: number;
+  };
+  feeds?: {
+    cacheSeconds?: number; // How long an upstream feed is reused before revalidating
+    fetchTimeoutSeconds?: number;
   };
 }
 
@@ -57,6 +105,9 @@ export class ConfigManager {
       const content = readFileSync(this.configFilePath, 'utf8');
       const rawConfig = parse(content);
 
+      // Expand environment variables first so values like `url: ${WEBHOOK_URL}` validate as what they resolve to
+      this.expandEnvironmentVariables(rawConfig);
+
       // Validate podcast configs
       if (Array.isArray(rawConfig.podcasts)) {
         rawConfig.podcasts.forEach((podcast: unknown, index: number) => {
@@ -68,8 +119,36 @@ export class ConfigManager {
         });
       }
 
-      // Expand environment variables
-      this.expandEnvironmentVariables(rawConfig);
+      // Validate LLM provider configs
+      if (rawConfig.llm?.providers) {
+        Object.entries(rawConfig.llm.providers).forEach(([name, provider]) => {
+          try {
+            validateConfig(LLMProviderConfigSchema, provider);
+          } catch (error) {
+            throw new Error(`Invalid LLM provider configuration '${name}': ${error instanceof Error ? error.message : String(error)}`);
+          }
+        });
+      }
+
+      // Validate object storage config
+      if (rawConfig.storage?.provider && rawConfig.storage.provider !== 'local') {
+        try {
+          validateConfig(StorageConfigSchema, rawConfig.storage);
+        } catch (error) {
+          throw new Error(`Invalid storage configuration: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      // Validate webhook configs
+      if (Array.isArray(rawConfig.webhooks)) {
+        rawConfig.webhooks.forEach((webhook: unknown, index: number) => {
+          try {
+            validateConfig(WebhookConfigSchema, webhook);
+          } catch (error) {
+            throw new Error(`Invalid webhook configuration at index ${index}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        });
+      }
 
       return rawConfig as AppConfig;
     } catch (error) {
@@ -110,21 +189,163 @@ export class ConfigManager {
     return this.config.podcasts.find(p => p.id === id);
   }
 
-  async updatePodcast(id: string, updates: Partial<PodcastConfig>): Promise<void> {
+  // Fills in whatever a podcast added through the API leaves out
+  getPodcastDefaults(): Omit<PodcastConfig, 'id' | 'name' | 'rssUrl'> {
+    return {
+      enabled: true,
+      retentionDays: this.config.processing.defaultRetentionDays,
+      processingOptions: {
+        removeAds: true,
+        generateChapters: true,
+        transcriptionModel: this.config.llm.models.geminiAudio,
+        chunkSizeMinutes: 30,
+        overlapSeconds: 30
+      }
+    };
+  }
+
+  // Podcast changes are written back to the config file so they survive restarts
+
+  async addPodcast(podcast: PodcastConfig): Promise<PodcastConfig> {
+    const [added] = await this.addPodcasts([podcast]);
+    return added;
+  }
+
+  // Adds several podcasts with one config write, e.g. for an OPML import
+  async addPodcasts(podcasts: PodcastConfig[]): Promise<PodcastConfig[]> {
+    const ids = new Set(this.config.podcasts.map(p => p.id));
+    const feeds = new Set(this.config.podcasts.map(p => p.rssUrl));
+
+    for (const podcast of podcasts) {
+      validateConfig(PodcastConfigSchema, podcast);
+
+      if (ids.has(podcast.id)) {
+        throw new PodcastoorError(`Podcast with id '${podcast.id}' already exists`, 'PODCAST_EXISTS');
+      }
+      if (feeds.has(podcast.rssUrl)) {
+        this.assertFeedUnused(podcast.rssUrl);
+        throw new PodcastoorError(`Feed ${podcast.rssUrl} is listed more than once`, 'PODCAST_EXISTS');
+      }
+      ids.add(podcast.id);
+      feeds.add(podcast.rssUrl);
+    }
+
+    if (podcasts.length === 0) return [];
+
+    this.writeConfigFile(doc => {
+      if (!isSeq(doc.get('podcasts'))) {
+        doc.set('podcasts', doc.createNode([]));
+      }
+      for (const podcast of podcasts) {
+        doc.addIn(['podcasts'], doc.createNode(podcast));
+      }
+    });
+
+    this.config.podcasts.push(...podcasts);
+    this.notifyConfigChange();
+    return podcasts;
+  }
+
+  async updatePodcast(id: string, updates: Partial<PodcastConfig>): Promise<PodcastConfig> {
     const podcastIndex = this.config.podcasts.findIndex(p => p.id === id);
     if (podcastIndex === -1) {
-      throw new Error(`Podcast with id '${id}' not found`);
+      throw new PodcastoorError(`Podcast with id '${id}' not found`, 'PODCAST_NOT_FOUND');
     }
 
-    this.config.podcasts[podcastIndex] = {
-      ...this.config.podcasts[podcastIndex],
-      ...updates
+    const current = this.config.podcasts[podcastIndex];
+    const updated: PodcastConfig = {
+      ...current,
+      ...updates,
+      id,
+      processingOptions: { ...current.processingOptions, ...updates.processingOptions }
     };
 
     // Validate updated config
-    validateConfig(PodcastConfigSchema, this.config.podcasts[podcastIndex]);
-    
+    validateConfig(PodcastConfigSchema, updated);
+    if (updated.rssUrl !== current.rssUrl) {
+      this.assertFeedUnused(updated.rssUrl);
+    }
+
+    // Only the changed keys are set, so comments and formatting around them are kept
+    this.writeConfigFile(doc => {
+      const nodeIndex = this.findPodcastNode(doc, id);
+      for (const [key, value] of Object.entries(updates)) {
+        if (key === 'id' || value === undefined) continue;
+
+        if (key === 'processingOptions') {
+          for (const [option, optionValue] of Object.entries(value as object)) {
+            if (optionValue !== undefined) {
+              doc.setIn(['podcasts', nodeIndex, 'processingOptions', option], optionValue);
+            }
+          }
+        } else {
+          doc.setIn(['podcasts', nodeIndex, key], value);
+        }
+      }
+    });
+
+    this.config.podcasts[podcastIndex] = updated;
     this.notifyConfigChange();
+    return updated;
+  }
+
+  async removePodcast(id: string): Promise<void> {
+    const podcastIndex = this.config.podcasts.findIndex(p => p.id === id);
+    if (podcastIndex === -1) {
+      throw new PodcastoorError(`Podcast with id '${id}' not found`, 'PODCAST_NOT_FOUND');
+    }
+
+    this.writeConfigFile(doc => {
+      doc.deleteIn(['podcasts', this.findPodcastNode(doc, id)]);
+    });
+
+    this.config.podcasts.splice(podcastIndex, 1);
+    this.notifyConfigChange();
+  }
+
+  private assertFeedUnused(rssUrl: string): void {
+    const existing = this.config.podcasts.find(p => p.rssUrl === rssUrl);
+    if (existing) {
+      throw new PodcastoorError(`Feed ${rssUrl} is already configured as '${existing.id}'`, 'PODCAST_EXISTS');
+    }
+  }
+
+  private findPodcastNode(doc: Document, id: string): number {
+    const podcasts = doc.get('podcasts');
+    const index = isSeq(podcasts)
+      ? podcasts.items.findIndex(item => isMap(item) && item.get('id') === id)
+      : -1;
+
+    if (index === -1) {
+      throw new Error(`Podcast '${id}' not found in ${this.configFilePath}`);
+    }
+    return index;
+  }
+
+  /**
+   * Edits the YAML document in place, preserving comments and formatting, and
+   * swaps the file in with a rename so the watcher never sees a partial write.
+   */
+  private writeConfigFile(edit: (doc: Document) => void): void {
+    const doc = parseDocument(readFileSync(this.configFilePath, 'utf8'));
+    edit(doc);
+
+    const tempPath = `${this.configFilePath}.${process.pid}.tmp`;
+    try {
+      writeFileSync(tempPath, doc.toString(), 'utf8');
+      renameSync(tempPath, this.configFilePath);
+    } catch (error) {
+      rmSync(tempPath, { force: true });
+      // A read-only mount, or config.yaml bind-mounted on its own so it can't be replaced
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code && READ_ONLY_ERROR_CODES.includes(code)) {
+        throw new PodcastoorError(
+          `Configuration file ${this.configFilePath} can't be changed (${code}); mount its directory writable to manage podcasts through the API`,
+          'CONFIG_READ_ONLY'
+        );
+      }
+      throw error;
+    }
   }
 
   getProcessingConfig() {
@@ -139,9 +360,72 @@ export class ConfigManager {
   }
 
   getStorageConfig() {
+    const { storage } = this.config;
+    const baseDirectory = join(this.config.dataDir, 'storage');
+    let provider: StorageProviderConfig = { type: 'local', baseDirectory };
+    
+    if (storage?.provider && storage.provider !== 'local') {
+      const objectStorage = storage as StorageConfig;
+      provider = {
+        type: 's3',
+        endpoint: objectStorage.endpoint,
+        bucket: objectStorage.bucket,
+        region: objectStorage.region || (objectStorage.provider === 'r2' ? 'auto' : undefined),
+        accessKeyId: objectStorage.accessKeyId,
+        secretAccessKey: objectStorage.secretAccessKey,
+        forcePathStyle: objectStorage.forcePathStyle
+      };
+    }
+    
     return {
-      ...this.config.storage,
-      baseDirectory: join(this.config.dataDir, 'storage')
+      publicUrl: storage?.publicUrl,
+      baseDirectory,
+      provider
+    };
+  }
+
+  getFeedConfig() {
+    return {
+      cacheSeconds: this.config.feeds?.cacheSeconds ?? 300,
+      timeoutMs: (this.config.feeds?.fetchTimeoutSeconds ?? 30) * 1000
+    };
+  }
+
+  getBudgetConfig() {
+    const budget = this.config.budget;
+    return {
+      dailyLimit: budget?.dailyLimit,
+      monthlyLimit: budget?.monthlyLimit,
+      onLimit: budget?.onLimit ?? 'hold',
+      estimatedCostPerMinute: budget?.estimatedCostPerMinute,
+      podcasts: budget?.podcasts ?? {}
+    };
+  }
+
+  getAuthConfig() {
+    const auth = this.config.auth;
+    const apiKeys = (auth?.apiKeys ?? []).filter(key => key.length > 0);
+    return {
+      enabled: Boolean(auth?.adminPassword) || apiKeys.length > 0,
+      adminPassword: auth?.adminPassword || undefined,
+      apiKeys,
+      sessionHours: auth?.sessionHours ?? 24 * 7
+    };
+  }
+
+  getWebhooks(): WebhookConfig[] {
+    return (this.config.webhooks ?? []).filter(webhook => webhook.enabled !== false);
+  }
+
+  getRetryPolicy(): RetryPolicy {
+    const retry = this.config.processing.retry;
+    return {
+      attempts: retry?.maxAttempts ?? 5,
+      backoff: {
+        type: retry?.backoff ?? 'exponential',
+        delay: (retry?.initialDelaySeconds ?? 60) * 1000,
+        maxDelay: (retry?.maxDelaySeconds ?? 6 * 60 * 60) * 1000
+      }
     };
   }
 
@@ -1,7 +1,8 @@
 import BetterSqlite3 from 'better-sqlite3';
 import { join, dirname } from 'path';
 import { mkdirSync, readFileSync } from 'fs';
-import type { AdDetection, Chapter } from '@podcastoor/shared';
+import type { ChapterFormat, TitleSuffixStyle } from '../rss/FeedTransformer';
+import type { AdDetection, Chapter, CostBreakdown, CostReport, LLMCost, ProcessingResult, ProcessingStep, TranscriptSegment } from '@podcastoor/shared';
 
 export interface DatabaseConfig {
   path: string;
@@ -15,6 +16,7 @@ export interface Episode {
   audioUrl: string;
   publishDate: Date;
   duration: number;
+  imageUrl?: string;
 }
 
 export interface Show {
@@ -22,6 +24,7 @@ export interface Show {
   title: string;
   description?: string;
   feedUrl: string;
+  imageUrl?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,6 +38,14 @@ export interface Job {
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
+  analysisModel?: string;
+  attempts: number;
+  nextRunAt?: Date;
+  leaseOwner?: string;
+  heartbeatAt?: Date;
+  progress: number;
+  currentStep?: string;
+  holdReason?: string;
 }
 
 export interface ProcessedEpisode {
@@ -43,9 +54,67 @@ export interface ProcessedEpisode {
   originalDuration: number;
   processedDuration: number;
   processingCost?: number;
+  fileSize?: number;
+  contentType?: string;
   createdAt: Date;
 }
 
+export interface CachedFeed {
+  showId: string;
+  feedUrl: string;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: Date;
+  checkedAt: Date;
+}
+
+export interface FeedFailure {
+  showId: string;
+  feedUrl: string;
+  failures: number;
+  lastError: string;
+  failedAt: Date;
+  retryAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhookUrl: string;
+  event: string;
+  payload: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  nextAttemptAt?: Date;
+  responseStatus?: number;
+  error?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+export interface FeedPreferences {
+  adMode: 'strip' | 'keep'; // keep: the feed links the original audio, ads included
+  titleSuffix: TitleSuffixStyle;
+  chapterFormat: ChapterFormat;
+}
+
+export interface User {
+  id: number;
+  name: string;
+  preferences: FeedPreferences;
+  createdAt: Date;
+}
+
+export interface FeedToken {
+  id: number;
+  userId: number;
+  token: string;
+  label?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
 export class Database {
   private db: BetterSqlite3.Database;
 
@@ -73,23 +142,58 @@ export class Database {
       throw error;
     }
 
+    this.migrateSchema();
+
     // Re-enable foreign keys
     this.db.exec('PRAGMA foreign_keys = ON');
   }
 
+  // Adds columns introduced after a table was first created. CREATE TABLE IF NOT
+  // EXISTS leaves existing tables untouched, so new columns must be listed here too.
+  private migrateSchema(): void {
+    const columns: Array<{ table: string; column: string; definition: string }> = [
+      { table: 'jobs', column: 'analysis_model', definition: 'TEXT' },
+      { table: 'jobs', column: 'attempts', definition: 'INTEGER NOT NULL DEFAULT 0' },
+      { table: 'jobs', column: 'next_run_at', definition: 'DATETIME' },
+      { table: 'jobs', column: 'lease_owner', definition: 'TEXT' },
+      { table: 'jobs', column: 'heartbeat_at', definition: 'DATETIME' },
+      { table: 'jobs', column: 'progress', definition: 'INTEGER NOT NULL DEFAULT 0' },
+      { table: 'jobs', column: 'current_step', definition: 'TEXT' },
+      { table: 'jobs', column: 'hold_reason', definition: 'TEXT' },
+      { table: 'shows', column: 'image_url', definition: 'TEXT' },
+      { table: 'episodes', column: 'image_url', definition: 'TEXT' },
+      { table: 'processed_episodes', column: 'file_size', definition: 'INTEGER' },
+      { table: 'processed_episodes', column: 'content_type', definition: 'TEXT' },
+      { table: 'chapters', column: 'img', definition: 'TEXT' },
+      { table: 'chapters', column: 'url', definition: 'TEXT' },
+      { table: 'users', column: 'ad_mode', definition: "TEXT NOT NULL DEFAULT 'strip'" },
+      { table: 'users', column: 'title_suffix', definition: "TEXT NOT NULL DEFAULT 'full'" },
+      { table: 'users', column: 'chapter_format', definition: "TEXT NOT NULL DEFAULT 'all'" }
+    ];
+
+    for (const { table, column, definition } of columns) {
+      const existing = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (!existing.some(col => col.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        console.log(`Migrated database: added ${table}.${column}`);
+      }
+    }
+  }
+
   // ========== SHOWS ==========
 
-  upsertShow(id: string, title: string, description: string | undefined, feedUrl: string): void {
+  upsertShow(id: string, title: string, description: string | undefined, feedUrl: string, imageUrl?: string): void {
     const stmt = this.db.prepare(`
-      INSERT INTO shows (id, title, description, feed_url)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO shows (id, title, description, feed_url, image_url)
+      VALUES (?, ?, ?, ?, ?)
       ON CONFLICT(id) DO UPDATE SET
         title = excluded.title,
         description = excluded.description,
         feed_url = excluded.feed_url,
+        image_url = COALESCE(excluded.image_url, shows.image_url),
         updated_at = datetime('now')
     `);
-    stmt.run(id, title, description || null, feedUrl);
+    stmt.run(id, title, description || null, feedUrl, imageUrl || null);
   }
 
   getShow(id: string): Show | null {
@@ -102,6 +206,7 @@ export class Database {
       title: row.title,
       description: row.description,
       feedUrl: row.feed_url,
+      imageUrl: row.image_url || undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     };
@@ -116,6 +221,7 @@ export class Database {
       title: row.title,
       description: row.description,
       feedUrl: row.feed_url,
+      imageUrl: row.image_url || undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     }));
@@ -125,12 +231,13 @@ export class Database {
 
   upsertEpisode(episode: Episode): void {
     const stmt = this.db.prepare(`
-      INSERT INTO episodes (guid, show_id, title, description, audio_url, publish_date, duration)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO episodes (guid, show_id, title, description, audio_url, publish_date, duration, image_url)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(guid) DO UPDATE SET
         title = excluded.title,
         description = excluded.description,
-        audio_url = excluded.audio_url
+        audio_url = excluded.audio_url,
+        image_url = COALESCE(excluded.image_url, episodes.image_url)
     `);
     stmt.run(
       episode.guid,
@@ -139,7 +246,8 @@ export class Database {
       episode.description,
       episode.audioUrl,
       episode.publishDate.toISOString(),
-      episode.duration
+      episode.duration,
+      episode.imageUrl || null
     );
   }
 
@@ -155,7 +263,8 @@ export class Database {
       description: row.description,
       audioUrl: row.audio_url,
       publishDate: new Date(row.publish_date),
-      duration: row.duration
+      duration: row.duration,
+      imageUrl: row.image_url || undefined
     };
   }
 
@@ -174,7 +283,8 @@ export class Database {
       description: row.description,
       audioUrl: row.audio_url,
       publishDate: new Date(row.publish_date),
-      duration: row.duration
+      duration: row.duration,
+      imageUrl: row.image_url || undefined
     }));
   }
 
@@ -193,7 +303,8 @@ export class Database {
       description: row.description,
       audioUrl: row.audio_url,
       publishDate: new Date(row.publish_date),
-      duration: row.duration
+      duration: row.duration,
+      imageUrl: row.image_url || undefined
     }));
   }
 
@@ -208,19 +319,92 @@ export class Database {
     return result.lastInsertRowid as number;
   }
 
-  getNextJob(): Job | null {
+  // Jobs belonging to excludeShowIds are passed over, e.g. shows that are over budget
+  getNextJob(excludeShowIds: string[] = []): Job | null {
     const stmt = this.db.prepare(`
       SELECT * FROM jobs 
-      WHERE status = 'pending'
+      WHERE status = 'pending' AND (next_run_at IS NULL OR next_run_at <= ?)
+        AND NOT EXISTS (
+          SELECT 1 FROM episodes e
+          WHERE e.guid = jobs.episode_guid AND e.show_id IN (SELECT value FROM json_each(?))
+        )
       ORDER BY priority DESC, created_at ASC
       LIMIT 1
     `);
-    const row = stmt.get() as any;
+    const row = stmt.get(new Date().toISOString(), JSON.stringify(excludeShowIds)) as any;
     if (!row) return null;
     
     return this.mapJob(row);
   }
 
+  /**
+   * Atomically picks the next runnable job and leases it to owner, so two
+   * workers (or two polling ticks) can never start the same job.
+   */
+  claimNextJob(owner: string, excludeShowIds: string[] = []): Job | null {
+    return this.db.transaction(() => {
+      const job = this.getNextJob(excludeShowIds);
+      if (!job) return null;
+
+      const now = new Date().toISOString();
+      this.db.prepare(`
+        UPDATE jobs
+        SET status = 'processing', started_at = ?, attempts = attempts + 1, next_run_at = NULL,
+            lease_owner = ?, heartbeat_at = ?, progress = 0, current_step = NULL, hold_reason = NULL
+        WHERE id = ? AND status = 'pending'
+      `).run(now, owner, now, job.id);
+
+      return this.getJob(job.id);
+    }).immediate();
+  }
+
+  // Returns false if the job is no longer leased to owner (e.g. the sweeper requeued it)
+  heartbeatJob(id: number, owner: string): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE jobs SET heartbeat_at = ?
+      WHERE id = ? AND status = 'processing' AND lease_owner = ?
+    `);
+    return stmt.run(new Date().toISOString(), id, owner).changes > 0;
+  }
+
+  /**
+   * Requeues processing jobs whose owner stopped heartbeating before
+   * staleBefore, or that predate leasing. The lost run counts as an attempt,
+   * so a job that keeps killing its worker fails once it reaches maxAttempts.
+   */
+  requeueExpiredJobs(staleBefore: Date, maxAttempts: number): Job[] {
+    return this.db.transaction(() => {
+      const rows = this.db.prepare(`
+        SELECT * FROM jobs
+        WHERE status = 'processing' AND (lease_owner IS NULL OR heartbeat_at IS NULL OR heartbeat_at < ?)
+      `).all(staleBefore.toISOString()) as any[];
+
+      const now = new Date().toISOString();
+      const requeue = this.db.prepare(`
+        UPDATE jobs
+        SET status = 'pending', started_at = NULL, lease_owner = NULL, heartbeat_at = NULL, error = ?
+        WHERE id = ?
+      `);
+      const fail = this.db.prepare(`
+        UPDATE jobs
+        SET status = 'failed', completed_at = ?, lease_owner = NULL, heartbeat_at = NULL, error = ?
+        WHERE id = ?
+      `);
+
+      for (const row of rows) {
+        const error = `Lease expired${row.lease_owner ? ` (owner ${row.lease_owner})` : ''}`;
+        this.finishJobSteps(row.id);
+        if (row.attempts >= maxAttempts) {
+          fail.run(now, error, row.id);
+        } else {
+          requeue.run(error, row.id);
+        }
+      }
+
+      return rows.map(row => this.getJob(row.id)!);
+    })();
+  }
+
   getJob(id: number): Job | null {
     const stmt = this.db.prepare('SELECT * FROM jobs WHERE id = ?');
     const row = stmt.get(id) as any;
@@ -240,24 +424,132 @@ export class Database {
     return rows.map(row => this.mapJob(row));
   }
 
-  updateJobStatus(id: number, status: Job['status'], error?: string): void {
+  /**
+   * With owner, the update only applies while that worker still holds the job's
+   * lease. Returns false if nothing was updated.
+   */
+  updateJobStatus(id: number, status: Job['status'], error?: string, owner?: string): boolean {
     const now = new Date().toISOString();
+    const lease = owner ? ' AND lease_owner = ?' : '';
+    const leaseParams = owner ? [owner] : [];
     
     if (status === 'processing') {
       const stmt = this.db.prepare(`
         UPDATE jobs 
-        SET status = ?, started_at = ?
+        SET status = ?, started_at = ?, attempts = attempts + 1, next_run_at = NULL
         WHERE id = ?
       `);
-      stmt.run(status, now, id);
+      return stmt.run(status, now, id).changes > 0;
+    } else if (status === 'pending') {
+      // An interrupted run doesn't count against the job's attempts
+      const stmt = this.db.prepare(`
+        UPDATE jobs 
+        SET status = ?, started_at = NULL, attempts = MAX(attempts - 1, 0), lease_owner = NULL, heartbeat_at = NULL
+        WHERE id = ? AND status = 'processing'${lease}
+      `);
+      return stmt.run(status, id, ...leaseParams).changes > 0;
     } else if (status === 'completed' || status === 'failed') {
       const stmt = this.db.prepare(`
         UPDATE jobs 
-        SET status = ?, completed_at = ?, error = ?
-        WHERE id = ?
+        SET status = ?, completed_at = ?, error = ?, lease_owner = NULL, heartbeat_at = NULL,
+            progress = CASE WHEN ? = 'completed' THEN 100 ELSE progress END
+        WHERE id = ?${lease}
       `);
-      stmt.run(status, now, error || null, id);
+      return stmt.run(status, now, error || null, status, id, ...leaseParams).changes > 0;
     }
+    return false;
+  }
+
+  /**
+   * Saves a job's result and marks it completed in one transaction, only while
+   * owner still holds its lease. Returns false, writing nothing, otherwise.
+   */
+  completeJob(id: number, owner: string, result: ProcessingResult): boolean {
+    return this.db.transaction(() => {
+      if (!this.updateJobStatus(id, 'completed', undefined, owner)) {
+        return false;
+      }
+      this.saveProcessingResult(id, result);
+      return true;
+    })();
+  }
+
+  // Puts a failed job back in the queue, not to be picked up before nextRunAt. Returns false if owner lost the lease
+  scheduleJobRetry(id: number, owner: string, error: string, nextRunAt: Date): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE jobs 
+      SET status = 'pending', error = ?, next_run_at = ?, started_at = NULL, lease_owner = NULL, heartbeat_at = NULL
+      WHERE id = ? AND status = 'processing' AND lease_owner = ?
+    `);
+    return stmt.run(error, nextRunAt.toISOString(), id, owner).changes > 0;
+  }
+
+  /**
+   * Returns a claimed job to the queue without starting it, because running
+   * it now would break a budget cap. The claim doesn't count as an attempt.
+   */
+  holdJob(id: number, owner: string, reason: string, until: Date): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE jobs 
+      SET status = 'pending', hold_reason = ?, next_run_at = ?, started_at = NULL,
+          attempts = MAX(attempts - 1, 0), lease_owner = NULL, heartbeat_at = NULL
+      WHERE id = ? AND status = 'processing' AND lease_owner = ?
+    `);
+    return stmt.run(reason, until.toISOString(), id, owner).changes > 0;
+  }
+
+  countHeldJobs(): number {
+    const stmt = this.db.prepare(`SELECT COUNT(*) as count FROM jobs WHERE status = 'pending' AND hold_reason IS NOT NULL`);
+    return (stmt.get() as any).count;
+  }
+
+  updateJobProgress(id: number, progress: number, step?: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE jobs SET progress = ?, current_step = COALESCE(?, current_step)
+      WHERE id = ?
+    `);
+    stmt.run(Math.max(0, Math.min(100, Math.round(progress))), step || null, id);
+  }
+
+  // Closes the job's open step, if any, and opens a new one for the current attempt
+  startJobStep(jobId: number, name: string): void {
+    this.db.transaction(() => {
+      this.finishJobSteps(jobId);
+      this.db.prepare(`
+        INSERT INTO job_steps (job_id, attempt, name, started_at)
+        SELECT id, attempts, ?, ? FROM jobs WHERE id = ?
+      `).run(name, new Date().toISOString(), jobId);
+    })();
+  }
+
+  finishJobSteps(jobId: number): void {
+    const now = new Date();
+    const openSteps = this.db.prepare(`
+      SELECT id, started_at FROM job_steps WHERE job_id = ? AND ended_at IS NULL
+    `).all(jobId) as Array<{ id: number; started_at: string }>;
+
+    const stmt = this.db.prepare('UPDATE job_steps SET ended_at = ?, duration_ms = ? WHERE id = ?');
+    for (const step of openSteps) {
+      stmt.run(now.toISOString(), now.getTime() - new Date(step.started_at).getTime(), step.id);
+    }
+  }
+
+  getJobSteps(jobId: number): ProcessingStep[] {
+    const stmt = this.db.prepare('SELECT * FROM job_steps WHERE job_id = ? ORDER BY id');
+    const rows = stmt.all(jobId) as any[];
+
+    return rows.map(row => ({
+      name: row.name,
+      attempt: row.attempt,
+      startTime: new Date(row.started_at),
+      endTime: row.ended_at ? new Date(row.ended_at) : undefined,
+      durationMs: row.duration_ms ?? undefined
+    }));
+  }
+
+  setJobAnalysisModel(id: number, model: string): void {
+    const stmt = this.db.prepare('UPDATE jobs SET analysis_model = ? WHERE id = ?');
+    stmt.run(model, id);
   }
 
   getJobStats(): { pending: number; processing: number; completed: number; failed: number } {
@@ -280,12 +572,59 @@ export class Database {
 
   // ========== PROCESSED EPISODES ==========
 
-  saveProcessedEpisode(jobId: number, processedUrl: string, originalDuration: number, processedDuration: number, cost?: number): void {
+  saveProcessedEpisode(
+    jobId: number,
+    processedUrl: string,
+    originalDuration: number,
+    processedDuration: number,
+    cost?: number,
+    fileSize?: number,
+    contentType?: string
+  ): void {
     const stmt = this.db.prepare(`
-      INSERT INTO processed_episodes (job_id, processed_url, original_duration, processed_duration, processing_cost)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO processed_episodes (job_id, processed_url, original_duration, processed_duration, processing_cost, file_size, content_type)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
-    stmt.run(jobId, processedUrl, originalDuration, processedDuration, cost || null);
+    stmt.run(jobId, processedUrl, originalDuration, processedDuration, cost || null, fileSize ?? null, contentType || null);
+  }
+
+  /**
+   * Stores everything a job produced in one transaction. Rows left by an earlier
+   * attempt of the same job are replaced, so a retried save can't hit the primary key.
+   */
+  saveProcessingResult(jobId: number, result: ProcessingResult): void {
+    this.db.transaction(() => {
+      for (const table of ['processed_episodes', 'chapters', 'ads', 'transcript_segments']) {
+        this.db.prepare(`DELETE FROM ${table} WHERE job_id = ?`).run(jobId);
+      }
+
+      this.saveProcessedEpisode(
+        jobId,
+        result.processedUrl,
+        result.originalDuration,
+        result.processedDuration,
+        result.processingCost,
+        result.processedFileSize,
+        result.processedContentType
+      );
+
+      // Record which model produced the analysis
+      if (result.analysisModel) {
+        this.setJobAnalysisModel(jobId, result.analysisModel);
+      }
+
+      if (result.chapters && result.chapters.length > 0) {
+        this.saveChapters(jobId, result.chapters);
+      }
+
+      if (result.adsRemoved && result.adsRemoved.length > 0) {
+        this.saveAds(jobId, result.adsRemoved);
+      }
+
+      if (result.transcript && result.transcript.length > 0) {
+        this.saveTranscript(jobId, result.transcript);
+      }
+    })();
   }
 
   getProcessedEpisode(jobId: number): ProcessedEpisode | null {
@@ -299,21 +638,155 @@ export class Database {
       originalDuration: row.original_duration,
       processedDuration: row.processed_duration,
       processingCost: row.processing_cost,
+      fileSize: row.file_size ?? undefined,
+      contentType: row.content_type || undefined,
       createdAt: new Date(row.created_at)
     };
   }
 
+  // ========== LLM COSTS ==========
+
+  saveLLMCost(jobId: number, cost: Omit<LLMCost, 'id' | 'jobId' | 'createdAt'>): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO llm_costs (job_id, show_id, model, operation, input_tokens, output_tokens, total_tokens, cost, duration_ms)
+      SELECT j.id, e.show_id, ?, ?, ?, ?, ?, ?, ?
+      FROM jobs j JOIN episodes e ON e.guid = j.episode_guid
+      WHERE j.id = ?
+    `);
+    stmt.run(
+      cost.model,
+      cost.operation,
+      cost.inputTokens,
+      cost.outputTokens,
+      cost.totalTokens || cost.inputTokens + cost.outputTokens,
+      cost.cost,
+      Math.round(cost.durationMs),
+      jobId
+    );
+  }
+
+  getJobLLMCosts(jobId: number): LLMCost[] {
+    const stmt = this.db.prepare('SELECT * FROM llm_costs WHERE job_id = ? ORDER BY id');
+    const rows = stmt.all(jobId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      jobId: row.job_id,
+      model: row.model,
+      operation: row.operation,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      totalTokens: row.total_tokens,
+      cost: row.cost,
+      durationMs: row.duration_ms,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  // Total spend on a job across all its attempts
+  getJobLLMCostTotal(jobId: number): number {
+    const stmt = this.db.prepare('SELECT COALESCE(SUM(cost), 0) as total FROM llm_costs WHERE job_id = ?');
+    return (stmt.get(jobId) as any).total;
+  }
+
+  // Highest llm_costs id so far; later rows were recorded after this point
+  getLastLLMCostId(): number {
+    const stmt = this.db.prepare('SELECT COALESCE(MAX(id), 0) as id FROM llm_costs');
+    return (stmt.get() as any).id;
+  }
+
+  // Spend a job has recorded after the given llm_costs id
+  getJobLLMCostAfter(jobId: number, afterId: number): number {
+    const stmt = this.db.prepare('SELECT COALESCE(SUM(cost), 0) as total FROM llm_costs WHERE job_id = ? AND id > ?');
+    return (stmt.get(jobId, afterId) as any).total;
+  }
+
+  // Recorded spend since the given instant, across all shows or for one show
+  getLLMSpendSince(since: Date, showId?: string): number {
+    const stmt = this.db.prepare(`
+      SELECT COALESCE(SUM(cost), 0) as total FROM llm_costs
+      WHERE datetime(created_at) >= datetime(?) AND (? IS NULL OR show_id = ?)
+    `);
+    return (stmt.get(since.toISOString(), showId ?? null, showId ?? null) as any).total;
+  }
+
+  // Average LLM cost per minute of original audio over the most recent processed episodes
+  getAverageCostPerMinute(sampleSize: number = 50): number | undefined {
+    const stmt = this.db.prepare(`
+      SELECT SUM(cost) as cost, SUM(original_duration) as duration FROM (
+        SELECT processing_cost as cost, original_duration FROM processed_episodes
+        WHERE processing_cost > 0 AND original_duration > 0
+        ORDER BY created_at DESC
+        LIMIT ?
+      )
+    `);
+    const row = stmt.get(sampleSize) as any;
+    if (!row?.duration) return undefined;
+    
+    return row.cost / (row.duration / 60);
+  }
+
+  /**
+   * Rolls the cost ledger up by show, model and UTC day. from/to are
+   * inclusive YYYY-MM-DD bounds; either may be omitted.
+   */
+  getLLMCostReport(from?: string, to?: string): CostReport {
+    const where = 'WHERE (? IS NULL OR date(c.created_at) >= ?) AND (? IS NULL OR date(c.created_at) <= ?)';
+    const params = [from ?? null, from ?? null, to ?? null, to ?? null];
+    const totals = `
+      COUNT(*) as calls,
+      COALESCE(SUM(c.input_tokens), 0) as input_tokens,
+      COALESCE(SUM(c.output_tokens), 0) as output_tokens,
+      COALESCE(SUM(c.cost), 0) as cost
+    `;
+
+    const rollup = (keyExpression: string, extraColumns = '', joins = '', order = 'cost DESC'): CostBreakdown[] => {
+      const rows = this.db.prepare(`
+        SELECT ${keyExpression} as key ${extraColumns}, ${totals}
+        FROM llm_costs c ${joins}
+        ${where}
+        GROUP BY key
+        ORDER BY ${order}
+      `).all(...params) as any[];
+
+      return rows.map(row => ({
+        key: row.key,
+        label: row.label || undefined,
+        calls: row.calls,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        cost: row.cost
+      }));
+    };
+
+    const total = this.db.prepare(`SELECT ${totals} FROM llm_costs c ${where}`).get(...params) as any;
+
+    return {
+      from,
+      to,
+      total: {
+        calls: total.calls,
+        inputTokens: total.input_tokens,
+        outputTokens: total.output_tokens,
+        cost: total.cost
+      },
+      byShow: rollup('c.show_id', ', MAX(s.title) as label', 'LEFT JOIN shows s ON s.id = c.show_id'),
+      byModel: rollup('c.model'),
+      byDay: rollup('date(c.created_at)', '', '', 'key ASC')
+    };
+  }
+
   // ========== CHAPTERS ==========
 
   saveChapters(jobId: number, chapters: Chapter[]): void {
     const stmt = this.db.prepare(`
-      INSERT INTO chapters (job_id, title, start_time, end_time, summary)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO chapters (job_id, title, start_time, end_time, summary, img, url)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
     
     const insertMany = this.db.transaction((chapters: Chapter[]) => {
       for (const chapter of chapters) {
-        stmt.run(jobId, chapter.title, chapter.startTime, chapter.endTime, chapter.description);
+        stmt.run(jobId, chapter.title, chapter.startTime, chapter.endTime, chapter.description, chapter.img || null, chapter.url || null);
       }
     });
     
@@ -328,7 +801,9 @@ export class Database {
       title: row.title,
       startTime: row.start_time,
       endTime: row.end_time,
-      description: row.summary
+      description: row.summary,
+      img: row.img || undefined,
+      url: row.url || undefined
     }));
   }
 
@@ -364,6 +839,356 @@ export class Database {
     }));
   }
 
+  // ========== TRANSCRIPTS ==========
+
+  saveTranscript(jobId: number, segments: TranscriptSegment[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO transcript_segments (job_id, start_time, end_time, speaker, text, words)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    
+    const insertMany = this.db.transaction((segments: TranscriptSegment[]) => {
+      for (const segment of segments) {
+        stmt.run(
+          jobId,
+          segment.startTime,
+          segment.endTime,
+          segment.speaker || null,
+          segment.text,
+          segment.words ? JSON.stringify(segment.words) : null
+        );
+      }
+    });
+    
+    insertMany(segments);
+  }
+
+  getTranscript(jobId: number): TranscriptSegment[] {
+    const stmt = this.db.prepare('SELECT * FROM transcript_segments WHERE job_id = ? ORDER BY start_time');
+    const rows = stmt.all(jobId) as any[];
+    
+    return rows.map(row => ({
+      startTime: row.start_time,
+      endTime: row.end_time,
+      text: row.text,
+      speaker: row.speaker || undefined,
+      words: row.words ? JSON.parse(row.words) : undefined
+    }));
+  }
+
+  hasTranscript(jobId: number): boolean {
+    const stmt = this.db.prepare('SELECT 1 FROM transcript_segments WHERE job_id = ? LIMIT 1');
+    return stmt.get(jobId) !== undefined;
+  }
+
+  // ========== FEED CACHE ==========
+
+  getCachedFeed(showId: string): CachedFeed | null {
+    const stmt = this.db.prepare('SELECT * FROM feed_cache WHERE show_id = ?');
+    const row = stmt.get(showId) as any;
+    if (!row) return null;
+
+    return {
+      showId: row.show_id,
+      feedUrl: row.feed_url,
+      body: row.body,
+      etag: row.etag || undefined,
+      lastModified: row.last_modified || undefined,
+      fetchedAt: new Date(row.fetched_at),
+      checkedAt: new Date(row.checked_at)
+    };
+  }
+
+  saveCachedFeed(feed: CachedFeed): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO feed_cache (show_id, feed_url, body, etag, last_modified, fetched_at, checked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(show_id) DO UPDATE SET
+        feed_url = excluded.feed_url,
+        body = excluded.body,
+        etag = excluded.etag,
+        last_modified = excluded.last_modified,
+        fetched_at = excluded.fetched_at,
+        checked_at = excluded.checked_at
+    `);
+    stmt.run(
+      feed.showId,
+      feed.feedUrl,
+      feed.body,
+      feed.etag || null,
+      feed.lastModified || null,
+      feed.fetchedAt.toISOString(),
+      feed.checkedAt.toISOString()
+    );
+  }
+
+  markCachedFeedChecked(showId: string, checkedAt: Date): void {
+    const stmt = this.db.prepare('UPDATE feed_cache SET checked_at = ? WHERE show_id = ?');
+    stmt.run(checkedAt.toISOString(), showId);
+  }
+
+  getFeedFailure(showId: string): FeedFailure | null {
+    const row = this.db.prepare('SELECT * FROM feed_failures WHERE show_id = ?').get(showId) as any;
+    if (!row) return null;
+
+    return {
+      showId: row.show_id,
+      feedUrl: row.feed_url,
+      failures: row.failures,
+      lastError: row.last_error,
+      failedAt: new Date(row.failed_at),
+      retryAt: new Date(row.retry_at)
+    };
+  }
+
+  saveFeedFailure(failure: FeedFailure): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO feed_failures (show_id, feed_url, failures, last_error, failed_at, retry_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(show_id) DO UPDATE SET
+        feed_url = excluded.feed_url,
+        failures = excluded.failures,
+        last_error = excluded.last_error,
+        failed_at = excluded.failed_at,
+        retry_at = excluded.retry_at
+    `);
+    stmt.run(
+      failure.showId,
+      failure.feedUrl,
+      failure.failures,
+      failure.lastError,
+      failure.failedAt.toISOString(),
+      failure.retryAt.toISOString()
+    );
+  }
+
+  // Returns true when the feed was failing until now
+  clearFeedFailure(showId: string): boolean {
+    return this.db.prepare('DELETE FROM feed_failures WHERE show_id = ?').run(showId).changes > 0;
+  }
+
+  // ========== WEBHOOKS ==========
+
+  createWebhookDelivery(webhookUrl: string, event: string, payload: string): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO webhook_deliveries (webhook_url, event, payload, next_attempt_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    return stmt.run(webhookUrl, event, payload, new Date().toISOString()).lastInsertRowid as number;
+  }
+
+  // Whether a show's event was already queued for the webhook since the given instant
+  hasWebhookDeliverySince(webhookUrl: string, event: string, showId: string, since: Date): boolean {
+    const stmt = this.db.prepare(`
+      SELECT 1 FROM webhook_deliveries
+      WHERE webhook_url = ? AND event = ? AND json_extract(payload, '$.data.showId') = ? AND datetime(created_at) >= datetime(?)
+      LIMIT 1
+    `);
+    return stmt.get(webhookUrl, event, showId, since.toISOString()) !== undefined;
+  }
+
+  getDueWebhookDeliveries(limit: number = 20): WebhookDelivery[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+      LIMIT ?
+    `);
+    const rows = stmt.all(new Date().toISOString(), limit) as any[];
+    return rows.map(row => this.mapWebhookDelivery(row));
+  }
+
+  getWebhookDeliveries(limit: number = 50): WebhookDelivery[] {
+    const stmt = this.db.prepare('SELECT * FROM webhook_deliveries ORDER BY id DESC LIMIT ?');
+    const rows = stmt.all(limit) as any[];
+    return rows.map(row => this.mapWebhookDelivery(row));
+  }
+
+  markWebhookDelivered(id: number, responseStatus: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'delivered', attempts = attempts + 1, response_status = ?, error = NULL,
+          next_attempt_at = NULL, delivered_at = ?
+      WHERE id = ?
+    `);
+    stmt.run(responseStatus, new Date().toISOString(), id);
+  }
+
+  // Records a failed attempt; the delivery is retried at nextAttemptAt, or given up on when it is omitted
+  recordWebhookFailure(id: number, error: string, responseStatus?: number, nextAttemptAt?: Date): void {
+    const stmt = this.db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = attempts + 1, response_status = ?, error = ?, next_attempt_at = ?
+      WHERE id = ?
+    `);
+    stmt.run(nextAttemptAt ? 'pending' : 'failed', responseStatus ?? null, error, nextAttemptAt?.toISOString() ?? null, id);
+  }
+
+  // ========== USERS & FEED TOKENS ==========
+
+  createUser(name: string): User {
+    const stmt = this.db.prepare('INSERT INTO users (name) VALUES (?)');
+    const id = stmt.run(name).lastInsertRowid as number;
+    return this.getUser(id)!;
+  }
+
+  getUser(id: number): User | null {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as any;
+    return row ? this.mapUser(row) : null;
+  }
+
+  getUsers(): User[] {
+    const rows = this.db.prepare('SELECT * FROM users ORDER BY name ASC').all() as any[];
+    return rows.map(row => this.mapUser(row));
+  }
+
+  updateUserPreferences(id: number, preferences: Partial<FeedPreferences>): User | null {
+    const current = this.getUser(id);
+    if (!current) return null;
+
+    const updated = { ...current.preferences, ...preferences };
+    this.db.prepare(`
+      UPDATE users SET ad_mode = ?, title_suffix = ?, chapter_format = ? WHERE id = ?
+    `).run(updated.adMode, updated.titleSuffix, updated.chapterFormat, id);
+    return this.getUser(id);
+  }
+
+  // Also removes the user's feed tokens
+  deleteUser(id: number): boolean {
+    return this.db.prepare('DELETE FROM users WHERE id = ?').run(id).changes > 0;
+  }
+
+  createFeedToken(userId: number, token: string, label?: string): FeedToken {
+    const stmt = this.db.prepare('INSERT INTO feed_tokens (user_id, token, label) VALUES (?, ?, ?)');
+    const id = stmt.run(userId, token, label || null).lastInsertRowid as number;
+    const row = this.db.prepare('SELECT * FROM feed_tokens WHERE id = ?').get(id) as any;
+    return this.mapFeedToken(row);
+  }
+
+  getFeedTokens(userId: number): FeedToken[] {
+    const stmt = this.db.prepare('SELECT * FROM feed_tokens WHERE user_id = ? ORDER BY id DESC');
+    const rows = stmt.all(userId) as any[];
+    return rows.map(row => this.mapFeedToken(row));
+  }
+
+  getActiveFeedToken(token: string): FeedToken | null {
+    const stmt = this.db.prepare('SELECT * FROM feed_tokens WHERE token = ? AND revoked_at IS NULL');
+    const row = stmt.get(token) as any;
+    return row ? this.mapFeedToken(row) : null;
+  }
+
+  touchFeedToken(id: number): void {
+    this.db.prepare('UPDATE feed_tokens SET last_used_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+  }
+
+  revokeFeedToken(id: number): boolean {
+    const stmt = this.db.prepare('UPDATE feed_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL');
+    return stmt.run(new Date().toISOString(), id).changes > 0;
+  }
+
+  // ========== SUBSCRIPTIONS ==========
+
+  subscribe(userId: number, showId: string): void {
+    this.db.prepare('INSERT OR IGNORE INTO subscriptions (user_id, show_id) VALUES (?, ?)').run(userId, showId);
+  }
+
+  unsubscribe(userId: number, showId: string): boolean {
+    return this.db.prepare('DELETE FROM subscriptions WHERE user_id = ? AND show_id = ?').run(userId, showId).changes > 0;
+  }
+
+  getSubscriptions(userId: number): string[] {
+    const rows = this.db.prepare('SELECT show_id FROM subscriptions WHERE user_id = ? ORDER BY show_id').all(userId) as any[];
+    return rows.map(row => row.show_id);
+  }
+
+  isSubscribed(userId: number, showId: string): boolean {
+    return this.db.prepare('SELECT 1 FROM subscriptions WHERE user_id = ? AND show_id = ?').get(userId, showId) !== undefined;
+  }
+
+  deleteShowSubscriptions(showId: string): number {
+    return this.db.prepare('DELETE FROM subscriptions WHERE show_id = ?').run(showId).changes;
+  }
+
+  countSubscribers(showId: string): number {
+    const row = this.db.prepare('SELECT COUNT(*) as count FROM subscriptions WHERE show_id = ?').get(showId) as any;
+    return row.count;
+  }
+
+  // ========== ADMIN SESSIONS ==========
+
+  createAdminSession(tokenHash: string, expiresAt: Date): void {
+    const stmt = this.db.prepare('INSERT INTO admin_sessions (token_hash, expires_at) VALUES (?, ?)');
+    stmt.run(tokenHash, expiresAt.toISOString());
+  }
+
+  hasAdminSession(tokenHash: string): boolean {
+    const stmt = this.db.prepare('SELECT 1 FROM admin_sessions WHERE token_hash = ? AND expires_at > ?');
+    return stmt.get(tokenHash, new Date().toISOString()) !== undefined;
+  }
+
+  deleteAdminSession(tokenHash: string): void {
+    this.db.prepare('DELETE FROM admin_sessions WHERE token_hash = ?').run(tokenHash);
+  }
+
+  deleteExpiredAdminSessions(): number {
+    return this.db.prepare('DELETE FROM admin_sessions WHERE expires_at <= ?').run(new Date().toISOString()).changes;
+  }
+
+  // ========== RETENTION ==========
+
+  getEpisodesPublishedBefore(showId: string, cutoff: Date): Episode[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM episodes
+      WHERE show_id = ? AND publish_date < ?
+      ORDER BY publish_date ASC
+    `);
+    const rows = stmt.all(showId, cutoff.toISOString()) as any[];
+
+    return rows.map(row => ({
+      guid: row.guid,
+      showId: row.show_id,
+      title: row.title,
+      description: row.description,
+      audioUrl: row.audio_url,
+      publishDate: new Date(row.publish_date),
+      duration: row.duration,
+      imageUrl: row.image_url || undefined
+    }));
+  }
+
+  hasActiveJob(episodeGuid: string): boolean {
+    const stmt = this.db.prepare(`
+      SELECT 1 FROM jobs
+      WHERE episode_guid = ? AND status IN ('pending', 'processing')
+      LIMIT 1
+    `);
+    return stmt.get(episodeGuid) !== undefined;
+  }
+
+  /**
+   * Removes an episode and everything produced for it in one transaction.
+   * Returns false, deleting nothing, if a job for the episode is pending or processing.
+   */
+  deleteEpisode(episodeGuid: string): boolean {
+    const jobFilter = 'job_id IN (SELECT id FROM jobs WHERE episode_guid = ?)';
+
+    return this.db.transaction(() => {
+      // Re-checked here so a job queued since the caller looked can't lose its episode
+      if (this.hasActiveJob(episodeGuid)) {
+        return false;
+      }
+
+      this.db.prepare(`DELETE FROM transcript_segments WHERE ${jobFilter}`).run(episodeGuid);
+      this.db.prepare(`DELETE FROM job_steps WHERE ${jobFilter}`).run(episodeGuid);
+      this.db.prepare(`DELETE FROM chapters WHERE ${jobFilter}`).run(episodeGuid);
+      this.db.prepare(`DELETE FROM ads WHERE ${jobFilter}`).run(episodeGuid);
+      this.db.prepare(`DELETE FROM processed_episodes WHERE ${jobFilter}`).run(episodeGuid);
+      this.db.prepare('DELETE FROM jobs WHERE episode_guid = ?').run(episodeGuid);
+      this.db.prepare('DELETE FROM episodes WHERE guid = ?').run(episodeGuid);
+      return true;
+    })();
+  }
+
   // ========== COMPLEX QUERIES ==========
 
   getEpisodeDetails(episodeGuid: string) {
@@ -376,14 +1201,16 @@ export class Database {
     let selectedJob = jobs.find(job => job.status === 'completed') || jobs[0];
     
     if (!selectedJob) {
-      return { episode, job: null, processedEpisode: null, chapters: [], ads: [] };
+      return { episode, job: null, processedEpisode: null, chapters: [], ads: [], llmCosts: [] };
     }
 
     const processedEpisode = this.getProcessedEpisode(selectedJob.id);
     const chapters = selectedJob.status === 'completed' ? this.getChapters(selectedJob.id) : [];
     const ads = selectedJob.status === 'completed' ? this.getAds(selectedJob.id) : [];
 
-    return { episode, job: selectedJob, processedEpisode, chapters, ads };
+    const llmCosts = this.getJobLLMCosts(selectedJob.id);
+
+    return { episode, job: selectedJob, processedEpisode, chapters, ads, llmCosts };
   }
 
   getShowStats(showId: string) {
@@ -440,7 +1267,56 @@ export class Database {
       priority: row.priority,
       createdAt: new Date(row.created_at),
       startedAt: row.started_at ? new Date(row.started_at) : undefined,
-      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      analysisModel: row.analysis_model || undefined,
+      attempts: row.attempts ?? 0,
+      nextRunAt: row.next_run_at ? new Date(row.next_run_at) : undefined,
+      leaseOwner: row.lease_owner || undefined,
+      heartbeatAt: row.heartbeat_at ? new Date(row.heartbeat_at) : undefined,
+      progress: row.progress ?? 0,
+      currentStep: row.current_step || undefined,
+      holdReason: row.hold_reason || undefined
+    };
+  }
+
+  private mapWebhookDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      webhookUrl: row.webhook_url,
+      event: row.event,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      responseStatus: row.response_status ?? undefined,
+      error: row.error || undefined,
+      createdAt: new Date(row.created_at),
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined
+    };
+  }
+
+  private mapUser(row: any): User {
+    return {
+      id: row.id,
+      name: row.name,
+      preferences: {
+        adMode: row.ad_mode ?? 'strip',
+        titleSuffix: row.title_suffix ?? 'full',
+        chapterFormat: row.chapter_format ?? 'all'
+      },
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapFeedToken(row: any): FeedToken {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      token: row.token,
+      label: row.label || undefined,
+      createdAt: new Date(row.created_at),
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined
     };
   }
 
@@ -6,6 +6,7 @@ CREATE TABLE IF NOT EXISTS shows (
   title TEXT NOT NULL,
   description TEXT,
   feed_url TEXT NOT NULL UNIQUE,
+  image_url TEXT, -- show artwork
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
@@ -19,6 +20,7 @@ CREATE TABLE IF NOT EXISTS episodes (
   audio_url TEXT NOT NULL,
   publish_date DATETIME NOT NULL,
   duration INTEGER, -- seconds
+  image_url TEXT, -- episode artwork, when it differs from the show's
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (show_id) REFERENCES shows(id)
 );
@@ -33,9 +35,46 @@ CREATE TABLE IF NOT EXISTS jobs (
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   started_at DATETIME,
   completed_at DATETIME,
+  analysis_model TEXT, -- provider:model that produced the analysis
+  attempts INTEGER NOT NULL DEFAULT 0, -- times the job has been started
+  next_run_at DATETIME, -- earliest retry time after a transient failure
+  lease_owner TEXT, -- worker that claimed the job while it is processing
+  heartbeat_at DATETIME, -- last time the owner reported the job alive
+  progress INTEGER NOT NULL DEFAULT 0, -- percent complete of the current attempt
+  current_step TEXT,
+  hold_reason TEXT, -- why a pending job is waiting on the budget
   FOREIGN KEY (episode_guid) REFERENCES episodes(guid)
 );
 
+-- Stage timeline of each job attempt
+CREATE TABLE IF NOT EXISTS job_steps (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id INTEGER NOT NULL,
+  attempt INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  started_at DATETIME NOT NULL,
+  ended_at DATETIME,
+  duration_ms INTEGER,
+  FOREIGN KEY (job_id) REFERENCES jobs(id)
+);
+
+-- LLM usage per model call. Rows outlive their job (job_id is cleared when
+-- retention deletes it) so spend history stays intact.
+CREATE TABLE IF NOT EXISTS llm_costs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id INTEGER,
+  show_id TEXT NOT NULL,
+  model TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost REAL NOT NULL DEFAULT 0,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE SET NULL
+);
+
 -- Processed episode results
 CREATE TABLE IF NOT EXISTS processed_episodes (
   job_id INTEGER PRIMARY KEY,
@@ -43,6 +82,8 @@ CREATE TABLE IF NOT EXISTS processed_episodes (
   original_duration REAL NOT NULL,
   processed_duration REAL NOT NULL,
   processing_cost REAL,
+  file_size INTEGER, -- bytes, used as the enclosure length
+  content_type TEXT,
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (job_id) REFERENCES jobs(id)
 );
@@ -55,6 +96,8 @@ CREATE TABLE IF NOT EXISTS chapters (
   start_time REAL NOT NULL,
   end_time REAL NOT NULL,
   summary TEXT,
+  img TEXT, -- chapter artwork URL
+  url TEXT, -- link relevant to the chapter
   FOREIGN KEY (job_id) REFERENCES jobs(id)
 );
 
@@ -69,10 +112,106 @@ CREATE TABLE IF NOT EXISTS ads (
   FOREIGN KEY (job_id) REFERENCES jobs(id)
 );
 
+-- Transcript segments, timed against the processed (ad-free) audio
+CREATE TABLE IF NOT EXISTS transcript_segments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id INTEGER NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  speaker TEXT,
+  text TEXT NOT NULL,
+  words TEXT, -- JSON array of word timings, if available
+  FOREIGN KEY (job_id) REFERENCES jobs(id)
+);
+
+-- Last copy of each upstream feed, revalidated with conditional GETs
+CREATE TABLE IF NOT EXISTS feed_cache (
+  show_id TEXT PRIMARY KEY,
+  feed_url TEXT NOT NULL,
+  body TEXT NOT NULL,
+  etag TEXT,
+  last_modified TEXT,
+  fetched_at DATETIME NOT NULL, -- when the body was last downloaded
+  checked_at DATETIME NOT NULL, -- when upstream last confirmed it is current
+  FOREIGN KEY (show_id) REFERENCES shows(id)
+);
+
+-- Upstream feeds that are currently failing; polls back off instead of hitting them again
+CREATE TABLE IF NOT EXISTS feed_failures (
+  show_id TEXT PRIMARY KEY,
+  feed_url TEXT NOT NULL,
+  failures INTEGER NOT NULL, -- consecutive failed fetches
+  last_error TEXT NOT NULL,
+  failed_at DATETIME NOT NULL, -- when the current outage began
+  retry_at DATETIME NOT NULL, -- upstream is not asked again before this
+  FOREIGN KEY (show_id) REFERENCES shows(id)
+);
+
+-- Outgoing webhook calls, kept as a delivery log and as the retry queue
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  webhook_url TEXT NOT NULL,
+  event TEXT NOT NULL,
+  payload TEXT NOT NULL, -- exact JSON body that is signed and sent
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at DATETIME, -- when a pending delivery is next tried
+  response_status INTEGER, -- HTTP status of the last attempt
+  error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  delivered_at DATETIME
+);
+
+-- People given private feed URLs, with how their feeds are composed
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  ad_mode TEXT NOT NULL DEFAULT 'strip' CHECK(ad_mode IN ('strip', 'keep')),
+  title_suffix TEXT NOT NULL DEFAULT 'full' CHECK(title_suffix IN ('full', 'short', 'none')),
+  chapter_format TEXT NOT NULL DEFAULT 'all' CHECK(chapter_format IN ('all', 'podcast', 'psc', 'none')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Shows each user receives; processing is per episode, shared by every subscriber.
+-- show_id is a configured podcast id, which may not have a shows row until its first fetch.
+CREATE TABLE IF NOT EXISTS subscriptions (
+  user_id INTEGER NOT NULL,
+  show_id TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, show_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Secret path segments of /rss/:token/:showId and /audio/:token/:episodeGuid
+CREATE TABLE IF NOT EXISTS feed_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  token TEXT NOT NULL UNIQUE,
+  label TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME,
+  revoked_at DATETIME, -- revoked tokens are kept so the list shows what was cut off
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Admin logins; only a hash of the session cookie is stored
+CREATE TABLE IF NOT EXISTS admin_sessions (
+  token_hash TEXT PRIMARY KEY,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_episodes_show ON episodes(show_id);
 CREATE INDEX IF NOT EXISTS idx_episodes_publish ON episodes(publish_date);
 CREATE INDEX IF NOT EXISTS idx_jobs_episode ON jobs(episode_guid);
 CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+CREATE INDEX IF NOT EXISTS idx_job_steps_job ON job_steps(job_id);
+CREATE INDEX IF NOT EXISTS idx_llm_costs_job ON llm_costs(job_id);
+CREATE INDEX IF NOT EXISTS idx_llm_costs_created ON llm_costs(created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_feed_tokens_user ON feed_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_show ON subscriptions(show_id);
 CREATE INDEX IF NOT EXISTS idx_chapters_job ON chapters(job_id);
-CREATE INDEX IF NOT EXISTS idx_ads_job ON ads(job_id);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_ads_job ON ads(job_id);
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_job ON transcript_segments(job_id);
\ No newline at end of file
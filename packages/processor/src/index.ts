@@ -43,6 +43,7 @@ export * from './rss/index';
 export * from './jobs/index';
 export * from './api/index';
 export * from './database/index';
+export * from './transcript/index';
 
 // Run if this is the main module
 if (require.main === module) {
@@ -1,21 +1,40 @@
 import { Database } from '../database/Database';
-import { ProcessingResult } from '@podcastoor/shared';
 import { PodcastWorker } from './workers/PodcastWorker';
 import { AudioProcessor } from '../audio/AudioProcessor';
+import { resolveAdPolicy } from '../audio/adPolicy';
 import { LLMOrchestrator } from '../llm/LLMOrchestrator';
 import { StorageManager } from '../storage/StorageManager';
 import { RSSProcessor } from '../rss/RSSProcessor';
-import { formatError } from '@podcastoor/shared';
+import { ConfigManager } from '../config/ConfigManager';
+import { formatError, JobContext } from '@podcastoor/shared';
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { JobError, LeaseLostError, classifyJobError, getRetryDelayMs } from './retry';
+import { BudgetCheck, BudgetManager } from '../services/BudgetManager';
+import { EventBus } from '../services/EventBus';
+
+const DEFAULT_LEASE_TIMEOUT_SECONDS = 120;
+// Held jobs are re-checked at least this often, so a raised cap takes effect without waiting for the reset
+const BUDGET_RECHECK_MS = 15 * 60 * 1000;
 
 export class JobManager {
   private db: Database;
   private concurrency: number;
-  private processingConfig: { minAdDuration: number };
+  private processingConfig: { minAdDuration: number; chunkConcurrency?: number; leaseTimeoutSeconds?: number };
   private isRunning: boolean = false;
   private processingInterval?: NodeJS.Timeout;
+  private leaseInterval?: NodeJS.Timeout;
   private podcastWorker: PodcastWorker;
-  private runningJobsCount: number = 0;
+  private runningJobs: Set<number> = new Set();
+  // Running jobs another worker has taken over; this process stops writing to them
+  private lostLeases: Set<number> = new Set();
+  // Identifies this process in jobs.lease_owner; unique per run so a restart never inherits old leases
+  private readonly workerId = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
   private storageManager: StorageManager;
+  private config: ConfigManager;
+  private budgetManager: BudgetManager;
+  private budgetPaused: boolean = false;
+  private events: EventBus;
 
   constructor(
     concurrency: number, 
@@ -24,9 +43,15 @@ export class JobManager {
     llmOrchestrator: LLMOrchestrator,
     storageManager: StorageManager,
     rssProcessor: RSSProcessor,
-    processingConfig: { minAdDuration: number }
+    processingConfig: { minAdDuration: number; chunkConcurrency?: number; leaseTimeoutSeconds?: number },
+    config: ConfigManager,
+    budgetManager: BudgetManager,
+    events: EventBus
   ) {
     this.concurrency = concurrency;
+    this.config = config;
+    this.budgetManager = budgetManager;
+    this.events = events;
     this.db = database;
     this.storageManager = storageManager;
     this.processingConfig = processingConfig;
@@ -46,14 +71,23 @@ export class JobManager {
 
     console.log('Starting JobManager...');
     this.isRunning = true;
-    this.runningJobsCount = 0;
+    this.runningJobs.clear();
+    
+    // Jobs left in 'processing' by a crashed run go back in the queue before we start polling
+    this.requeueExpiredJobs();
+    
+    // Heartbeat our leases and sweep expired ones several times per lease period
+    this.leaseInterval = setInterval(() => {
+      this.heartbeatRunningJobs();
+      this.requeueExpiredJobs();
+    }, this.getLeaseTimeoutMs() / 4);
     
     // Start processing loop
     this.processingInterval = setInterval(() => {
       this.processJobs();
     }, 5000); // Check every 5 seconds
     
-    console.log(`JobManager started with concurrency: ${this.concurrency}`);
+    console.log(`JobManager started with concurrency: ${this.concurrency} (worker ${this.workerId})`);
   }
 
   async stop(): Promise<void> {
@@ -69,14 +103,24 @@ export class JobManager {
     const maxWaitTime = 10000; // 10 seconds max wait
     const startTime = Date.now();
     
-    while (this.runningJobsCount > 0 && (Date.now() - startTime) < maxWaitTime) {
-      console.log(`Waiting for ${this.runningJobsCount} jobs to complete...`);
+    while (this.runningJobs.size > 0 && (Date.now() - startTime) < maxWaitTime) {
+      console.log(`Waiting for ${this.runningJobs.size} jobs to complete...`);
+      this.heartbeatRunningJobs();
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
     
-    if (this.runningJobsCount > 0) {
-      console.log(`Warning: ${this.runningJobsCount} jobs still running after timeout, forcing shutdown`);
-      this.runningJobsCount = 0; // Force reset
+    if (this.leaseInterval) {
+      clearInterval(this.leaseInterval);
+      this.leaseInterval = undefined;
+    }
+    
+    // Hand unfinished jobs back to the queue rather than waiting for their leases to expire
+    if (this.runningJobs.size > 0) {
+      console.log(`Warning: ${this.runningJobs.size} jobs still running after timeout, returning them to the queue`);
+      for (const jobId of this.runningJobs) {
+        this.db.updateJobStatus(jobId, 'pending', undefined, this.workerId);
+      }
+      this.runningJobs.clear();
     }
     
     console.log('JobManager stopped');
@@ -85,48 +129,94 @@ export class JobManager {
   private async processJobs(): Promise<void> {
     if (!this.isRunning) return;
     
-    const availableSlots = this.concurrency - this.runningJobsCount;
+    const availableSlots = this.concurrency - this.runningJobs.size;
     if (availableSlots <= 0) return;
     
-    console.log(`Processing jobs: ${this.runningJobsCount} running, ${availableSlots} slots available (max: ${this.concurrency})`);
+    const { paused, excludeShowIds } = this.budgetManager.getQueueRestrictions();
+    if (paused !== this.budgetPaused) {
+      console.log(paused ? '⏸️  Job queue paused: global budget cap reached' : '▶️  Job queue resumed: budget available again');
+      this.budgetPaused = paused;
+    }
+    if (paused) return;
+    
+    console.log(`Processing jobs: ${this.runningJobs.size} running, ${availableSlots} slots available (max: ${this.concurrency})`);
     
     for (let i = 0; i < availableSlots; i++) {
-      const job = this.db.getNextJob();
+      const job = this.db.claimNextJob(this.workerId, excludeShowIds);
       if (!job) break;
       
-      this.runningJobsCount++;
-      console.log(`Starting job ${job.id} (slot ${this.runningJobsCount}/${this.concurrency})`);
+      this.runningJobs.add(job.id);
+      console.log(`Starting job ${job.id} (slot ${this.runningJobs.size}/${this.concurrency})`);
+      this.events.publish({ type: 'job.started', ...this.getJobEventBase(job.id), attempt: job.attempts });
       
       // Process job asynchronously
       this.processJob(job.id).finally(() => {
-        this.runningJobsCount--;
+        this.runningJobs.delete(job.id);
+        this.lostLeases.delete(job.id);
+        this.budgetManager.release(job.id);
       });
     }
   }
 
+  private heartbeatRunningJobs(): void {
+    for (const jobId of this.runningJobs) {
+      try {
+        if (!this.lostLeases.has(jobId) && !this.db.heartbeatJob(jobId, this.workerId)) {
+          console.warn(`Job ${jobId} lost its lease and may be run again by another worker; abandoning it`);
+          this.lostLeases.add(jobId);
+        }
+      } catch (error) {
+        console.error(`Failed to heartbeat job ${jobId}:`, formatError(error));
+      }
+    }
+  }
+
+  private requeueExpiredJobs(): void {
+    try {
+      const staleBefore = new Date(Date.now() - this.getLeaseTimeoutMs());
+      const jobs = this.db.requeueExpiredJobs(staleBefore, this.config.getRetryPolicy().attempts);
+      for (const job of jobs) {
+        console.warn(`♻️  Recovered job ${job.id} from an expired lease: now ${job.status} (attempt ${job.attempts})`);
+        this.events.publish(job.status === 'failed'
+          ? { type: 'job.failed', ...this.getJobEventBase(job.id), error: job.error || 'Lease expired' }
+          : { type: 'job.queued', ...this.getJobEventBase(job.id) });
+      }
+    } catch (error) {
+      console.error('Failed to sweep expired job leases:', formatError(error));
+    }
+  }
+
+  private getLeaseTimeoutMs(): number {
+    return (this.processingConfig.leaseTimeoutSeconds ?? DEFAULT_LEASE_TIMEOUT_SECONDS) * 1000;
+  }
+
   private async processJob(jobId: number): Promise<void> {
-    console.log(`Processing job ${jobId} (podcast-processing) - Running jobs: ${this.runningJobsCount}/${this.concurrency}`);
+    console.log(`Processing job ${jobId} (podcast-processing) - Running jobs: ${this.runningJobs.size}/${this.concurrency}`);
     
     try {
       // Check if we should stop
       if (!this.isRunning) {
         console.log(`Job ${jobId} cancelled - JobManager is stopping`);
+        this.db.updateJobStatus(jobId, 'pending', undefined, this.workerId);
         return;
       }
       
-      // Mark job as processing
-      this.db.updateJobStatus(jobId, 'processing');
-      
-      // Get job details
+      // Get job details (claimNextJob has already marked it processing)
       const job = this.db.getJob(jobId);
       if (!job) {
-        throw new Error(`Job ${jobId} not found`);
+        throw new JobError(`Job ${jobId} not found`, false);
       }
       
       // Get episode details
       const episode = this.db.getEpisode(job.episodeGuid);
       if (!episode) {
-        throw new Error(`Episode ${job.episodeGuid} not found`);
+        throw new JobError(`Episode ${job.episodeGuid} not found`, false);
+      }
+      
+      const budgetCheck = this.budgetManager.checkJob(jobId, episode.showId, episode.duration);
+      if (!budgetCheck.allowed) {
+        this.handleBudgetLimit(jobId, budgetCheck);
+        return;
       }
       
       console.log(`🎙️  Processing episode: "${episode.title}"`);
@@ -137,6 +227,9 @@ export class JobManager {
       console.log(`   • Published: ${episode.publishDate.toLocaleDateString()}`);
       console.log(`   • Audio URL: ${episode.audioUrl}`);
       
+      const podcast = await this.config.getPodcast(episode.showId);
+      const show = this.db.getShow(episode.showId);
+      
       // Process the episode
       const result = await this.podcastWorker.process({
         podcastId: episode.showId,
@@ -144,56 +237,143 @@ export class JobManager {
         audioUrl: episode.audioUrl,
         minAdDuration: this.processingConfig.minAdDuration,
         episodeTitle: episode.title,
+        showTitle: show?.title,
+        artworkUrl: episode.imageUrl || show?.imageUrl,
         duration: episode.duration,
-        jobId: jobId
-      });
-      
-      // Save results
-      await this.saveProcessingResult(jobId, result);
+        jobId: jobId,
+        adDetectionProvider: podcast?.processingOptions.adDetectionProvider,
+        chunkSizeMinutes: podcast?.processingOptions.chunkSizeMinutes,
+        overlapSeconds: podcast?.processingOptions.overlapSeconds,
+        chunkConcurrency: this.processingConfig.chunkConcurrency,
+        adPolicy: resolveAdPolicy(podcast?.processingOptions),
+        generateChapters: podcast?.processingOptions.generateChapters
+      }, this.createJobContext(jobId, episode.guid, episode.showId));
       
-      // Mark job as completed
-      this.db.updateJobStatus(jobId, 'completed');
+      // Save results and mark the job completed, unless another worker has taken it over
+      this.assertLease(jobId);
+      this.db.startJobStep(jobId, 'save_results');
+      if (!this.db.completeJob(jobId, this.workerId, result)) {
+        this.lostLeases.add(jobId);
+        this.assertLease(jobId);
+      }
+      this.events.publish({ type: 'job.completed', jobId, episodeGuid: episode.guid, showId: episode.showId });
+      this.events.publish({
+        type: 'episode.processed',
+        jobId,
+        episodeGuid: episode.guid,
+        showId: episode.showId,
+        title: episode.title,
+        processedUrl: result.processedUrl,
+        timeSaved: Math.max(0, result.originalDuration - result.processedDuration),
+        adsRemoved: result.adsRemoved?.length ?? 0
+      });
       
       console.log(`✅ Episode processing completed: "${episode.title}"`);
       
     } catch (error) {
+      if (this.lostLeases.has(jobId)) {
+        // The job and its step timeline belong to the worker that took it over
+        console.warn(`Job ${jobId} abandoned after losing its lease:`, formatError(error));
+        return;
+      }
       // If we're shutting down, mark job as pending so it can be retried later
       if (!this.isRunning) {
-        this.db.updateJobStatus(jobId, 'pending');
+        this.db.updateJobStatus(jobId, 'pending', undefined, this.workerId);
         console.log(`Job ${jobId} reset to pending due to shutdown`);
       } else {
-        console.error(`❌ Processing error for job ${jobId}:`, formatError(error));
-        this.db.updateJobStatus(jobId, 'failed', formatError(error));
+        this.handleJobFailure(jobId, error);
+      }
+    } finally {
+      if (!this.lostLeases.has(jobId)) {
+        this.db.finishJobSteps(jobId);
       }
     }
   }
 
-  private async saveProcessingResult(jobId: number, result: ProcessingResult): Promise<void> {
-    // Save processed episode
-    this.db.saveProcessedEpisode(
+  // Stops a worker whose job was requeued or taken over, before it writes anything else
+  private assertLease(jobId: number): void {
+    if (this.lostLeases.has(jobId)) {
+      throw new LeaseLostError(jobId);
+    }
+  }
+
+  // Lets the worker record progress and its step timeline against the job row
+  private createJobContext(jobId: number, episodeGuid: string, showId: string): JobContext {
+    return {
       jobId,
-      result.processedUrl,
-      result.originalDuration,
-      result.processedDuration,
-      result.processingCost
-    );
-    
-    // Save chapters
-    if (result.chapters && result.chapters.length > 0) {
-      this.db.saveChapters(jobId, result.chapters);
+      startTime: new Date(),
+      updateProgress: async (progress, step) => {
+        this.assertLease(jobId);
+        this.db.updateJobProgress(jobId, progress, step);
+        this.events.publish({ type: 'job.progress', jobId, episodeGuid, showId, progress, step });
+      },
+      // Spend is recorded even after a lost lease: the money was still spent
+      recordLLMCost: async (cost) => {
+        this.db.saveLLMCost(jobId, cost);
+      },
+      recordStep: async (name) => {
+        this.assertLease(jobId);
+        this.db.startJobStep(jobId, name);
+      }
+    };
+  }
+
+  // Over-budget jobs wait for the budget to reset, unless configured to skip or they could never fit
+  private handleBudgetLimit(jobId: number, check: BudgetCheck): void {
+    if (this.config.getBudgetConfig().onLimit === 'skip' || check.permanent) {
+      console.warn(`💸 Skipping job ${jobId}: ${check.reason}`);
+      if (!this.db.updateJobStatus(jobId, 'failed', `Skipped: ${check.reason}`, this.workerId)) {
+        return;
+      }
+      this.events.publish({ type: 'job.failed', ...this.getJobEventBase(jobId), error: `Skipped: ${check.reason}` });
+      return;
     }
-    
-    // Save ads
-    if (result.adsRemoved && result.adsRemoved.length > 0) {
-      this.db.saveAds(jobId, result.adsRemoved);
+
+    const retryAt = new Date(Math.min(check.retryAt!.getTime(), Date.now() + BUDGET_RECHECK_MS));
+    console.log(`💸 Holding job ${jobId} until ${retryAt.toISOString()}: ${check.reason}`);
+    if (!this.db.holdJob(jobId, this.workerId, check.reason!, retryAt)) {
+      return;
     }
+    this.events.publish({ type: 'job.queued', ...this.getJobEventBase(jobId), holdReason: check.reason, runAt: retryAt.toISOString() });
+  }
+
+  // Transient failures go back in the queue with backoff until the job runs out of attempts
+  private handleJobFailure(jobId: number, error: unknown): void {
+    const jobError = classifyJobError(error);
+    const retryPolicy = this.config.getRetryPolicy();
+    const attempts = this.db.getJob(jobId)?.attempts ?? 1;
+
+    if (jobError.retryable && attempts < retryPolicy.attempts) {
+      const nextRunAt = new Date(Date.now() + getRetryDelayMs(attempts, retryPolicy));
+      console.warn(`⏳ Job ${jobId} failed (attempt ${attempts}/${retryPolicy.attempts}), retrying at ${nextRunAt.toISOString()}:`, formatError(error));
+      if (!this.db.scheduleJobRetry(jobId, this.workerId, formatError(error), nextRunAt)) {
+        console.warn(`Job ${jobId} lost its lease before its retry could be scheduled`);
+        return;
+      }
+      this.events.publish({ type: 'job.failed', ...this.getJobEventBase(jobId), error: formatError(error), retryAt: nextRunAt.toISOString() });
+      return;
+    }
+
+    const reason = jobError.retryable ? `after ${attempts} attempts` : '(permanent error)';
+    console.error(`❌ Processing error for job ${jobId} ${reason}:`, formatError(error));
+    if (!this.db.updateJobStatus(jobId, 'failed', formatError(error), this.workerId)) {
+      console.warn(`Job ${jobId} lost its lease before it could be marked failed`);
+      return;
+    }
+    this.events.publish({ type: 'job.failed', ...this.getJobEventBase(jobId), error: formatError(error) });
+  }
+
+  private getJobEventBase(jobId: number): { jobId: number; episodeGuid: string; showId?: string } {
+    const episodeGuid = this.db.getJob(jobId)?.episodeGuid ?? '';
+    return { jobId, episodeGuid, showId: this.db.getEpisode(episodeGuid)?.showId };
   }
 
   getStats() {
     return {
       isRunning: this.isRunning,
-      runningJobs: this.runningJobsCount,
+      runningJobs: this.runningJobs.size,
       maxConcurrency: this.concurrency,
+      budgetPaused: this.budgetPaused,
       jobStats: this.db.getJobStats()
     };
   }
@@ -19,16 +19,15 @@ export class ProcessingJobWorker {
       jobId: job.id,
       startTime: new Date(),
       updateProgress: async (progress, step) => {
-        // Progress tracking not directly available in new Database API
         console.log(`Job ${job.id}: ${step} - ${progress}%`);
+        this.db.updateJobProgress(job.id, progress, step);
       },
       recordLLMCost: async (cost) => {
-        // LLM cost recording not directly available in new Database API
-        console.log(`LLM cost for job ${job.id}:`, cost);
+        this.db.saveLLMCost(job.id, cost);
       },
       recordStep: async (name) => {
-        // Processing step recording not directly available in new Database API
         console.log(`Processing step for job ${job.id}: ${name}`);
+        this.db.startJobStep(job.id, name);
       }
     };
     
@@ -47,9 +46,7 @@ export class ProcessingJobWorker {
       await context.updateProgress(30, 'Analyzing audio');
       const startLLM = Date.now();
       
-      // Set the job context on the LLM orchestrator
-      this.llm.setJobContext(context);
-      const analysis = await this.llm.analyzeAudio(audioPath);
+      const analysis = await this.llm.analyzeAudio(audioPath, { context });
       const llmDuration = Date.now() - startLLM;
       
       // Step 3: Refine ad detection
@@ -119,8 +116,7 @@ export class ProcessingJobWorker {
       
       // Calculate metrics
       const timeSaved = episode.duration - processedDuration;
-      // Cost tracking not directly available in new Database API
-      const totalCost = 0; // TODO: Implement cost tracking
+      const totalCost = this.db.getJobLLMCostTotal(job.id);
       
       // Save processed episode
       this.db.saveProcessedEpisode(
@@ -132,6 +128,7 @@ export class ProcessingJobWorker {
       );
       
       this.db.updateJobStatus(job.id, 'completed');
+      this.db.finishJobSteps(job.id);
       
       // Cleanup
       await this.audio.cleanup(audioPath);
@@ -139,6 +136,7 @@ export class ProcessingJobWorker {
       
     } catch (error) {
       this.db.updateJobStatus(job.id, 'failed', formatError(error));
+      this.db.finishJobSteps(job.id);
       throw error;
     }
   }
@@ -0,0 +1,84 @@
+import { PodcastoorError } from '@podcastoor/shared';
+import { AnalysisError } from '../llm/errors';
+import { RetryPolicy } from './types';
+
+/**
+ * A job failure. Transient errors (network trouble, rate limits, upstream
+ * outages) are retried with backoff; permanent ones fail the job straight
+ * away because another attempt would hit the same problem.
+ */
+export class JobError extends PodcastoorError {
+  constructor(message: string, public retryable: boolean, details?: any) {
+    super(message, retryable ? 'JOB_TRANSIENT' : 'JOB_PERMANENT', details);
+    this.name = 'JobError';
+  }
+}
+
+// The job was requeued or taken over by another worker; this worker must stop
+export class LeaseLostError extends JobError {
+  constructor(jobId: number) {
+    super(`Job ${jobId} lost its lease`, false);
+    this.name = 'LeaseLostError';
+  }
+}
+
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH'];
+
+// ffmpeg reports HTTP failures as text, e.g. "Server returned 404 Not Found"
+const PERMANENT_PATTERNS = [
+  /no audio|unsupported audio|invalid audio/i,
+  /audio file unavailable/i,
+  /server returned 4(0[0-79]|1\d)/i, // 408 (timeout) is transient
+  /invalid data found when processing input/i
+];
+
+const TRANSIENT_PATTERNS = [
+  /\b429\b|rate limit|too many requests|quota/i,
+  /server returned 5\d\d|service unavailable|bad gateway/i,
+  /timed? ?out|timeout|socket hang up|connection (reset|refused)|network/i
+];
+
+export function classifyJobError(error: unknown): JobError {
+  if (error instanceof JobError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  // The orchestrator has already decided whether another model could succeed
+  if (error instanceof AnalysisError) {
+    return new JobError(message, error.retryable, error.details);
+  }
+
+  const code = (error as any)?.code;
+  if (typeof code === 'string' && TRANSIENT_NETWORK_CODES.includes(code)) {
+    return new JobError(message, true, { code });
+  }
+
+  const status = (error as any)?.status ?? (error as any)?.$metadata?.httpStatusCode;
+  if (typeof status === 'number') {
+    return new JobError(message, status === 408 || status === 429 || status >= 500, { status });
+  }
+
+  if (PERMANENT_PATTERNS.some(pattern => pattern.test(message))) {
+    return new JobError(message, false);
+  }
+  if (TRANSIENT_PATTERNS.some(pattern => pattern.test(message))) {
+    return new JobError(message, true);
+  }
+
+  // Unknown failures get retried; the attempt limit stops them looping forever
+  return new JobError(message, true);
+}
+
+/**
+ * Delay before the retry that follows the given (1-based) failed attempt.
+ * Exponential delays double each time up to maxDelay, with ±10% jitter so
+ * jobs that failed together don't all retry in the same instant.
+ */
+export function getRetryDelayMs(attempt: number, policy: RetryPolicy): number {
+  const { type, delay, maxDelay } = policy.backoff;
+  const base = type === 'exponential' ? delay * Math.pow(2, Math.max(0, attempt - 1)) : delay;
+  const capped = maxDelay ? Math.min(base, maxDelay) : base;
+  return Math.round(capped * (0.9 + Math.random() * 0.2));
+}
\ No newline at end of file
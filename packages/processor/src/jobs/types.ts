@@ -24,6 +24,17 @@ export interface WorkerConfig {
   retryDelay: number;
 }
 
+export interface BackoffOptions {
+  type: 'fixed' | 'exponential';
+  delay: number; // ms before the first retry
+  maxDelay?: number; // ms, caps exponential growth
+}
+
+export interface RetryPolicy {
+  attempts: number; // Total tries, including the first
+  backoff: BackoffOptions;
+}
+
 export interface QueueConfig {
   name: string;
   redis: {
@@ -34,10 +45,7 @@ export interface QueueConfig {
   };
   defaultJobOptions: {
     attempts: number;
-    backoff: {
-      type: 'fixed' | 'exponential';
-      delay: number;
-    };
+    backoff: BackoffOptions;
     removeOnComplete: number;
     removeOnFail: number;
   };
@@ -1,8 +1,12 @@
-import { AdDetection, AdSegment, Chapter, ProcessingArtifacts, ProcessingResult } from '@podcastoor/shared';
+import { AdDetection, AdPolicy, AdSegment, Chapter, JobContext, ProcessingArtifacts, ProcessingResult } from '@podcastoor/shared';
 import { AudioProcessor } from '../../audio/AudioProcessor';
-import { LLMOrchestrator } from '../../llm/LLMOrchestrator';
+import { AudioAnalysisResult, LLMOrchestrator } from '../../llm/LLMOrchestrator';
 import { StorageManager } from '../../storage/StorageManager';
 import { RSSProcessor } from '../../rss/RSSProcessor';
+import { alignTranscriptToProcessedAudio } from '../../transcript/alignment';
+import { alignChaptersToProcessedAudio } from '../../audio/timeline';
+import { addSponsorChapters, applyAdPolicy } from '../../audio/adPolicy';
+import { LeaseLostError } from '../retry';
 
 export class PodcastWorker {
   constructor(
@@ -18,17 +22,27 @@ export class PodcastWorker {
     audioUrl: string;
     minAdDuration: number;
     episodeTitle: string;
+    showTitle?: string;
+    artworkUrl?: string;
     duration: number;
     jobId: number;
-  }): Promise<ProcessingResult> {
-    const { podcastId, episodeId, audioUrl, minAdDuration, jobId } = data;
+    adDetectionProvider?: string;
+    chunkSizeMinutes?: number;
+    overlapSeconds?: number;
+    chunkConcurrency?: number;
+    adPolicy?: AdPolicy;
+    generateChapters?: boolean;
+  }, context?: JobContext): Promise<ProcessingResult> {
+    const { podcastId, episodeId, audioUrl, minAdDuration, jobId, adDetectionProvider } = data;
+    const adPolicy: AdPolicy = data.adPolicy ?? { mode: 'strip' };
+    const generateChapters = data.generateChapters ?? true;
     const startTime = Date.now();
     
     console.log(`🔧 PodcastWorker processing: ${podcastId}/${episodeId}`);
     
     try {
       // Stage 1: Download audio
-      console.log(`[Job ${jobId}] Progress: 10% - Starting download`);
+      await this.reportProgress(context, jobId, 10, 'download_audio', 'Starting download');
       console.log(`⬇️  Stage 1/8: Downloading audio from ${audioUrl}`);
       const downloadStartTime = Date.now();
       
@@ -39,18 +53,19 @@ export class PodcastWorker {
       console.log(`✅ Audio downloaded (${(downloadTime / 1000).toFixed(1)}s): ${audioMetadata.duration}s duration, ${(audioMetadata.size / 1024 / 1024).toFixed(1)}MB`);
       
       // Stage 2: Analyze audio (transcription + initial ad detection)
-      console.log(`[Job ${jobId}] Progress: 30% - Analyzing audio`);
+      await this.reportProgress(context, jobId, 30, 'analyze_audio', 'Analyzing audio');
       console.log(`🎤 Stage 2/8: Analyzing audio (transcription + initial ad detection)...`);
       const analysisStartTime = Date.now();
       
-      const audioAnalysis = await this.llmOrchestrator.analyzeAudio(audioPath);
+      const audioAnalysis = await this.analyzeAudio(audioPath, audioMetadata.duration, { ...data, generateChapters, context });
       
       const analysisTime = Date.now() - analysisStartTime;
-      console.log(`✅ Audio analysis completed (${(analysisTime / 1000).toFixed(1)}s)`);
+      const analysisModel = `${audioAnalysis.provider}:${audioAnalysis.model}`;
+      console.log(`✅ Audio analysis completed (${(analysisTime / 1000).toFixed(1)}s) using ${analysisModel}`);
       console.log(`🎯 Initial ad detection: ${audioAnalysis.adsDetected.length} potential ad segments`);
       
       // Stage 3: Refine ad detection
-      console.log(`[Job ${jobId}] Progress: 50% - Refining ad detection`);
+      await this.reportProgress(context, jobId, 50, 'refine_ads', 'Refining ad detection');
       console.log(`🎯 Stage 3/8: Refining ad detection...`);
       const adRefinementStartTime = Date.now();
       
@@ -69,34 +84,60 @@ export class PodcastWorker {
         console.log(`🎉 No ads detected in this episode`);
       }
       
-      // Stage 4: Generate chapters
-      console.log(`[Job ${jobId}] Progress: 60% - Generating chapters`);
-      console.log(`📚 Stage 4/8: Generating chapters...`);
-      const chaptersStartTime = Date.now();
-      
-      const chapters = await this.llmOrchestrator.generateChapters(audioAnalysis);
+      const { removed: removedAds, kept: keptAds } = applyAdPolicy(finalAds, adPolicy);
+      if (keptAds.length > 0) {
+        console.log(`🏷️  Ad policy "${adPolicy.mode}": keeping ${keptAds.length} ad(s) as sponsor chapters, removing ${removedAds.length}`);
+      }
       
-      const chaptersTime = Date.now() - chaptersStartTime;
-      console.log(`✅ Chapters generated (${(chaptersTime / 1000).toFixed(1)}s): ${chapters.length} chapters`);
+      // Stage 4: Generate chapters
+      let chapters: Chapter[] = [];
+      let chaptersTime = 0;
+      if (generateChapters) {
+        await this.reportProgress(context, jobId, 60, 'generate_chapters', 'Generating chapters');
+        console.log(`📚 Stage 4/8: Generating chapters...`);
+        const chaptersStartTime = Date.now();
+        
+        chapters = await this.llmOrchestrator.generateChapters(audioAnalysis);
+        
+        chaptersTime = Date.now() - chaptersStartTime;
+        console.log(`✅ Chapters generated (${(chaptersTime / 1000).toFixed(1)}s): ${chapters.length} chapters`);
+      } else {
+        console.log(`⏭️  Stage 4/8: Chapter generation disabled for this podcast`);
+      }
       
       // Stage 5: Process audio (remove ads and extract ad segments)
-      console.log(`[Job ${jobId}] Progress: 70% - Processing audio`);
-      console.log(`✂️  Stage 5/8: Processing audio (removing ${finalAds.length} ad segments)...`);
+      await this.reportProgress(context, jobId, 70, 'process_audio', 'Processing audio');
+      console.log(`✂️  Stage 5/8: Processing audio (removing ${removedAds.length} ad segments)...`);
       const audioProcessingStartTime = Date.now();
       
       // Remove ads from the main audio
-      const processedPath = await this.audioProcessor.removeAds(audioPath, finalAds);
+      const processedPath = await this.audioProcessor.removeAds(audioPath, removedAds);
+      
+      // Chapters are embedded in the file, so they must match the processed timeline.
+      // Kept ads still get sponsor chapters even when topic chapters are turned off.
+      const processedChapters = alignChaptersToProcessedAudio(
+        addSponsorChapters(chapters, keptAds),
+        removedAds,
+        audioMetadata.duration
+      );
+      await this.audioProcessor.writeId3Tag(processedPath, {
+        title: data.episodeTitle,
+        artist: data.showTitle,
+        album: data.showTitle,
+        artwork: data.artworkUrl ? await this.audioProcessor.fetchArtwork(data.artworkUrl) : undefined,
+        chapters: processedChapters
+      });
       
       // Extract individual ad segments
       let adSegments: AdSegment[] = [];
-      if (finalAds.length > 0) {
-        console.log(`🎯 Extracting ${finalAds.length} ad segments...`);
-        const adPaths = await this.audioProcessor.extractAdSegments(audioPath, finalAds, episodeId);
+      if (removedAds.length > 0) {
+        console.log(`🎯 Extracting ${removedAds.length} ad segments...`);
+        const adPaths = await this.audioProcessor.extractAdSegments(audioPath, removedAds, episodeId);
         
         // Upload each ad segment
         for (let i = 0; i < adPaths.length; i++) {
           const adPath = adPaths[i];
-          const ad = finalAds[i];
+          const ad = removedAds[i];
           
           try {
             const adUploadResult = await this.storageManager.uploadAdSegment(
@@ -130,12 +171,16 @@ export class PodcastWorker {
       const processedMetadata = await this.audioProcessor.extractMetadata(processedPath);
       
       const audioProcessingTime = Date.now() - audioProcessingStartTime;
-      const timeSaved = finalAds.reduce((total: number, ad: AdDetection) => total + (ad.endTime - ad.startTime), 0);
+      const timeSaved = removedAds.reduce((total: number, ad: AdDetection) => total + (ad.endTime - ad.startTime), 0);
       console.log(`✅ Audio processing completed (${(audioProcessingTime / 1000).toFixed(1)}s): Removed ${timeSaved}s of ads`);
       console.log(`📊 Final audio: ${processedMetadata.duration}s duration, ${(processedMetadata.size / 1024 / 1024).toFixed(1)}MB`);
       
+      // Line the transcript up with the audio listeners will actually hear
+      const transcript = alignTranscriptToProcessedAudio(audioAnalysis.transcript, removedAds, audioMetadata.duration);
+      console.log(`📝 Transcript: ${transcript.length} segments aligned to processed audio`);
+      
       // Stage 6: Upload processed audio
-      console.log(`[Job ${jobId}] Progress: 85% - Uploading processed audio`);
+      await this.reportProgress(context, jobId, 85, 'upload_audio', 'Uploading processed audio');
       console.log(`☁️  Stage 6/8: Uploading processed audio...`);
       const uploadStartTime = Date.now();
       
@@ -145,7 +190,7 @@ export class PodcastWorker {
       console.log(`✅ Upload completed (${(uploadTime / 1000).toFixed(1)}s): ${uploadResult.url}`);
       
       // Stage 7: Upload processing artifacts
-      console.log(`[Job ${jobId}] Progress: 95% - Uploading artifacts`);
+      await this.reportProgress(context, jobId, 95, 'upload_artifacts', 'Uploading artifacts');
       console.log(`💾 Stage 7/8: Uploading processing artifacts...`);
       const artifactUploadStartTime = Date.now();
       
@@ -159,10 +204,14 @@ export class PodcastWorker {
           processed: processedMetadata
         },
         speakerCount: 0,
+        analysisModel,
+        analysisAttempts: audioAnalysis.attempts,
         initialAdsDetected: audioAnalysis.adsDetected,
         finalAdsDetected: finalAds,
         adSegments: adSegments,
-        chapters: chapters,
+        chapters: processedChapters,
+        adPolicy: { ...adPolicy, generateChapters },
+        keptAds,
         processingTime: {
           download: downloadTime,
           analysis: analysisTime,
@@ -180,12 +229,11 @@ export class PodcastWorker {
       console.log(`✅ Artifacts uploaded (${(artifactUploadTime / 1000).toFixed(1)}s): ${artifactUploadResult.url}`);
       
       // Stage 8: Complete
-      console.log(`[Job ${jobId}] Progress: 100% - Processing complete`);
+      await this.reportProgress(context, jobId, 100, undefined, 'Processing complete');
       console.log(`🎉 Stage 8/8: Processing complete!`);
       
-      // Get actual cost from LLM usage tracking
-      const llmUsage = this.llmOrchestrator.getTotalUsage();
-      const totalCost = llmUsage.cost;
+      // Cost of this run's model calls; the job's ledger also includes earlier attempts
+      const totalCost = audioAnalysis.usage?.cost || 0;
       const totalTime = Date.now() - startTime;
       
       const result: ProcessingResult = {
@@ -195,10 +243,14 @@ export class PodcastWorker {
         processedUrl: uploadResult.url,
         originalDuration: audioMetadata.duration,
         processedDuration: processedMetadata.duration,
-        adsRemoved: finalAds,
+        processedFileSize: uploadResult.size,
+        processedContentType: uploadResult.contentType,
+        adsRemoved: removedAds,
         adSegments: adSegments,
-        chapters: chapters,
+        chapters: processedChapters,
+        transcript,
         processingCost: totalCost,
+        analysisModel,
         processedAt: new Date()
       };
       
@@ -212,6 +264,53 @@ export class PodcastWorker {
     }
   }
 
+  // Persists progress through the job context when there is one; step starts a new timeline entry
+  private async reportProgress(context: JobContext | undefined, jobId: number, progress: number, step: string | undefined, label: string): Promise<void> {
+    console.log(`[Job ${jobId}] Progress: ${progress}% - ${label}`);
+    if (!context) return;
+
+    try {
+      if (step) {
+        await context.recordStep(step);
+      }
+      await context.updateProgress(progress, label);
+    } catch (error) {
+      // A lost lease means another worker owns the job now, so stop before spending more
+      if (error instanceof LeaseLostError) {
+        throw error;
+      }
+      // Otherwise progress is informational; never fail a job because it couldn't be recorded
+      console.warn(`Failed to record progress for job ${jobId}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async analyzeAudio(
+    audioPath: string,
+    duration: number,
+    options: { adDetectionProvider?: string; chunkSizeMinutes?: number; overlapSeconds?: number; chunkConcurrency?: number; generateChapters?: boolean; context?: JobContext }
+  ): Promise<AudioAnalysisResult> {
+    const { adDetectionProvider, chunkSizeMinutes, overlapSeconds = 0, chunkConcurrency, generateChapters, context } = options;
+
+    // Short episodes fit in a single request
+    if (!chunkSizeMinutes || duration <= chunkSizeMinutes * 60) {
+      return this.llmOrchestrator.analyzeAudio(audioPath, { provider: adDetectionProvider, generateChapters, context });
+    }
+
+    console.log(`🧩 Episode is longer than ${chunkSizeMinutes} minutes, analyzing in chunks (${overlapSeconds}s overlap)`);
+    const chunks = await this.audioProcessor.createChunks(audioPath, chunkSizeMinutes, overlapSeconds);
+
+    try {
+      return await this.llmOrchestrator.analyzeAudioChunks(chunks, duration, {
+        provider: adDetectionProvider,
+        concurrency: chunkConcurrency,
+        generateChapters,
+        context
+      });
+    } finally {
+      await Promise.all(chunks.map(chunk => this.audioProcessor.cleanup(chunk.filePath)));
+    }
+  }
+
   private async handleProcessingError(error: Error, jobId: number, podcastId: string, episodeId: string): Promise<void> {
     console.error(`❌ Processing error for job ${jobId}:`, error.message);
     
@@ -227,8 +326,7 @@ export class PodcastWorker {
     
     console.error('🔍 Error details:', errorDetails);
     
-    // Could implement error notification here
-    // await this.notifyError(errorDetails);
+    // Notifications (job.failed webhooks and events) come from JobManager, which knows whether the job will be retried
   }
 
   private formatTime(seconds: number): string {
@@ -1,15 +1,25 @@
-import {
-  GoogleGenAI
-} from "@google/genai";
-import { AdDetection, Chapter, JobContext } from '@podcastoor/shared';
+import { AdDetection, AnalysisAttempt, Chapter, JobContext, LLMProviderConfig, TranscriptSegment } from '@podcastoor/shared';
 import { promises as fs } from 'fs';
 import { basename } from 'path';
+import { AudioAnalysisProvider } from './types';
+import { createProvider } from './providers';
+import { AnalysisError, classifyAnalysisError } from './errors';
+import { stitchChunkResults } from './chunkStitcher';
+import { AudioChunk } from '../audio/types';
+
+// Word timings are optional output; a runaway list shouldn't bloat the stored transcript
+const MAX_WORDS_PER_SEGMENT = 100;
 
 export interface LLMConfig {
   geminiApiKey: string;
   models: {
     geminiAudio: string;
   };
+  // Provider used when a podcast doesn't name one; defaults to 'gemini'
+  adDetectionProvider?: string;
+  providers?: Record<string, LLMProviderConfig>;
+  // Tried in order when the primary analysis fails: "provider" or "provider:model"
+  fallbackModels?: string[];
 }
 
 export interface LLMUsage {
@@ -22,12 +32,35 @@ export interface LLMUsage {
 export interface AudioAnalysisResult {
   adsDetected: AdDetection[]; // From Gemini audio analysis
   chapters: Chapter[]; // Chapters generated by Gemini
+  transcript: TranscriptSegment[]; // Timestamped transcript of the original audio
+  provider?: string; // Provider that produced this result
+  model?: string; // Model that produced this result
+  attempts?: AnalysisAttempt[]; // Every model tried, in order
+  usage?: LLMUsage; // What producing this result cost, summed over chunks
+}
+
+export interface AnalyzeAudioOptions {
+  provider?: string;
+  // Receives a ledger entry for every model call made on the job's behalf
+  context?: JobContext;
+  // False leaves chapters out of the prompt and response schema entirely
+  generateChapters?: boolean;
+  // Set when the audio is one chunk of a longer episode
+  segment?: {
+    index: number;
+    total: number;
+    startTime: number;
+  };
+}
+
+export interface AnalyzeChunksOptions extends Omit<AnalyzeAudioOptions, 'segment'> {
+  concurrency?: number;
 }
 
 export class LLMOrchestrator {
-  private geminiAI: GoogleGenAI;
+  private providers: Map<string, AudioAnalysisProvider> = new Map();
   private config: LLMConfig;
-  private jobContext?: JobContext;
+  // Process-wide running total; per-job usage comes back on each result
   private totalUsage: LLMUsage = {
     inputTokens: 0,
     outputTokens: 0,
@@ -37,42 +70,200 @@ export class LLMOrchestrator {
 
   constructor(config: LLMConfig) {
     this.config = config;
-    this.geminiAI = new GoogleGenAI({
-      apiKey: config.geminiApiKey
-    });
+
+    // The built-in Gemini provider keeps working from the legacy settings
+    const providerConfigs: Record<string, LLMProviderConfig> = {
+      gemini: {
+        type: 'gemini',
+        apiKey: config.geminiApiKey,
+        model: config.models.geminiAudio
+      },
+      ...config.providers
+    };
+
+    for (const [name, providerConfig] of Object.entries(providerConfigs)) {
+      this.providers.set(name, createProvider(name, providerConfig));
+    }
+
+    // Fail fast on fallback entries naming unknown providers
+    this.resolveFallbackChain();
   }
 
-  setJobContext(context: JobContext): void {
-    this.jobContext = context;
+  getProvider(name?: string): AudioAnalysisProvider {
+    const providerName = name || this.config.adDetectionProvider || 'gemini';
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+    }
+    return provider;
   }
   
   private async recordUsage(
+    context: JobContext | undefined,
     model: string,
     operation: string,
     usage: any,
     durationMs: number
-  ): Promise<void> {
-    if (this.jobContext) {
-      await this.jobContext.recordLLMCost({
-        model,
-        operation,
-        inputTokens: usage?.prompt_tokens || usage?.input_tokens || 0,
-        outputTokens: usage?.completion_tokens || usage?.output_tokens || 0,
-        totalTokens: usage?.total_tokens || 0,
-        cost: usage?.total_cost || usage?.cost || 0,
-        durationMs
-      });
+  ): Promise<LLMUsage> {
+    const recorded: LLMUsage = {
+      inputTokens: usage?.prompt_tokens || usage?.input_tokens || 0,
+      outputTokens: usage?.completion_tokens || usage?.output_tokens || 0,
+      cost: usage?.total_cost || usage?.cost || 0,
+      duration: durationMs
+    };
+
+    if (context) {
+      try {
+        await context.recordLLMCost({
+          model,
+          operation,
+          inputTokens: recorded.inputTokens,
+          outputTokens: recorded.outputTokens,
+          totalTokens: usage?.total_tokens || recorded.inputTokens + recorded.outputTokens,
+          cost: recorded.cost,
+          durationMs
+        });
+      } catch (error) {
+        // The analysis already succeeded; a ledger write failure shouldn't throw it away
+        console.error(`Failed to record LLM cost for job ${context.jobId}:`, error instanceof Error ? error.message : String(error));
+      }
     }
     
-    // Still track in totalUsage for backward compatibility
-    this.totalUsage.inputTokens += usage?.prompt_tokens || usage?.input_tokens || 0;
-    this.totalUsage.outputTokens += usage?.completion_tokens || usage?.output_tokens || 0;
-    this.totalUsage.cost += usage?.total_cost || usage?.cost || 0;
+    this.totalUsage.inputTokens += recorded.inputTokens;
+    this.totalUsage.outputTokens += recorded.outputTokens;
+    this.totalUsage.cost += recorded.cost;
     this.totalUsage.duration += durationMs;
+
+    return recorded;
   }
 
-  async analyzeAudio(audioPath: string): Promise<AudioAnalysisResult> {
-    console.log(`Stage 1: Analyzing audio with Gemini: ${audioPath}`);
+  async analyzeAudio(audioPath: string, options: AnalyzeAudioOptions = {}): Promise<AudioAnalysisResult> {
+    const primary = this.getProvider(options.provider);
+    const chain = [
+      { provider: primary, model: primary.defaultModel },
+      ...this.resolveFallbackChain()
+    ].filter((entry, index, all) =>
+      all.findIndex(other => other.provider === entry.provider && other.model === entry.model) === index
+    );
+    const attempts: AnalysisAttempt[] = [];
+    let lastError: AnalysisError | undefined;
+
+    for (const { provider, model } of chain) {
+      const attemptStart = Date.now();
+
+      try {
+        const result = await this.analyzeAudioWith(provider, model, audioPath, options);
+        attempts.push({ provider: provider.name, model, success: true, durationMs: Date.now() - attemptStart });
+
+        if (attempts.length > 1) {
+          console.log(`Audio analysis succeeded with fallback ${provider.name}:${model} after ${attempts.length - 1} failed attempt(s)`);
+        }
+
+        return { ...result, provider: provider.name, model, attempts };
+      } catch (error) {
+        lastError = classifyAnalysisError(error);
+        attempts.push({
+          provider: provider.name,
+          model,
+          success: false,
+          error: lastError.message,
+          retryable: lastError.retryable,
+          durationMs: Date.now() - attemptStart
+        });
+
+        if (!lastError.retryable) {
+          console.error(`Fatal audio analysis error with ${provider.name}:${model}, not trying fallbacks: ${lastError.message}`);
+          break;
+        }
+
+        console.warn(`Audio analysis failed with ${provider.name}:${model} (retryable): ${lastError.message}`);
+      }
+    }
+
+    throw new AnalysisError(
+      `Audio analysis failed after ${attempts.length} attempt(s): ${lastError?.message}`,
+      lastError?.retryable ?? false,
+      { attempts }
+    );
+  }
+
+  async analyzeAudioChunks(
+    chunks: AudioChunk[],
+    episodeDuration: number,
+    options: AnalyzeChunksOptions = {}
+  ): Promise<AudioAnalysisResult> {
+    const concurrency = Math.max(1, options.concurrency || 1);
+    const results: AudioAnalysisResult[] = new Array(chunks.length);
+    let nextChunk = 0;
+    // Set by the first chunk that fails so the other runners stop uploading (and paying for) more chunks
+    let failed = false;
+
+    console.log(`Analyzing ${chunks.length} chunks (concurrency: ${concurrency})`);
+
+    // Each runner pulls the next unanalyzed chunk until none are left
+    const runners = Array.from({ length: Math.min(concurrency, chunks.length) }, async () => {
+      while (!failed && nextChunk < chunks.length) {
+        const chunk = chunks[nextChunk++];
+        console.log(`Analyzing chunk ${chunk.chunkIndex + 1}/${chunks.length} (${chunk.startTime.toFixed(0)}s - ${chunk.endTime.toFixed(0)}s)`);
+        try {
+          results[chunk.chunkIndex] = await this.analyzeAudio(chunk.filePath, {
+            provider: options.provider,
+            context: options.context,
+            generateChapters: options.generateChapters,
+            segment: { index: chunk.chunkIndex, total: chunks.length, startTime: chunk.startTime }
+          });
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    });
+
+    // Wait for chunks already in flight before failing, so the caller doesn't delete files still being read
+    const outcomes = await Promise.allSettled(runners);
+    const rejection = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    if (rejection) {
+      throw rejection.reason;
+    }
+
+    const stitched = stitchChunkResults(chunks, results, episodeDuration);
+    console.log(`Stitched ${chunks.length} chunks: ${stitched.adsDetected.length} ads, ${stitched.chapters.length} chapters`);
+
+    // Fallbacks may have kicked in for some chunks only
+    return {
+      ...stitched,
+      provider: [...new Set(results.map(result => result.provider))].join(','),
+      model: [...new Set(results.map(result => result.model))].join(','),
+      attempts: results.flatMap(result => result.attempts || []),
+      usage: results.reduce<LLMUsage>((total, result) => ({
+        inputTokens: total.inputTokens + (result.usage?.inputTokens || 0),
+        outputTokens: total.outputTokens + (result.usage?.outputTokens || 0),
+        cost: total.cost + (result.usage?.cost || 0),
+        duration: total.duration + (result.usage?.duration || 0)
+      }), { inputTokens: 0, outputTokens: 0, cost: 0, duration: 0 })
+    };
+  }
+
+  private resolveFallbackChain(): Array<{ provider: AudioAnalysisProvider; model: string }> {
+    return (this.config.fallbackModels || []).map(entry => {
+      const separator = entry.indexOf(':');
+      const providerName = separator === -1 ? entry : entry.slice(0, separator);
+      const provider = this.getProvider(providerName);
+      const model = separator === -1 ? provider.defaultModel : entry.slice(separator + 1);
+      return { provider, model };
+    });
+  }
+
+  private async analyzeAudioWith(
+    provider: AudioAnalysisProvider,
+    model: string,
+    audioPath: string,
+    options: AnalyzeAudioOptions
+  ): Promise<AudioAnalysisResult> {
+    console.log(`Stage 1: Analyzing audio with ${provider.name} (${model}): ${audioPath}`);
+    
+    const { segment, context } = options;
+    const generateChapters = options.generateChapters ?? true;
     
     const startTime = Date.now();
     
@@ -81,17 +272,9 @@ export class LLMOrchestrator {
       const fileStats = await fs.stat(audioPath);
       console.log(`Uploading audio file: ${fileName} (${(fileStats.size / 1024 / 1024).toFixed(1)}MB)`);
       
-      // Upload audio file to Gemini
-      const uploadedFile = await this.geminiAI.files.upload({
-        file: audioPath,
-        config: { mimeType: "audio/mp3" },
-      });
-
-      console.log(`File uploaded: ${uploadedFile.uri}`);
-      
-      const analysisPrompt = this.createGeminiAudioAnalysisPrompt();
+      const analysisPrompt = this.createGeminiAudioAnalysisPrompt(segment, generateChapters);
 
-      console.log("Prompting gemini for initial analysis...")
+      console.log(`Prompting ${provider.name} for initial analysis...`)
 
       // Define JSON schema for structured output using the Google SDK Type system
       const responseSchema = {
@@ -107,134 +290,98 @@ export class LLMOrchestrator {
                 confidence: { type: "number" },
                 adType: { type: "string" },
                 description: { type: "string" },
-                detectionReason: { type: "string" }
+                detectionReason: { type: "string" },
+                sponsor: { type: "string" },
+                hostRead: { type: "boolean" }
               },
               required: ["startTime", "endTime", "confidence", "adType", "description", "detectionReason"]
             }
           },
-          chapters: {
+          ...(generateChapters ? {
+            chapters: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  title: { type: "string" },
+                  startTime: { type: "number" },
+                  endTime: { type: "number" },
+                  description: { type: "string" }
+                },
+                required: ["title", "startTime", "endTime"]
+              }
+            }
+          } : {}),
+          transcript: {
             type: "array",
             items: {
               type: "object",
               properties: {
-                title: { type: "string" },
                 startTime: { type: "number" },
                 endTime: { type: "number" },
-                description: { type: "string" }
+                speaker: { type: "string" },
+                text: { type: "string" },
+                words: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      word: { type: "string" },
+                      startTime: { type: "number" },
+                      endTime: { type: "number" }
+                    },
+                    required: ["word", "startTime", "endTime"]
+                  }
+                }
               },
-              required: ["title", "startTime", "endTime"]
+              required: ["startTime", "endTime", "text"]
             }
           },
         },
-        required: ["adsDetected", "chapters"]
+        // The transcript is the bulk of the output; leaving it optional keeps a long
+        // episode from losing its ads and chapters when the output cap is reached
+        required: generateChapters ? ["adsDetected", "chapters"] : ["adsDetected"]
       };
 
-      // Generate content using the uploaded file with structured output
-      // Use streaming to handle large responses
-      console.log('Starting Gemini audio analysis with streaming...');
-      
-      const streamingResponse = await this.geminiAI.models.generateContentStream({
-        model: this.config.models.geminiAudio,
-        contents: [
-          {
-            role: 'user',
-            parts: [
-              { fileData: { mimeType: uploadedFile.mimeType!, fileUri: uploadedFile.uri! } },
-              { text: analysisPrompt }
-            ]
-          }
-        ],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: responseSchema,
-          maxOutputTokens: 66000,
-          temperature: 0.1,
-          thinkingConfig: {
-            thinkingBudget: 0,
-          }
-        }
+      const response = await provider.analyzeAudio({
+        audioPath,
+        model,
+        prompt: analysisPrompt,
+        responseSchema,
+        maxOutputTokens: 66000
       });
+      const analysisText = response.text;
       
-      // Collect all chunks
-      let analysisText = '';
-      let chunkCount = 0;
-      let usageMetadata: any = null;
-      
-      for await (const chunk of streamingResponse) {
-        const chunkText = chunk.text;
-        if (chunkText) {
-          analysisText += chunkText;
-          chunkCount++;
-          if (chunkCount % 10 === 0) {
-            console.log(`Received ${chunkCount} chunks, current length: ${analysisText.length}`);
-          }
-        }
-        // Capture usage metadata from the last chunk
-        if (chunk.usageMetadata) {
-          usageMetadata = chunk.usageMetadata;
-        }
-      }
-      
-      console.log(`Streaming complete. Total chunks: ${chunkCount}, Total length: ${analysisText.length}`);
+      // The call is billed whether or not its output turns out to be usable
+      const usage = await this.recordUsage(
+        context,
+        response.model,
+        'audio_analysis',
+        {
+          prompt_tokens: response.inputTokens,
+          completion_tokens: response.outputTokens,
+          total_tokens: response.inputTokens + response.outputTokens,
+          cost: response.cost
+        },
+        Date.now() - startTime
+      );
       
       if (!analysisText) {
-        throw new Error('Empty response from Gemini API');
+        throw new AnalysisError(`Empty response from ${provider.name}`, true);
       }
       
-      console.log(`Gemini audio analysis completed in ${Date.now() - startTime}ms`);
+      console.log(`Audio analysis completed in ${Date.now() - startTime}ms`);
       
       // Log first 500 chars of response for debugging
-      console.log(`Gemini response preview: ${analysisText.substring(0, 500)}...`);
+      console.log(`${provider.name} response preview: ${analysisText.substring(0, 500)}...`);
       
       // Parse the structured response
       const parsedResult = this.parseGeminiAudioAnalysis(analysisText);
       
-      // Clean up uploaded file
-      try {
-        if (uploadedFile.name) {
-          await this.geminiAI.files.delete({
-            name: uploadedFile.name
-          });
-          console.log(`Cleaned up uploaded file: ${uploadedFile.name}`);
-        }
-      } catch (cleanupError) {
-        console.warn(`Failed to cleanup uploaded file: ${cleanupError}`);
-      }
-      
-      const duration = Date.now() - startTime;
-      
-      // Use the captured usageMetadata from streaming
-      const inputTokens = usageMetadata?.promptTokenCount || 0;
-      const outputTokens = usageMetadata?.candidatesTokenCount || usageMetadata?.totalTokenCount || this.estimateTokens(analysisText);
-      
-      // Gemini 1.5 Flash pricing per 1M tokens (Paid Tier)
-      // For prompts <= 128k tokens: $0.075 input, $0.30 output
-      // For prompts > 128k tokens: $0.15 input, $0.60 output
-      const isLargePrompt = inputTokens > 128_000;
-      const inputRate = isLargePrompt ? 0.15 : 0.075;
-      const outputRate = isLargePrompt ? 0.60 : 0.30;
-      
-      const inputCost = (inputTokens / 1_000_000) * inputRate;
-      const outputCost = (outputTokens / 1_000_000) * outputRate;
-
-      console.log(`Initial gemini cost: Input: ${inputCost}, Output: ${outputCost}`)
-      
-      // Record usage with new method
-      await this.recordUsage(
-        this.config.models.geminiAudio,
-        'audio_analysis',
-        {
-          prompt_tokens: inputTokens,
-          completion_tokens: outputTokens,
-          total_tokens: inputTokens + outputTokens,
-          cost: inputCost + outputCost
-        },
-        duration
-      );
-      
-      return parsedResult;
+      return { ...parsedResult, usage };
     } catch (error) {
-      throw new Error(`Gemini audio analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+      const classified = classifyAnalysisError(error);
+      throw new AnalysisError(`${provider.name} audio analysis failed: ${classified.message}`, classified.retryable, classified.details);
     }
   }
 
@@ -268,10 +415,31 @@ export class LLMOrchestrator {
     return audioAnalysis.chapters;
   }
 
+  private createGeminiAudioAnalysisPrompt(segment: AnalyzeAudioOptions['segment'], generateChapters: boolean): string {
+    const segmentNote = segment
+      ? `This audio is part ${segment.index + 1} of ${segment.total} of a longer episode. Report all timestamps in seconds from the start of THIS part, not the full episode. Ads or topics may be cut off at the start or end of the part; report them up to the edge.
 
+`
+      : '';
 
-  private createGeminiAudioAnalysisPrompt(): string {
-    return `Analyze this podcast audio file and provide:
+    // Podcasts with chapters turned off don't pay for the model to write them
+    const chaptersSection = generateChapters ? `2. CHAPTERS: Create meaningful chapters based on natural topic transitions. Ensure:
+   - Chapters are at least 5 minutes long
+   - Avoid creating chapter breaks during ad segments
+   - Use concise titles (1-3 words)
+   - Focus on high-level topic changes, not minor transitions
+   - Chapters should span distinct topics, not just minor changes in topic. For example, if a podcast talks about 5 different NRL topics in a window of 10 minutes, there should be 1 chapter titled "NRL" that spans the entire 10 minute period.
+   - Chapters must not contain any ads as the ads will be removed from the audio file.
+
+  For each chapter, provide:
+  - title: concise chapter title (1-3 words)
+  - startTime: seconds from start
+  - endTime: seconds from start
+  - description: optional brief description
+
+` : '';
+
+    return `${segmentNote}Analyze this podcast audio file and provide:
 
 1. AD DETECTION: Identify advertisements using BOTH audio characteristics AND text content:
    Audio indicators:
@@ -302,38 +470,33 @@ export class LLMOrchestrator {
     - adType: "pre-roll", "mid-roll", "post-roll", or "embedded"
     - description: what was detected. e.g. "An ad for product x"
     - detectionReason: "AUDIO_QUALITY_CHANGE", "VOLUME_CHANGE", "ACOUSTIC_CHANGE", "TEXT_CONTENT", "COMBINED" or anything else you think is relevant
+    - sponsor: optional, the brand or product being advertised, e.g. "Squarespace"
+    - hostRead: true if the ad is read by the show's own host(s), false if it is a separately produced spot
 
-2. CHAPTERS: Create meaningful chapters based on natural topic transitions. Ensure:
-   - Chapters are at least 5 minutes long
-   - Avoid creating chapter breaks during ad segments
-   - Use concise titles (1-3 words)
-   - Focus on high-level topic changes, not minor transitions
-   - Chapters should span distinct topics, not just minor changes in topic. For example, if a podcast talks about 5 different NRL topics in a window of 10 minutes, there should be 1 chapter titled "NRL" that spans the entire 10 minute period.
-   - Chapters must not contain any ads as the ads will be removed from the audio file.
-
-  For each chapter, provide:
-  - title: concise chapter title (1-3 words)
+${chaptersSection}${generateChapters ? 3 : 2}. TRANSCRIPT: Transcribe the entire audio, including any ads, as consecutive segments of one or two sentences each.
+  For each segment, provide:
   - startTime: seconds from start
   - endTime: seconds from start
-  - description: optional brief description
+  - speaker: a consistent label for the speaker, e.g. "Host", "Guest 1", or their name if it is stated
+  - text: the words spoken, verbatim
+  - words: optional, each word with its own startTime and endTime in seconds from start
+  Complete the ad detection${generateChapters ? ' and chapters' : ''} in full before the transcript; the transcript is the lowest priority, and word timings the lowest part of it.
 
 Be comprehensive in ad detection but conservative - only mark content as ads if you're confident.`;
   }
 
-
-
   private parseGeminiAudioAnalysis(analysisText: string): AudioAnalysisResult {
     try {
       // Check if the response is complete JSON
       if (!analysisText.trim()) {
-        throw new Error('Empty response from Gemini API');
+        throw new AnalysisError('Empty response from Gemini API', true);
       }
       
       // Check if response might be truncated
       const trimmedText = analysisText.trim();
       if (!trimmedText.endsWith('}')) {
         console.error('Response appears to be truncated. Last 100 chars:', trimmedText.slice(-100));
-        throw new Error('Incomplete JSON response from Gemini API - response may have been truncated');
+        throw new AnalysisError('Incomplete JSON response from Gemini API - response may have been truncated', true);
       }
       
       // With structured output, Gemini returns valid JSON directly
@@ -345,7 +508,9 @@ Be comprehensive in ad detection but conservative - only mark content as ads if
         endTime: ad.endTime || 0,
         confidence: ad.confidence || 0.8,
         adType: ad.adType || 'embedded',
-        description: `[AUDIO] ${ad.description}`
+        description: `[AUDIO] ${ad.description}`,
+        sponsor: typeof ad.sponsor === 'string' && ad.sponsor.trim() ? ad.sponsor.trim() : undefined,
+        hostRead: typeof ad.hostRead === 'boolean' ? ad.hostRead : undefined
       }));
 
       // Parse chapters from Gemini
@@ -356,9 +521,27 @@ Be comprehensive in ad detection but conservative - only mark content as ads if
         description: chapter.description
       }));
 
+      // Parse transcript segments from Gemini
+      const transcript: TranscriptSegment[] = (parsed.transcript || [])
+        .filter((segment: any) => typeof segment.text === 'string' && segment.text.trim())
+        .map((segment: any) => ({
+          startTime: segment.startTime || 0,
+          endTime: segment.endTime || 0,
+          text: segment.text.trim(),
+          speaker: segment.speaker || undefined,
+          words: Array.isArray(segment.words) && segment.words.length > 0
+            ? segment.words.slice(0, MAX_WORDS_PER_SEGMENT).map((word: any) => ({
+                word: word.word,
+                startTime: word.startTime || 0,
+                endTime: word.endTime || 0
+              }))
+            : undefined
+        }));
+
       return {
         adsDetected,
         chapters,
+        transcript,
       };
     } catch (error) {
       // Log the full response for debugging
@@ -370,26 +553,19 @@ Be comprehensive in ad detection but conservative - only mark content as ads if
       if (error instanceof SyntaxError && error.message.includes('JSON')) {
         // Try to detect HTML error responses
         if (analysisText.includes('<!DOCTYPE') || analysisText.includes('<html')) {
-          throw new Error('Received HTML response instead of JSON - possible API error or rate limit');
+          throw new AnalysisError('Received HTML response instead of JSON - possible API error or rate limit', true);
         }
-        throw new Error(`Failed to parse Gemini audio analysis: ${error.message}`);
+        throw new AnalysisError(`Failed to parse Gemini audio analysis: ${error.message}`, true);
       }
       
-      // Re-throw the error to fail the entire processing job
-      throw new Error(`Failed to parse Gemini audio analysis: ${error instanceof Error ? error.message : String(error)}`);
+      // Re-throw the error so the caller can fall back to another model
+      if (error instanceof AnalysisError) {
+        throw error;
+      }
+      throw new AnalysisError(`Failed to parse Gemini audio analysis: ${error instanceof Error ? error.message : String(error)}`, true);
     }
   }
 
-
-
-
-
-
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
-  }
-
-
   getTotalUsage(): LLMUsage {
     return { ...this.totalUsage };
   }
@@ -0,0 +1,128 @@
+import { AdDetection, Chapter, TranscriptSegment } from '@podcastoor/shared';
+import { AudioChunk } from '../audio/types';
+import { AudioAnalysisResult } from './LLMOrchestrator';
+
+// Ads closer together than this are treated as one continuous break
+const AD_MERGE_GAP_SECONDS = 1;
+
+/**
+ * Combines per-chunk analysis results into one episode-level result.
+ * Chunk timestamps are relative to the chunk, so they are shifted back to
+ * episode time first. Ads seen by two chunks in their shared overlap are merged
+ * into one, and each chapter and transcript segment is kept only by the chunk
+ * that owns its start time.
+ */
+export function stitchChunkResults(
+  chunks: AudioChunk[],
+  results: AudioAnalysisResult[],
+  episodeDuration: number
+): AudioAnalysisResult {
+  const ads: AdDetection[] = [];
+  const chapters: Chapter[] = [];
+  const transcript: TranscriptSegment[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const result = results[index];
+    const previous = chunks[index - 1];
+    const next = chunks[index + 1];
+
+    for (const ad of result.adsDetected) {
+      ads.push({
+        ...ad,
+        startTime: clamp(chunk.startTime + ad.startTime, chunk.startTime, chunk.endTime),
+        endTime: clamp(chunk.startTime + ad.endTime, chunk.startTime, chunk.endTime)
+      });
+    }
+
+    // Split each overlap region down the middle between the two chunks that share it
+    const ownedFrom = previous ? (chunk.startTime + previous.endTime) / 2 : 0;
+    const ownedUntil = next ? (next.startTime + chunk.endTime) / 2 : Infinity;
+
+    for (const chapter of result.chapters) {
+      const startTime = chunk.startTime + chapter.startTime;
+      if (startTime >= ownedFrom && startTime < ownedUntil) {
+        chapters.push({
+          ...chapter,
+          startTime,
+          endTime: chunk.startTime + chapter.endTime
+        });
+      }
+    }
+
+    // Both chunks transcribe the overlap; keep the segments from the owning chunk
+    for (const segment of result.transcript) {
+      const startTime = chunk.startTime + segment.startTime;
+      if (startTime >= ownedFrom && startTime < ownedUntil) {
+        transcript.push({
+          ...segment,
+          startTime,
+          endTime: chunk.startTime + segment.endTime,
+          words: segment.words?.map(word => ({
+            ...word,
+            startTime: chunk.startTime + word.startTime,
+            endTime: chunk.startTime + word.endTime
+          }))
+        });
+      }
+    }
+  });
+
+  return {
+    adsDetected: mergeAds(ads),
+    chapters: mergeChapters(chapters, episodeDuration),
+    transcript: transcript.sort((a, b) => a.startTime - b.startTime)
+  };
+}
+
+function mergeAds(ads: AdDetection[]): AdDetection[] {
+  const sorted = ads
+    .filter(ad => ad.endTime > ad.startTime)
+    .sort((a, b) => a.startTime - b.startTime);
+  const merged: AdDetection[] = [];
+
+  for (const ad of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && ad.startTime <= last.endTime + AD_MERGE_GAP_SECONDS) {
+      last.endTime = Math.max(last.endTime, ad.endTime);
+      if (ad.confidence > last.confidence) {
+        last.confidence = ad.confidence;
+        last.adType = ad.adType;
+        last.description = ad.description;
+        last.sponsor = ad.sponsor ?? last.sponsor;
+        last.hostRead = ad.hostRead ?? last.hostRead;
+      }
+    } else {
+      merged.push({ ...ad });
+    }
+  }
+
+  return merged;
+}
+
+function mergeChapters(chapters: Chapter[], episodeDuration: number): Chapter[] {
+  const sorted = [...chapters].sort((a, b) => a.startTime - b.startTime);
+  const merged: Chapter[] = [];
+
+  for (const chapter of sorted) {
+    const last = merged[merged.length - 1];
+    // A topic running across a chunk boundary comes back as two chapters with the same title
+    if (last && last.title.trim().toLowerCase() === chapter.title.trim().toLowerCase()) {
+      last.endTime = Math.max(last.endTime, chapter.endTime);
+      continue;
+    }
+    merged.push({ ...chapter });
+  }
+
+  // A chapter reported past a chunk boundary must not run into the next one
+  return merged.map((chapter, index) => ({
+    ...chapter,
+    endTime: Math.min(
+      chapter.endTime,
+      index < merged.length - 1 ? merged[index + 1].startTime : episodeDuration
+    )
+  }));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
\ No newline at end of file
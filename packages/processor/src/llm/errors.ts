@@ -0,0 +1,47 @@
+import { PodcastoorError } from '@podcastoor/shared';
+
+/**
+ * An audio analysis failure. Retryable errors are worth another attempt with
+ * the next model in the fallback chain; fatal ones stop the chain because no
+ * model will do better (e.g. the audio file itself is missing).
+ */
+export class AnalysisError extends PodcastoorError {
+  constructor(message: string, public retryable: boolean, details?: any) {
+    super(message, retryable ? 'ANALYSIS_RETRYABLE' : 'ANALYSIS_FATAL', details);
+    this.name = 'AnalysisError';
+  }
+}
+
+const FATAL_FS_CODES = ['ENOENT', 'EACCES', 'EISDIR'];
+
+// Client errors (bad key, unknown model, malformed request) repeat on every
+// attempt; only timeouts, rate limits and server errors are worth retrying
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export function classifyAnalysisError(error: unknown): AnalysisError {
+  if (error instanceof AnalysisError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const code = (error as any)?.code;
+
+  if (typeof code === 'string' && FATAL_FS_CODES.includes(code)) {
+    return new AnalysisError(`Audio file unavailable: ${message}`, false, { code });
+  }
+
+  if (/no audio|unsupported audio|invalid audio/i.test(message)) {
+    return new AnalysisError(message, false);
+  }
+
+  const status = (error as any)?.status;
+  if (typeof status === 'number' && status >= 400) {
+    return new AnalysisError(message, isRetryableStatus(status), { status });
+  }
+
+  // Network failures, timeouts and unparseable responses may succeed with a
+  // different model or provider
+  return new AnalysisError(message, true, { status });
+}
\ No newline at end of file
@@ -1 +1,4 @@
-export { LLMOrchestrator, type LLMConfig, type LLMUsage } from './LLMOrchestrator';
\ No newline at end of file
+export { LLMOrchestrator, type LLMConfig, type LLMUsage, type AnalyzeAudioOptions, type AnalyzeChunksOptions, type AudioAnalysisResult } from './LLMOrchestrator';
+export { createProvider, GeminiProvider, OpenAICompatibleProvider } from './providers';
+export * from './types';
+export { AnalysisError, classifyAnalysisError } from './errors';
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { GoogleGenAI } from "@google/genai";
+import { LLMProviderConfig } from '@podcastoor/shared';
+import { AudioAnalysisProvider, AudioAnalysisRequest, AudioAnalysisResponse } from '../types';
+
+export class GeminiProvider implements AudioAnalysisProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private geminiAI: GoogleGenAI;
+  private pricing?: LLMProviderConfig['pricing'];
+
+  constructor(name: string, config: LLMProviderConfig) {
+    this.name = name;
+    this.defaultModel = config.model;
+    this.pricing = config.pricing;
+    this.geminiAI = new GoogleGenAI({
+      apiKey: config.apiKey,
+      httpOptions: config.baseUrl || config.headers
+        ? { baseUrl: config.baseUrl, headers: config.headers }
+        : undefined
+    });
+  }
+
+  async analyzeAudio(request: AudioAnalysisRequest): Promise<AudioAnalysisResponse> {
+    // Upload audio file to Gemini
+    const uploadedFile = await this.geminiAI.files.upload({
+      file: request.audioPath,
+      config: { mimeType: "audio/mp3" },
+    });
+
+    console.log(`File uploaded: ${uploadedFile.uri}`);
+
+    try {
+      // Generate content using the uploaded file with structured output
+      // Use streaming to handle large responses
+      console.log('Starting Gemini audio analysis with streaming...');
+
+      const streamingResponse = await this.geminiAI.models.generateContentStream({
+        model: request.model,
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { fileData: { mimeType: uploadedFile.mimeType!, fileUri: uploadedFile.uri! } },
+              { text: request.prompt }
+            ]
+          }
+        ],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: request.responseSchema,
+          maxOutputTokens: request.maxOutputTokens,
+          temperature: 0.1,
+          thinkingConfig: {
+            thinkingBudget: 0,
+          }
+        }
+      });
+
+      // Collect all chunks
+      let analysisText = '';
+      let chunkCount = 0;
+      let usageMetadata: any = null;
+
+      for await (const chunk of streamingResponse) {
+        const chunkText = chunk.text;
+        if (chunkText) {
+          analysisText += chunkText;
+          chunkCount++;
+          if (chunkCount % 10 === 0) {
+            console.log(`Received ${chunkCount} chunks, current length: ${analysisText.length}`);
+          }
+        }
+        // Capture usage metadata from the last chunk
+        if (chunk.usageMetadata) {
+          usageMetadata = chunk.usageMetadata;
+        }
+      }
+
+      console.log(`Streaming complete. Total chunks: ${chunkCount}, Total length: ${analysisText.length}`);
+
+      const inputTokens = usageMetadata?.promptTokenCount || 0;
+      const outputTokens = usageMetadata?.candidatesTokenCount || usageMetadata?.totalTokenCount || Math.ceil(analysisText.length / 4);
+
+      return {
+        text: analysisText,
+        model: request.model,
+        inputTokens,
+        outputTokens,
+        cost: this.calculateCost(inputTokens, outputTokens)
+      };
+    } finally {
+      // Clean up uploaded file
+      try {
+        if (uploadedFile.name) {
+          await this.geminiAI.files.delete({
+            name: uploadedFile.name
+          });
+          console.log(`Cleaned up uploaded file: ${uploadedFile.name}`);
+        }
+      } catch (cleanupError) {
+        console.warn(`Failed to cleanup uploaded file: ${cleanupError}`);
+      }
+    }
+  }
+
+  private calculateCost(inputTokens: number, outputTokens: number): number {
+    if (this.pricing) {
+      return (inputTokens / 1_000_000) * this.pricing.inputPerMillion +
+        (outputTokens / 1_000_000) * this.pricing.outputPerMillion;
+    }
+
+    // Gemini 1.5 Flash pricing per 1M tokens (Paid Tier)
+    // For prompts <= 128k tokens: $0.075 input, $0.30 output
+    // For prompts > 128k tokens: $0.15 input, $0.60 output
+    const isLargePrompt = inputTokens > 128_000;
+    const inputRate = isLargePrompt ? 0.15 : 0.075;
+    const outputRate = isLargePrompt ? 0.60 : 0.30;
+
+    const inputCost = (inputTokens / 1_000_000) * inputRate;
+    const outputCost = (outputTokens / 1_000_000) * outputRate;
+
+    console.log(`Initial gemini cost: Input: ${inputCost}, Output: ${outputCost}`)
+
+    return inputCost + outputCost;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+import { LLMProviderConfig } from '@podcastoor/shared';
+import { AudioAnalysisProvider, AudioAnalysisRequest, AudioAnalysisResponse } from '../types';
+import { AnalysisError, isRetryableStatus } from '../errors';
+
+// Analyzing a long chunk can take minutes, but a hung server mustn't hold the job forever
+const DEFAULT_TIMEOUT_SECONDS = 600;
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API with
+ * `input_audio` content parts (OpenAI, OpenRouter, local stand-ins).
+ */
+export class OpenAICompatibleProvider implements AudioAnalysisProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private headers: Record<string, string>;
+  private pricing?: LLMProviderConfig['pricing'];
+  private timeoutMs: number;
+
+  constructor(name: string, config: LLMProviderConfig) {
+    if (!config.baseUrl) {
+      throw new Error(`LLM provider '${name}' requires a baseUrl`);
+    }
+
+    this.name = name;
+    this.defaultModel = config.model;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.headers = config.headers || {};
+    this.pricing = config.pricing;
+    this.timeoutMs = (config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+  }
+
+  async analyzeAudio(request: AudioAnalysisRequest): Promise<AudioAnalysisResponse> {
+    const audioData = await fs.readFile(request.audioPath);
+    const format = extname(request.audioPath).slice(1).toLowerCase() || 'mp3';
+
+    console.log(`Sending audio to ${this.baseUrl}/chat/completions (${request.model})...`);
+
+    const signal = AbortSignal.timeout(this.timeoutMs);
+    let response: Response;
+    let body: string;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+          ...this.headers
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: request.prompt },
+                { type: 'input_audio', input_audio: { data: audioData.toString('base64'), format } }
+              ]
+            }
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'audio_analysis', schema: request.responseSchema }
+          },
+          max_tokens: request.maxOutputTokens,
+          temperature: 0.1
+        }),
+        signal
+      });
+      body = await response.text();
+    } catch (error) {
+      if (signal.aborted) {
+        // Retryable, so the fallback chain moves on to the next model
+        throw new AnalysisError(`${this.name} request timed out after ${this.timeoutMs / 1000}s`, true, { timeout: true });
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      throw new AnalysisError(
+        `${this.name} request failed with status ${response.status}: ${body.substring(0, 500)}`,
+        isRetryableStatus(response.status),
+        { status: response.status }
+      );
+    }
+
+    let completion: any;
+    try {
+      completion = JSON.parse(body);
+    } catch {
+      // Hand the raw body back so the caller can classify it (e.g. an HTML error page)
+      return { text: body, model: request.model, inputTokens: 0, outputTokens: 0, cost: 0 };
+    }
+
+    const inputTokens = completion.usage?.prompt_tokens || 0;
+    const outputTokens = completion.usage?.completion_tokens || 0;
+
+    return {
+      text: completion.choices?.[0]?.message?.content || '',
+      model: completion.model || request.model,
+      inputTokens,
+      outputTokens,
+      cost: this.pricing
+        ? (inputTokens / 1_000_000) * this.pricing.inputPerMillion +
+          (outputTokens / 1_000_000) * this.pricing.outputPerMillion
+        : completion.usage?.cost || 0
+    };
+  }
+}
\ No newline at end of file
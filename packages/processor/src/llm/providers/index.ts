@@ -0,0 +1,18 @@
+import { LLMProviderConfig } from '@podcastoor/shared';
+import { AudioAnalysisProvider } from '../types';
+import { GeminiProvider } from './GeminiProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export function createProvider(name: string, config: LLMProviderConfig): AudioAnalysisProvider {
+  switch (config.type) {
+    case 'gemini':
+      return new GeminiProvider(name, config);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(name, config);
+    default:
+      throw new Error(`Unknown LLM provider type for '${name}': ${(config as any).type}`);
+  }
+}
+
+export { GeminiProvider } from './GeminiProvider';
+export { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
\ No newline at end of file
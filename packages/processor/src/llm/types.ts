@@ -0,0 +1,21 @@
+export interface AudioAnalysisRequest {
+  audioPath: string;
+  model: string;
+  prompt: string;
+  responseSchema: Record<string, any>;
+  maxOutputTokens: number;
+}
+
+export interface AudioAnalysisResponse {
+  text: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface AudioAnalysisProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  analyzeAudio(request: AudioAnalysisRequest): Promise<AudioAnalysisResponse>;
+}
\ No newline at end of file
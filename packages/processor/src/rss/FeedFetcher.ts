@@ -0,0 +1,137 @@
+import { Database, CachedFeed, FeedFailure } from '../database/Database';
+import { EventBus } from '../services/EventBus';
+
+// Backoff between attempts on a failing feed starts at cacheSeconds (at least a minute) and doubles up to an hour
+const MIN_FAILURE_BACKOFF_SECONDS = 60;
+const MAX_FAILURE_BACKOFF_SECONDS = 60 * 60;
+
+export interface FeedFetcherOptions {
+  // How long a cached feed is served before upstream is asked again
+  cacheSeconds: number;
+  timeoutMs: number;
+}
+
+export interface FetchedFeed {
+  body: string;
+  fetchedAt: Date;
+  // True when upstream could not be reached and an older copy is being served
+  stale: boolean;
+}
+
+/**
+ * Fetches upstream RSS feeds through a database cache. Expired copies are
+ * revalidated with If-None-Match/If-Modified-Since, and the last good copy is
+ * served if the publisher is down. Failed fetches are remembered too, so a
+ * feed that is down is retried with backoff rather than on every poll.
+ */
+export class FeedFetcher {
+  private inFlight = new Map<string, Promise<FetchedFeed>>();
+
+  constructor(private db: Database, private options: FeedFetcherOptions, private events?: EventBus) {}
+
+  async fetchFeed(showId: string, feedUrl: string): Promise<FetchedFeed> {
+    // Apps polling the same show at once share one upstream request
+    const pending = this.inFlight.get(showId);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.fetchThroughCache(showId, feedUrl).finally(() => {
+      this.inFlight.delete(showId);
+    });
+    this.inFlight.set(showId, request);
+    return request;
+  }
+
+  private async fetchThroughCache(showId: string, feedUrl: string): Promise<FetchedFeed> {
+    const cached = this.db.getCachedFeed(showId);
+    const usable = cached && cached.feedUrl === feedUrl ? cached : null;
+
+    if (usable && Date.now() - usable.checkedAt.getTime() < this.options.cacheSeconds * 1000) {
+      return { body: usable.body, fetchedAt: usable.fetchedAt, stale: false };
+    }
+
+    const failure = this.db.getFeedFailure(showId);
+    const ongoingFailure = failure && failure.feedUrl === feedUrl ? failure : null;
+
+    // Still backing off from the last failure: answer from what we have without asking upstream
+    if (ongoingFailure && Date.now() < ongoingFailure.retryAt.getTime()) {
+      if (!usable) {
+        throw new Error(`Upstream feed unavailable, retrying after ${ongoingFailure.retryAt.toISOString()}: ${ongoingFailure.lastError}`);
+      }
+      return { body: usable.body, fetchedAt: usable.fetchedAt, stale: true };
+    }
+
+    try {
+      const fetched = await this.revalidate(showId, feedUrl, usable);
+      if (failure && this.db.clearFeedFailure(showId)) {
+        console.log(`✅ Upstream feed for ${showId} recovered after ${failure.failures} failed attempt(s)`);
+      }
+      return fetched;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.recordFailure(showId, feedUrl, message, ongoingFailure);
+
+      if (!usable) {
+        throw error;
+      }
+      console.warn(`⚠️  Upstream feed for ${showId} unavailable, serving copy from ${usable.fetchedAt.toISOString()}: ${message}`);
+      return { body: usable.body, fetchedAt: usable.fetchedAt, stale: true };
+    }
+  }
+
+  private recordFailure(showId: string, feedUrl: string, message: string, ongoing: FeedFailure | null): void {
+    const now = Date.now();
+    const failures = (ongoing?.failures ?? 0) + 1;
+    const baseSeconds = Math.max(this.options.cacheSeconds, MIN_FAILURE_BACKOFF_SECONDS);
+    const backoffSeconds = Math.min(baseSeconds * 2 ** (failures - 1), MAX_FAILURE_BACKOFF_SECONDS);
+
+    this.db.saveFeedFailure({
+      showId,
+      feedUrl,
+      failures,
+      lastError: message,
+      failedAt: ongoing?.failedAt ?? new Date(now),
+      retryAt: new Date(now + backoffSeconds * 1000)
+    });
+
+    // Announced once per outage rather than on every failed retry
+    if (!ongoing) {
+      this.events?.publish({ type: 'feed.fetch_failed', showId, feedUrl, error: message });
+    }
+  }
+
+  private async revalidate(showId: string, feedUrl: string, cached: CachedFeed | null): Promise<FetchedFeed> {
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    const response = await fetch(feedUrl, {
+      headers,
+      signal: AbortSignal.timeout(this.options.timeoutMs)
+    });
+    const now = new Date();
+
+    if (response.status === 304 && cached) {
+      this.db.markCachedFeedChecked(showId, now);
+      return { body: cached.body, fetchedAt: cached.fetchedAt, stale: false };
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch RSS feed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.text();
+    this.db.saveCachedFeed({
+      showId,
+      feedUrl,
+      body,
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+      fetchedAt: now,
+      checkedAt: now
+    });
+
+    return { body, fetchedAt: now, stale: false };
+  }
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { XMLBuilder } from 'fast-xml-parser';
 import { ProcessedEpisode, Chapter } from '@podcastoor/shared';
 import { FeedMetadata } from './RSSProcessor';
+import { JSON_CHAPTERS_CONTENT_TYPE } from './chapters';
 
 export class FeedGenerator {
   private builder: XMLBuilder;
@@ -72,8 +73,8 @@ export class FeedGenerator {
       pubDate: episode.publishDate.toUTCString(),
       enclosure: {
         '@_url': episode.processedAudioUrl,
-        '@_type': 'audio/mpeg',
-        '@_length': '0' // Would need file size, but not critical
+        '@_type': episode.enclosureType || 'audio/mpeg',
+        '@_length': String(episode.enclosureLength ?? 0)
       },
       'itunes:title': episode.title,
       'itunes:subtitle': this.truncateText(episode.description, 255),
@@ -86,38 +87,31 @@ export class FeedGenerator {
     // Add chapter information
     this.addChapterTags(item, episode);
 
+    // Add transcripts
+    this.addTranscriptTags(item, episode);
+
     return item;
   }
 
   private addChapterTags(item: any, episode: ProcessedEpisode): void {
-    if (episode.chapters.length === 0) return;
-
-    // Add podcast namespace chapters
-    const chaptersData = {
-      version: '1.2.0',
-      chapters: episode.chapters.map(ch => ({
-        startTime: ch.startTime,
-        title: ch.title,
-        img: undefined,
-        url: undefined,
-        toc: true,
-        endTime: ch.endTime
-      }))
-    };
+    if (episode.chapters.length === 0 || !episode.chaptersUrl) return;
 
+    // Podcast namespace chapters, served as a hosted JSON chapters file
     item['podcast:chapters'] = {
-      '@_url': `data:application/json+chapters,${encodeURIComponent(JSON.stringify(chaptersData))}`
+      '@_url': episode.chaptersUrl,
+      '@_type': JSON_CHAPTERS_CONTENT_TYPE
     };
+  }
 
-    // Also add simple chapter markers in description for older players
-    const chapterMarkers = episode.chapters.map(ch => 
-      `${this.formatTime(ch.startTime)} - ${ch.title}`
-    ).join('\n');
+  private addTranscriptTags(item: any, episode: ProcessedEpisode): void {
+    if (!episode.transcripts || episode.transcripts.length === 0) return;
 
-    item['podcast:transcript'] = {
-      '@_url': `data:text/plain,${encodeURIComponent(chapterMarkers)}`,
-      '@_type': 'text/plain'
-    };
+    item['podcast:transcript'] = episode.transcripts.map(transcript => ({
+      '@_url': transcript.url,
+      '@_type': transcript.type,
+      '@_language': transcript.language,
+      '@_rel': transcript.rel
+    }));
   }
 
   private formatContentEncoded(episode: ProcessedEpisode): string {
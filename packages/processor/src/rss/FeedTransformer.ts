@@ -0,0 +1,318 @@
+import { XMLParser, XMLBuilder } from 'fast-xml-parser';
+import { Chapter, EpisodeTranscript } from '@podcastoor/shared';
+import { JSON_CHAPTERS_CONTENT_TYPE } from './chapters';
+
+export interface ProcessedItemDetails {
+  originalDuration: number;
+  processedDuration: number;
+  adsRemoved: number;
+  enclosureLength: number;
+  enclosureType: string;
+  chapters: Chapter[];
+  chaptersUrl: string;
+  transcripts: EpisodeTranscript[];
+}
+
+export interface FeedItemRewrite {
+  audioUrl: string;
+  processed?: ProcessedItemDetails;
+}
+
+// full: "(3 ads removed, 1:20 saved)", short: "(ad-free)", none: titles are left as upstream wrote them
+export type TitleSuffixStyle = 'full' | 'short' | 'none';
+
+// Which chapter tags processed items carry: Podcast 2.0 (JSON file), Podlove Simple Chapters, both or neither
+export type ChapterFormat = 'all' | 'podcast' | 'psc' | 'none';
+
+export interface FeedTransformOptions {
+  // Where the transformed feed is served
+  feedUrl: string;
+  // Upstream feed URL, used to key items without a <guid> the same way RSSProcessor does
+  sourceUrl: string;
+  // Rewrites keyed by upstream episode GUID
+  items: Map<string, FeedItemRewrite>;
+  titleSuffix?: TitleSuffixStyle; // Defaults to 'full'
+  chapterFormat?: ChapterFormat; // Defaults to 'all'
+}
+
+// preserveOrder turns every element into { tagName: children, ':@': attributes }
+type XmlNode = Record<string, any>;
+
+const ATTRIBUTES = ':@';
+const TEXT = '#text';
+const CDATA = '__cdata';
+
+const NAMESPACES: Record<string, string> = {
+  itunes: 'http://www.itunes.com/dtds/podcast-1.0.dtd',
+  podcast: 'https://podcastindex.org/namespace/1.0',
+  psc: 'http://podlove.org/simple-chapters'
+};
+
+/**
+ * Rewrites an upstream RSS feed so it points at processed audio. The feed is
+ * parsed with element order, whitespace, CDATA and comments preserved, so
+ * anything we don't touch (unknown namespaces included) is serialized as-is.
+ */
+export class FeedTransformer {
+  private parser: XMLParser;
+  private builder: XMLBuilder;
+
+  constructor() {
+    const options = {
+      preserveOrder: true,
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      textNodeName: TEXT,
+      cdataPropName: CDATA,
+      commentPropName: '#comment',
+      parseTagValue: false,
+      parseAttributeValue: false,
+      trimValues: false,
+      processEntities: true,
+      htmlEntities: true
+    };
+
+    this.parser = new XMLParser(options);
+    this.builder = new XMLBuilder({ ...options, suppressEmptyNode: true });
+  }
+
+  transform(xml: string, options: FeedTransformOptions): string {
+    const document: XmlNode[] = this.parser.parse(xml);
+    const rss = document.find(node => tagName(node) === 'rss');
+    const channel = rss && findChild(rss.rss, 'channel');
+
+    if (!rss || !channel) {
+      throw new Error('Upstream feed is not an RSS 2.0 document');
+    }
+
+    const titleSuffix = options.titleSuffix ?? 'full';
+    const chapterFormat = options.chapterFormat ?? 'all';
+
+    this.rewriteChannel(channel.channel, options.feedUrl, titleSuffix);
+
+    const items = findChildren(channel.channel, 'item');
+    items.forEach((item, index) => {
+      const guidNode = findChild(item.item, 'guid');
+      const guid = guidNode ? textOf(guidNode.guid).trim() : `${options.sourceUrl}-${index}`;
+      const rewrite = options.items.get(guid);
+
+      if (rewrite) {
+        this.rewriteItem(item.item, guid, rewrite, titleSuffix, chapterFormat);
+      }
+    });
+
+    // Make sure the namespaces used by the injected tags are declared
+    rss[ATTRIBUTES] = rss[ATTRIBUTES] || {};
+    for (const [prefix, uri] of Object.entries(NAMESPACES)) {
+      rss[ATTRIBUTES][`@_xmlns:${prefix}`] = rss[ATTRIBUTES][`@_xmlns:${prefix}`] || uri;
+    }
+
+    // The builder drops the line break between the XML declaration and the root element
+    return this.builder.build(document).replace(/^(<\?xml[^>]*\?>)(?=<)/, '$1\n');
+  }
+
+  private rewriteChannel(channel: XmlNode[], feedUrl: string, titleSuffix: TitleSuffixStyle): void {
+    const title = findChild(channel, 'title');
+    if (title && titleSuffix !== 'none') {
+      setText(title, 'title', `${textOf(title.title)} (Podcastoor)`);
+    }
+
+    const link = findChild(channel, 'link');
+    if (link) {
+      setText(link, 'link', feedUrl);
+    }
+
+    for (const atomLink of findChildren(channel, 'atom:link')) {
+      if (atomLink[ATTRIBUTES]?.['@_rel'] === 'self') {
+        atomLink[ATTRIBUTES]['@_href'] = feedUrl;
+      }
+    }
+
+    // Apps follow itunes:new-feed-url permanently, which would move subscribers back upstream
+    removeChildren(channel, 'itunes:new-feed-url');
+  }
+
+  private rewriteItem(
+    item: XmlNode[],
+    guid: string,
+    rewrite: FeedItemRewrite,
+    titleSuffix: TitleSuffixStyle,
+    chapterFormat: ChapterFormat
+  ): void {
+    const { processed } = rewrite;
+
+    const enclosure = findChild(item, 'enclosure');
+    if (enclosure) {
+      const attributes = enclosure[ATTRIBUTES] = enclosure[ATTRIBUTES] || {};
+      attributes['@_url'] = rewrite.audioUrl;
+      attributes['@_type'] = processed?.enclosureType || attributes['@_type'] || 'audio/mpeg';
+      if (processed) {
+        attributes['@_length'] = String(processed.enclosureLength);
+      } else if (!attributes['@_length']) {
+        // length is required; RSS best practice is 0 when the size isn't known
+        attributes['@_length'] = '0';
+      }
+    }
+
+    const mediaContents = [
+      ...findChildren(item, 'media:content'),
+      ...findChildren(item, 'media:group').flatMap(group => findChildren(group['media:group'], 'media:content'))
+    ];
+    for (const mediaContent of mediaContents) {
+      const attributes = mediaContent[ATTRIBUTES] || {};
+      if (String(attributes['@_type'] || '').startsWith('audio') || attributes['@_medium'] === 'audio') {
+        attributes['@_url'] = rewrite.audioUrl;
+      }
+    }
+
+    // Give the item a GUID of its own so apps don't merge it with the upstream episode
+    const guidNode = findChild(item, 'guid');
+    if (guidNode) {
+      setText(guidNode, 'guid', `podcastoor-${guid}`);
+      guidNode[ATTRIBUTES] = { ...guidNode[ATTRIBUTES], '@_isPermaLink': 'false' };
+    } else {
+      appendChild(item, element('guid', { isPermaLink: 'false' }, `podcastoor-${guid}`));
+    }
+
+    if (!processed) {
+      return;
+    }
+
+    const duration = findChild(item, 'itunes:duration');
+    if (duration) {
+      setText(duration, 'itunes:duration', String(Math.round(processed.processedDuration)));
+    } else {
+      appendChild(item, element('itunes:duration', {}, String(Math.round(processed.processedDuration))));
+    }
+
+    if (processed.adsRemoved > 0) {
+      const timeString = formatTimeSaved(processed.originalDuration - processed.processedDuration);
+      const adsRemoved = `${processed.adsRemoved} ${processed.adsRemoved === 1 ? 'ad' : 'ads'}`;
+
+      const title = findChild(item, 'title');
+      if (title && titleSuffix !== 'none') {
+        const suffix = titleSuffix === 'short' ? 'ad-free' : `${adsRemoved} removed, ${timeString} saved`;
+        setText(title, 'title', `${textOf(title.title)} (${suffix})`);
+      }
+
+      const adNote = `<p><strong>Ad-Free Version</strong> - ${adsRemoved} removed, ${timeString} saved.</p>`;
+      const description = findChild(item, 'description');
+      if (description) {
+        setText(description, 'description', `${adNote}${textOf(description.description)}`);
+      } else {
+        appendChild(item, { description: [{ [CDATA]: [{ [TEXT]: adNote }] }] });
+      }
+    }
+
+    // Upstream chapters and transcripts are timed against the original audio
+    removeChildren(item, 'podcast:chapters');
+    removeChildren(item, 'psc:chapters');
+    removeChildren(item, 'podcast:transcript');
+
+    if (processed.chapters.length > 0 && (chapterFormat === 'all' || chapterFormat === 'podcast')) {
+      // Podcast 2.0 chapters point at the hosted JSON chapters file
+      appendChild(item, element('podcast:chapters', { url: processed.chaptersUrl, type: JSON_CHAPTERS_CONTENT_TYPE }));
+    }
+
+    if (processed.chapters.length > 0 && (chapterFormat === 'all' || chapterFormat === 'psc')) {
+      // Podlove Simple Chapters are inlined, for apps without Podcast 2.0 support
+      appendChild(item, {
+        'psc:chapters': processed.chapters.map(ch =>
+          element('psc:chapter', { start: formatTimeForPSC(ch.startTime), title: ch.title })
+        ),
+        [ATTRIBUTES]: { '@_version': '1.2' }
+      });
+    }
+
+    for (const transcript of processed.transcripts) {
+      appendChild(item, element('podcast:transcript', {
+        url: transcript.url,
+        type: transcript.type,
+        language: transcript.language,
+        rel: transcript.rel
+      }));
+    }
+  }
+}
+
+function tagName(node: XmlNode): string | undefined {
+  return Object.keys(node).find(key => key !== ATTRIBUTES);
+}
+
+function findChild(children: XmlNode[], name: string): XmlNode | undefined {
+  return children.find(node => tagName(node) === name);
+}
+
+function findChildren(children: XmlNode[], name: string): XmlNode[] {
+  return children.filter(node => tagName(node) === name);
+}
+
+function removeChildren(children: XmlNode[], name: string): void {
+  for (let i = children.length - 1; i >= 0; i--) {
+    if (tagName(children[i]) === name) {
+      children.splice(i, 1);
+      // Drop the indentation that preceded the removed element
+      if (i > 0 && isWhitespace(children[i - 1])) {
+        children.splice(i - 1, 1);
+      }
+    }
+  }
+}
+
+function isWhitespace(node: XmlNode | undefined): boolean {
+  return !!node && tagName(node) === TEXT && String(node[TEXT]).trim() === '';
+}
+
+/**
+ * Appends before the closing whitespace of the parent, reusing the indentation
+ * of the existing children so the serialized feed stays readable.
+ */
+function appendChild(children: XmlNode[], node: XmlNode): void {
+  const last = children[children.length - 1];
+  if (!isWhitespace(last)) {
+    children.push(node);
+    return;
+  }
+
+  const indent = [...children].reverse().find((child, index) => index > 0 && isWhitespace(child));
+  children.splice(children.length - 1, 0, ...(indent ? [{ [TEXT]: indent[TEXT] }] : []), node);
+}
+
+function element(name: string, attributes: Record<string, string | undefined>, text?: string): XmlNode {
+  const node: XmlNode = { [name]: text === undefined ? [] : [{ [TEXT]: text }] };
+  const definedAttributes = Object.entries(attributes).filter(([, value]) => value !== undefined);
+  if (definedAttributes.length > 0) {
+    node[ATTRIBUTES] = Object.fromEntries(definedAttributes.map(([key, value]) => [`@_${key}`, value]));
+  }
+  return node;
+}
+
+// Text content of an element, whether it was written as plain text or CDATA
+function textOf(children: XmlNode[]): string {
+  return children.map(child => {
+    if (TEXT in child) return String(child[TEXT]);
+    if (CDATA in child) return textOf(child[CDATA]);
+    return '';
+  }).join('');
+}
+
+// Replaces an element's text, keeping CDATA if the upstream feed used it
+function setText(node: XmlNode, name: string, text: string): void {
+  const usedCdata = (node[name] as XmlNode[]).some(child => CDATA in child);
+  node[name] = usedCdata ? [{ [CDATA]: [{ [TEXT]: text }] }] : [{ [TEXT]: text }];
+}
+
+function formatTimeSaved(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}:${secs.toString().padStart(2, '0')}` : `0:${secs}`;
+}
+
+function formatTimeForPSC(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const ms = Math.round((seconds % 1) * 1000);
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+}
\ No newline at end of file
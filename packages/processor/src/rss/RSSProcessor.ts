@@ -1,6 +1,7 @@
 import Parser from 'rss-parser';
 import { XMLBuilder } from 'fast-xml-parser';
 import { ProcessingResult, Chapter, AdDetection, Episode, ProcessedEpisode } from '@podcastoor/shared';
+import { buildChaptersUrl, JSON_CHAPTERS_CONTENT_TYPE } from './chapters';
 
 export interface ParsedFeed {
   title: string;
@@ -126,7 +127,7 @@ export class RSSProcessor {
     return newEpisodes;
   }
 
-  async generateProcessedFeed(original: ParsedFeed, results: ProcessingResult[]): Promise<string> {
+  async generateProcessedFeed(original: ParsedFeed, results: ProcessingResult[], publicUrl?: string): Promise<string> {
     console.log(`Generating processed RSS feed for ${results.length} episodes`);
     
     try {
@@ -144,7 +145,10 @@ export class RSSProcessor {
           return {
             ...episode,
             processedAudioUrl: processed.processedUrl,
+            enclosureLength: processed.processedFileSize,
+            enclosureType: processed.processedContentType,
             chapters: processed.chapters,
+            chaptersUrl: publicUrl ? buildChaptersUrl(publicUrl, episode.guid) : undefined,
             adsRemoved: processed.adsRemoved,
             enhancedDescription: this.enhanceEpisodeDescription(episode, processed)
           };
@@ -304,23 +308,17 @@ export class RSSProcessor {
       pubDate: episode.publishDate.toUTCString(),
       enclosure: {
         '@_url': episode.processedAudioUrl,
-        '@_type': 'audio/mpeg'
+        '@_type': episode.enclosureType || 'audio/mpeg',
+        '@_length': episode.enclosureLength !== undefined ? String(episode.enclosureLength) : undefined
       },
       'itunes:duration': this.formatDuration(episode.duration)
     };
 
     // Add chapter information using podcast namespace
-    if (episode.chapters.length > 0) {
+    if (episode.chapters.length > 0 && episode.chaptersUrl) {
       item['podcast:chapters'] = {
-        '@_url': `data:application/json+chapters,${encodeURIComponent(JSON.stringify({
-          version: '1.2.0',
-          chapters: episode.chapters.map(ch => ({
-            startTime: ch.startTime,
-            title: ch.title,
-            img: undefined,
-            url: undefined
-          }))
-        }))}`
+        '@_url': episode.chaptersUrl,
+        '@_type': JSON_CHAPTERS_CONTENT_TYPE
       };
     }
 
@@ -0,0 +1,34 @@
+import { Chapter } from '@podcastoor/shared';
+
+export const JSON_CHAPTERS_CONTENT_TYPE = 'application/json+chapters';
+
+export interface JsonChaptersMetadata {
+  title?: string;
+  podcastName?: string;
+  fileName?: string;
+}
+
+/**
+ * Builds a JSON Chapters 1.2 document
+ * (https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/examples/chapters/jsonChapters.md).
+ */
+export function buildJsonChapters(chapters: Chapter[], metadata: JsonChaptersMetadata = {}): object {
+  return {
+    version: '1.2.0',
+    title: metadata.title,
+    podcastName: metadata.podcastName,
+    fileName: metadata.fileName,
+    chapters: chapters.map(ch => ({
+      startTime: Math.round(ch.startTime * 1000) / 1000,
+      endTime: Math.round(ch.endTime * 1000) / 1000,
+      title: ch.title,
+      img: ch.img,
+      url: ch.url
+    }))
+  };
+}
+
+// A private feed's chapters URL carries its token, like its audio URLs
+export function buildChaptersUrl(publicUrl: string, episodeGuid: string, token?: string): string {
+  return `${publicUrl}/chapters/${token ? `${token}/` : ''}${encodeURIComponent(episodeGuid)}.json`;
+}
\ No newline at end of file
@@ -1,3 +1,7 @@
 export { RSSProcessor, type ParsedFeed, type FeedMetadata, type ValidationResult } from './RSSProcessor';
 export { FeedGenerator } from './FeedGenerator';
-export * from './types';
\ No newline at end of file
+export * from './types';
+export { buildJsonChapters, buildChaptersUrl, JSON_CHAPTERS_CONTENT_TYPE, type JsonChaptersMetadata } from './chapters';
+export { FeedTransformer, type FeedTransformOptions, type FeedItemRewrite, type ProcessedItemDetails, type TitleSuffixStyle, type ChapterFormat } from './FeedTransformer';
+export { FeedFetcher, type FeedFetcherOptions, type FetchedFeed } from './FeedFetcher';
+export { parseOpml, buildOpml, OPML_CONTENT_TYPE, type OpmlOutline } from './opml';
\ No newline at end of file
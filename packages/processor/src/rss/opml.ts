@@ -0,0 +1,81 @@
+import { XMLParser, XMLBuilder } from 'fast-xml-parser';
+import { PodcastoorError } from '@podcastoor/shared';
+
+export const OPML_CONTENT_TYPE = 'text/x-opml';
+
+export interface OpmlOutline {
+  title: string;
+  xmlUrl: string;
+  htmlUrl?: string;
+}
+
+/**
+ * Collects every feed outline in an OPML document. Apps nest feeds inside
+ * category outlines to any depth, so the whole tree is walked.
+ */
+export function parseOpml(xml: string): OpmlOutline[] {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    isArray: name => name === 'outline'
+  });
+
+  let document: any;
+  try {
+    document = parser.parse(xml);
+  } catch (error) {
+    throw new PodcastoorError(`Invalid OPML: ${error instanceof Error ? error.message : String(error)}`, 'INVALID_OPML');
+  }
+
+  const body = document?.opml?.body;
+  if (!body) {
+    throw new PodcastoorError('Invalid OPML: missing <opml><body>', 'INVALID_OPML');
+  }
+
+  const outlines: OpmlOutline[] = [];
+  const walk = (nodes: any[] = []) => {
+    for (const node of nodes) {
+      const xmlUrl = node['@_xmlUrl'] ?? node['@_xmlurl'];
+      if (typeof xmlUrl === 'string' && xmlUrl.trim()) {
+        outlines.push({
+          title: String(node['@_title'] ?? node['@_text'] ?? '').trim(),
+          xmlUrl: xmlUrl.trim(),
+          htmlUrl: node['@_htmlUrl'] || undefined
+        });
+      }
+      walk(node.outline);
+    }
+  };
+  walk(body.outline);
+
+  return outlines;
+}
+
+export function buildOpml(title: string, outlines: OpmlOutline[]): string {
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    format: true,
+    indentBy: '  ',
+    suppressEmptyNode: true
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' + builder.build({
+    opml: {
+      '@_version': '2.0',
+      head: {
+        title,
+        dateCreated: new Date().toUTCString()
+      },
+      body: {
+        outline: outlines.map(outline => ({
+          '@_type': 'rss',
+          '@_text': outline.title,
+          '@_title': outline.title,
+          '@_xmlUrl': outline.xmlUrl,
+          '@_htmlUrl': outline.htmlUrl
+        }))
+      }
+    }
+  });
+}
\ No newline at end of file
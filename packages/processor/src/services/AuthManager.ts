@@ -0,0 +1,80 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { Database, FeedToken } from '../database/Database';
+import { ConfigManager } from '../config/ConfigManager';
+
+// Writing last_used_at on every audio range request would be wasteful
+const TOKEN_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface AdminSession {
+  token: string;
+  expiresAt: Date;
+}
+
+const hash = (value: string) => createHash('sha256').update(value).digest();
+
+// Comparing fixed-length digests keeps the comparison time independent of the input
+function secretsMatch(candidate: string, secret: string): boolean {
+  return timingSafeEqual(hash(candidate), hash(secret));
+}
+
+function generateToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Admin authentication (password sessions for the web UI, API keys for
+ * scripts) and the per-user tokens that make feed URLs private. Auth is off
+ * until a password or API key is configured.
+ */
+export class AuthManager {
+  constructor(
+    private db: Database,
+    private config: ConfigManager
+  ) {}
+
+  isEnabled(): boolean {
+    return this.config.getAuthConfig().enabled;
+  }
+
+  verifyApiKey(key: string): boolean {
+    return this.config.getAuthConfig().apiKeys.some(apiKey => secretsMatch(key, apiKey));
+  }
+
+  // Returns null when the password is wrong or password login isn't configured
+  login(password: string): AdminSession | null {
+    const { adminPassword, sessionHours } = this.config.getAuthConfig();
+    if (!adminPassword || !secretsMatch(password, adminPassword)) {
+      return null;
+    }
+
+    this.db.deleteExpiredAdminSessions();
+
+    const session = {
+      token: generateToken(),
+      expiresAt: new Date(Date.now() + sessionHours * 60 * 60 * 1000)
+    };
+    this.db.createAdminSession(hash(session.token).toString('hex'), session.expiresAt);
+    return session;
+  }
+
+  verifySession(token: string): boolean {
+    return this.db.hasAdminSession(hash(token).toString('hex'));
+  }
+
+  logout(token: string): void {
+    this.db.deleteAdminSession(hash(token).toString('hex'));
+  }
+
+  createFeedToken(userId: number, label?: string): FeedToken {
+    return this.db.createFeedToken(userId, generateToken(), label);
+  }
+
+  // Looks up a token from a feed or audio URL; revoked and unknown tokens give null
+  resolveFeedToken(token: string): FeedToken | null {
+    const feedToken = this.db.getActiveFeedToken(token);
+    if (feedToken && (!feedToken.lastUsedAt || Date.now() - feedToken.lastUsedAt.getTime() > TOKEN_TOUCH_INTERVAL_MS)) {
+      this.db.touchFeedToken(feedToken.id);
+    }
+    return feedToken;
+  }
+}
\ No newline at end of file
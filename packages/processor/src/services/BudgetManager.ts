@@ -0,0 +1,203 @@
+import { BudgetStatus, BudgetWindowStatus } from '@podcastoor/shared';
+import { Database } from '../database/Database';
+import { ConfigManager } from '../config/ConfigManager';
+
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+  retryAt?: Date; // When the window blocking the job resets
+  permanent?: boolean; // The job's estimate alone is bigger than a cap, so it can never run
+}
+
+interface BudgetWindow {
+  name: 'daily' | 'monthly';
+  limit: number;
+  start: Date;
+  resetsAt: Date;
+}
+
+interface Reservation {
+  showId: string;
+  estimate: number;
+  // Ledger position when this attempt started; earlier attempts' spend isn't part of its estimate
+  afterCostId: number;
+}
+
+/**
+ * Enforces the daily and monthly LLM spending caps from the budget config,
+ * globally and per podcast. Spend comes from the llm_costs ledger; jobs that
+ * are running also reserve the rest of their estimated cost, so concurrent
+ * jobs can't overshoot a cap together. Windows follow UTC days and calendar months.
+ */
+export class BudgetManager {
+  private reservations: Map<number, Reservation> = new Map();
+
+  constructor(
+    private db: Database,
+    private config: ConfigManager
+  ) {}
+
+  isEnabled(): boolean {
+    const budget = this.config.getBudgetConfig();
+    return budget.dailyLimit !== undefined
+      || budget.monthlyLimit !== undefined
+      || Object.values(budget.podcasts).some(caps => caps.dailyLimit !== undefined || caps.monthlyLimit !== undefined);
+  }
+
+  getEstimatedCostPerMinute(): number {
+    return this.config.getBudgetConfig().estimatedCostPerMinute ?? this.db.getAverageCostPerMinute() ?? 0;
+  }
+
+  estimateJobCost(durationSeconds: number): number {
+    return (durationSeconds / 60) * this.getEstimatedCostPerMinute();
+  }
+
+  /**
+   * Which jobs shouldn't even be claimed right now. Only applies when holding:
+   * in skip mode every job is claimed so that it can be failed explicitly.
+   */
+  getQueueRestrictions(): { paused: boolean; excludeShowIds: string[] } {
+    const budget = this.config.getBudgetConfig();
+    if (budget.onLimit !== 'hold' || !this.isEnabled()) {
+      return { paused: false, excludeShowIds: [] };
+    }
+
+    const now = new Date();
+    const paused = this.getWindows(budget, now).some(window => this.getSpent(window.start) >= window.limit);
+    const excludeShowIds = Object.entries(budget.podcasts)
+      .filter(([showId, caps]) => this.getWindows(caps, now).some(window => this.getSpent(window.start, showId) >= window.limit))
+      .map(([showId]) => showId);
+
+    return { paused, excludeShowIds };
+  }
+
+  /**
+   * Decides whether a job may start given its estimated cost. An allowed job
+   * holds a reservation until release() is called.
+   */
+  checkJob(jobId: number, showId: string, durationSeconds: number): BudgetCheck {
+    if (!this.isEnabled()) {
+      return { allowed: true };
+    }
+
+    const budget = this.config.getBudgetConfig();
+    const estimate = this.estimateJobCost(durationSeconds);
+    const now = new Date();
+    const scopes = [
+      { label: 'Global', showId: undefined, windows: this.getWindows(budget, now) },
+      { label: `Podcast ${showId}`, showId, windows: this.getWindows(budget.podcasts[showId] ?? {}, now) }
+    ];
+
+    let blocked: BudgetCheck | undefined;
+
+    for (const scope of scopes) {
+      for (const window of scope.windows) {
+        const spent = this.getSpent(window.start, scope.showId);
+        if (spent < window.limit && spent + estimate <= window.limit) continue;
+
+        const permanent = estimate > window.limit;
+        const check: BudgetCheck = {
+          allowed: false,
+          reason: permanent
+            ? `Job estimated at $${estimate.toFixed(2)} exceeds the ${scope.label.toLowerCase()} ${window.name} budget of $${window.limit.toFixed(2)}`
+            : `${scope.label} ${window.name} budget reached: $${spent.toFixed(2)} of $${window.limit.toFixed(2)} spent, job estimated at $${estimate.toFixed(2)}`,
+          retryAt: window.resetsAt,
+          permanent
+        };
+
+        // A cap the job can never fit under wins; otherwise wait for the window that resets last
+        if (check.permanent) return check;
+        if (!blocked || window.resetsAt > blocked.retryAt!) {
+          blocked = check;
+        }
+      }
+    }
+
+    if (blocked) return blocked;
+
+    this.reservations.set(jobId, { showId, estimate, afterCostId: this.db.getLastLLMCostId() });
+    return { allowed: true };
+  }
+
+  release(jobId: number): void {
+    this.reservations.delete(jobId);
+  }
+
+  getStatus(): BudgetStatus {
+    const budget = this.config.getBudgetConfig();
+    const now = new Date();
+
+    const toStatus = (window: BudgetWindow, showId?: string): BudgetWindowStatus => {
+      const spent = this.getSpent(window.start, showId);
+      return {
+        limit: window.limit,
+        spent,
+        remaining: Math.max(0, window.limit - spent),
+        exceeded: spent >= window.limit,
+        resetsAt: window.resetsAt.toISOString()
+      };
+    };
+
+    const summarize = (caps: { dailyLimit?: number; monthlyLimit?: number }, showId?: string) => {
+      const result: { daily?: BudgetWindowStatus; monthly?: BudgetWindowStatus } = {};
+      for (const window of this.getWindows(caps, now)) {
+        result[window.name] = toStatus(window, showId);
+      }
+      return result;
+    };
+
+    const global = summarize(budget);
+
+    return {
+      enabled: this.isEnabled(),
+      onLimit: budget.onLimit,
+      paused: budget.onLimit === 'hold' && Boolean(global.daily?.exceeded || global.monthly?.exceeded),
+      heldJobs: this.db.countHeldJobs(),
+      estimatedCostPerMinute: this.getEstimatedCostPerMinute(),
+      ...global,
+      podcasts: Object.entries(budget.podcasts).map(([podcastId, caps]) => ({
+        podcastId,
+        ...summarize(caps, podcastId)
+      }))
+    };
+  }
+
+  // Recorded spend plus what running jobs are expected to add on top of what this attempt has already recorded
+  private getSpent(since: Date, showId?: string): number {
+    let reserved = 0;
+    for (const [jobId, reservation] of this.reservations) {
+      if (!showId || reservation.showId === showId) {
+        reserved += Math.max(0, reservation.estimate - this.db.getJobLLMCostAfter(jobId, reservation.afterCostId));
+      }
+    }
+
+    return this.db.getLLMSpendSince(since, showId) + reserved;
+  }
+
+  private getWindows(caps: { dailyLimit?: number; monthlyLimit?: number }, now: Date): BudgetWindow[] {
+    const windows: BudgetWindow[] = [];
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth();
+    const day = now.getUTCDate();
+
+    if (caps.dailyLimit !== undefined) {
+      windows.push({
+        name: 'daily',
+        limit: caps.dailyLimit,
+        start: new Date(Date.UTC(year, month, day)),
+        resetsAt: new Date(Date.UTC(year, month, day + 1))
+      });
+    }
+
+    if (caps.monthlyLimit !== undefined) {
+      windows.push({
+        name: 'monthly',
+        limit: caps.monthlyLimit,
+        start: new Date(Date.UTC(year, month, 1)),
+        resetsAt: new Date(Date.UTC(year, month + 1, 1))
+      });
+    }
+
+    return windows;
+  }
+}
\ No newline at end of file
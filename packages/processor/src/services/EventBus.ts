@@ -0,0 +1,40 @@
+import { EventEmitter } from 'events';
+import { ServerEvent } from '@podcastoor/shared';
+
+export type ServerEventListener = (event: ServerEvent) => void;
+
+/**
+ * In-process fan-out of job, episode and config events to SSE clients.
+ * Publishing never throws: a failing listener is logged and skipped so it
+ * can't break the job that emitted the event.
+ */
+export class EventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per connected browser tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: ServerEvent): void {
+    for (const listener of this.emitter.listeners('event') as ServerEventListener[]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Event listener failed for ${event.type}:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: ServerEventListener): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  listenerCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { PodcastConfig, PodcastConfigSchema } from '@podcastoor/shared';
+import { ConfigManager, PODCAST_ID_PATTERN, slugify } from '../config/ConfigManager';
+import { parseOpml, OpmlOutline } from '../rss/opml';
+
+export interface OpmlImportOptions {
+  dryRun?: boolean;
+  // What to do with a feed that is already configured: leave it alone, or take the OPML title and re-enable it
+  onConflict?: 'skip' | 'update';
+}
+
+export interface OpmlImportEntry {
+  title: string;
+  rssUrl: string;
+  id?: string;
+  status: 'added' | 'would-add' | 'updated' | 'would-update' | 'conflict' | 'duplicate' | 'invalid';
+  existingId?: string;
+  error?: string;
+}
+
+export interface OpmlImportReport {
+  dryRun: boolean;
+  onConflict: 'skip' | 'update';
+  entries: OpmlImportEntry[];
+  added: PodcastConfig[];
+  updated: number;
+  conflicts: number;
+  invalid: number;
+}
+
+/**
+ * Turns the feeds in an OPML file into podcast config entries. Feeds are
+ * matched to existing podcasts by rssUrl; ids are slugs of the outline
+ * titles, suffixed when taken. New podcasts are written in one config edit.
+ */
+export class OpmlImporter {
+  constructor(private config: ConfigManager) {}
+
+  async run(xml: string, options: OpmlImportOptions = {}): Promise<OpmlImportReport> {
+    const dryRun = options.dryRun ?? false;
+    const onConflict = options.onConflict ?? 'skip';
+    const outlines = parseOpml(xml);
+
+    const existing = await this.config.getAllPodcasts();
+    const byFeed = new Map(existing.map(podcast => [podcast.rssUrl, podcast]));
+    const takenIds = new Set(existing.map(podcast => podcast.id));
+    const seenFeeds = new Set<string>();
+    const ownFeedPrefix = `${this.config.getPublicUrl()}/rss/`;
+
+    const entries: OpmlImportEntry[] = [];
+    const toAdd: PodcastConfig[] = [];
+    const toUpdate: Array<{ id: string; name: string }> = [];
+
+    for (const outline of outlines) {
+      const title = outline.title || this.titleFromUrl(outline.xmlUrl);
+      const entry: OpmlImportEntry = { title, rssUrl: outline.xmlUrl, status: 'invalid' };
+      entries.push(entry);
+
+      if (seenFeeds.has(outline.xmlUrl)) {
+        entry.status = 'duplicate';
+        continue;
+      }
+      seenFeeds.add(outline.xmlUrl);
+
+      // An export from this server lists its proxy feeds, which would loop back here
+      if (outline.xmlUrl.startsWith(ownFeedPrefix)) {
+        entry.error = 'Feed is served by this Podcastoor instance';
+        continue;
+      }
+
+      const current = byFeed.get(outline.xmlUrl);
+      if (current) {
+        entry.id = current.id;
+        entry.existingId = current.id;
+        const changed = current.name !== title || !current.enabled;
+        if (onConflict === 'update' && changed) {
+          entry.status = dryRun ? 'would-update' : 'updated';
+          toUpdate.push({ id: current.id, name: title });
+        } else {
+          entry.status = 'conflict';
+        }
+        continue;
+      }
+
+      const id = this.uniqueId(outline, takenIds);
+      const parsed = PodcastConfigSchema.safeParse({
+        ...this.config.getPodcastDefaults(),
+        id,
+        name: title,
+        rssUrl: outline.xmlUrl
+      });
+      if (!parsed.success) {
+        entry.error = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        continue;
+      }
+
+      takenIds.add(id);
+      entry.id = id;
+      entry.status = dryRun ? 'would-add' : 'added';
+      toAdd.push(parsed.data);
+    }
+
+    if (!dryRun) {
+      await this.config.addPodcasts(toAdd);
+      for (const { id, name } of toUpdate) {
+        await this.config.updatePodcast(id, { name, enabled: true });
+      }
+    }
+
+    console.log(
+      `📥 OPML import${dryRun ? ' (dry run)' : ''}: ${outlines.length} feeds, ` +
+      `${toAdd.length} new, ${toUpdate.length} updated`
+    );
+
+    return {
+      dryRun,
+      onConflict,
+      entries,
+      added: toAdd,
+      updated: toUpdate.length,
+      conflicts: entries.filter(entry => entry.status === 'conflict' || entry.status === 'duplicate').length,
+      invalid: entries.filter(entry => entry.status === 'invalid').length
+    };
+  }
+
+  private uniqueId(outline: OpmlOutline, takenIds: Set<string>): string {
+    let base = slugify(outline.title) || slugify(this.titleFromUrl(outline.xmlUrl));
+    if (!PODCAST_ID_PATTERN.test(base)) {
+      base = 'podcast';
+    }
+
+    let id = base;
+    for (let suffix = 2; takenIds.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    return id;
+  }
+
+  private titleFromUrl(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return url;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { Database, Episode } from '../database/Database';
+import { StorageManager } from '../storage/StorageManager';
+import { ConfigManager } from '../config/ConfigManager';
+
+export interface RetentionOptions {
+  dryRun?: boolean;
+}
+
+export interface RetentionEpisodeResult {
+  episodeGuid: string;
+  showId: string;
+  title: string;
+  publishDate: Date;
+  files: string[];
+  // files-deleted-active-job: a job was queued while the files were being deleted, so the rows were kept for it
+  status: 'deleted' | 'would-delete' | 'skipped-active-job' | 'files-deleted-active-job' | 'failed';
+  error?: string;
+}
+
+export interface RetentionShowPolicy {
+  showId: string;
+  retentionDays: number;
+  cutoff: Date;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: Date;
+  completedAt: Date;
+  policies: RetentionShowPolicy[];
+  episodes: RetentionEpisodeResult[];
+  deletedEpisodes: number;
+  deletedFiles: number;
+  skippedEpisodes: number;
+  partialEpisodes: number;
+  failedEpisodes: number;
+}
+
+/**
+ * Removes episodes that have aged out of their podcast's retention window,
+ * deleting stored files (processed audio, ad segments, artifacts) and database
+ * rows (jobs, chapters, ads, transcripts) together. Episodes referenced by a
+ * pending or processing job are always kept.
+ */
+export class RetentionManager {
+  constructor(
+    private db: Database,
+    private storage: StorageManager,
+    private config: ConfigManager
+  ) {}
+
+  async run(options: RetentionOptions = {}): Promise<RetentionReport> {
+    const dryRun = options.dryRun ?? false;
+    const startedAt = new Date();
+    const policies = await this.getPolicies();
+    const episodes: RetentionEpisodeResult[] = [];
+
+    console.log(`🧹 Retention cleanup started${dryRun ? ' (dry run)' : ''}`);
+
+    for (const policy of policies) {
+      const expired = this.db.getEpisodesPublishedBefore(policy.showId, policy.cutoff);
+      if (expired.length === 0) {
+        continue;
+      }
+
+      // One listing per show rather than per episode keeps large buckets cheap to clean
+      let showFiles: Map<string, string[]>;
+      const expiredGuids = new Set(expired.map(episode => episode.guid));
+      const liveGuids = this.db.getShowEpisodes(policy.showId)
+        .map(episode => episode.guid)
+        .filter(guid => !expiredGuids.has(guid));
+      try {
+        showFiles = await this.storage.listShowEpisodeFiles(policy.showId, [...expiredGuids, ...liveGuids]);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to list stored files for ${policy.showId}:`, message);
+        episodes.push(...expired.map(episode => ({ ...this.describe(episode), files: [], status: 'failed' as const, error: message })));
+        continue;
+      }
+
+      // Keys are matched by sanitized GUID, so two GUIDs can share a key; a live episode's keys are never deleted
+      const liveKeys = new Set(liveGuids.flatMap(guid => showFiles.get(guid) || []));
+      for (const episode of expired) {
+        const files = (showFiles.get(episode.guid) || []).filter(key => !liveKeys.has(key));
+        episodes.push(await this.cleanupEpisode(episode, dryRun, files));
+      }
+    }
+
+    const report: RetentionReport = {
+      dryRun,
+      startedAt,
+      completedAt: new Date(),
+      policies,
+      episodes,
+      deletedEpisodes: episodes.filter(e => e.status === 'deleted').length,
+      deletedFiles: episodes
+        .filter(e => e.status === 'deleted')
+        .reduce((total, e) => total + e.files.length, 0),
+      skippedEpisodes: episodes.filter(e => e.status === 'skipped-active-job').length,
+      partialEpisodes: episodes.filter(e => e.status === 'files-deleted-active-job').length,
+      failedEpisodes: episodes.filter(e => e.status === 'failed').length
+    };
+
+    if (dryRun) {
+      const candidates = episodes.filter(e => e.status === 'would-delete');
+      const fileCount = candidates.reduce((total, e) => total + e.files.length, 0);
+      console.log(`🧹 Dry run: would delete ${candidates.length} episodes (${fileCount} files), ${report.skippedEpisodes} kept for active jobs`);
+    } else {
+      console.log(`🧹 Retention cleanup completed: ${report.deletedEpisodes} episodes and ${report.deletedFiles} files deleted, ${report.skippedEpisodes} skipped, ${report.partialEpisodes} kept for jobs queued mid-cleanup, ${report.failedEpisodes} failed`);
+    }
+
+    return report;
+  }
+
+  // Shows no longer in the config still age out, using the default retention
+  private async getPolicies(): Promise<RetentionShowPolicy[]> {
+    const defaultRetentionDays = this.config.getProcessingConfig().defaultRetentionDays;
+    const podcasts = await this.config.getAllPodcasts();
+
+    return this.db.getAllShows().map(show => {
+      const retentionDays = podcasts.find(p => p.id === show.id)?.retentionDays || defaultRetentionDays;
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - retentionDays);
+      return { showId: show.id, retentionDays, cutoff };
+    });
+  }
+
+  private describe(episode: Episode): Pick<RetentionEpisodeResult, 'episodeGuid' | 'showId' | 'title' | 'publishDate'> {
+    return {
+      episodeGuid: episode.guid,
+      showId: episode.showId,
+      title: episode.title,
+      publishDate: episode.publishDate
+    };
+  }
+
+  private async cleanupEpisode(episode: Episode, dryRun: boolean, listedFiles: string[]): Promise<RetentionEpisodeResult> {
+    const result: RetentionEpisodeResult = {
+      ...this.describe(episode),
+      files: [],
+      status: dryRun ? 'would-delete' : 'deleted'
+    };
+
+    if (this.db.hasActiveJob(episode.guid)) {
+      result.status = 'skipped-active-job';
+      return result;
+    }
+
+    try {
+      result.files = await this.getEpisodeFiles(episode, listedFiles);
+      if (dryRun) {
+        return result;
+      }
+
+      // Looking up files awaited storage; a job queued meanwhile still needs them
+      if (this.db.hasActiveJob(episode.guid)) {
+        result.status = 'skipped-active-job';
+        return result;
+      }
+
+      // Files go first: if a delete fails the rows survive and the next run retries
+      for (const key of result.files) {
+        await this.storage.deleteAudio(key);
+      }
+
+      // A job queued while the files were being deleted keeps the rows; it will upload new files
+      if (!this.db.deleteEpisode(episode.guid)) {
+        result.status = 'files-deleted-active-job';
+        console.warn(`⚠️  Deleted files for ${episode.guid} but kept its rows: a job was queued during cleanup`);
+        return result;
+      }
+
+      console.log(`🗑️  Removed episode ${episode.guid} (${result.files.length} files)`);
+    } catch (error) {
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to clean up episode ${episode.guid}:`, result.error);
+    }
+
+    return result;
+  }
+
+  // Stored files for the episode, plus any processed audio recorded under an older key layout
+  private async getEpisodeFiles(episode: Episode, listedFiles: string[]): Promise<string[]> {
+    const keys = new Set(listedFiles);
+
+    for (const job of this.db.getEpisodeJobs(episode.guid)) {
+      const processed = this.db.getProcessedEpisode(job.id);
+      const key = processed && this.storage.getKeyFromUrl(processed.processedUrl);
+      if (key && await this.storage.fileExists(key)) {
+        keys.add(key);
+      }
+    }
+
+    return [...keys];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { createHmac, randomUUID } from 'crypto';
+import { ServerEvent, WebhookEventType, formatError } from '@podcastoor/shared';
+import { Database, WebhookDelivery } from '../database/Database';
+import { ConfigManager } from '../config/ConfigManager';
+import { EventBus } from './EventBus';
+import { getRetryDelayMs } from '../jobs/retry';
+import { RetryPolicy } from '../jobs/types';
+
+const WEBHOOK_EVENTS: WebhookEventType[] = ['episode.processed', 'job.failed', 'feed.fetch_failed'];
+const DELIVERY_POLL_MS = 5000;
+const DELIVERY_TIMEOUT_MS = 10000;
+// A feed that stays down is announced again at most this often
+const FEED_FAILURE_REPEAT_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_RETRY_POLICY: RetryPolicy = {
+  attempts: 6,
+  backoff: { type: 'exponential', delay: 30 * 1000, maxDelay: 60 * 60 * 1000 }
+};
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Podcastoor-Signature';
+
+// GitHub-style signature: receivers recompute it over the raw request body
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+type WebhookEvent = Extract<ServerEvent, { type: WebhookEventType }>;
+
+function isWebhookEvent(event: ServerEvent): event is WebhookEvent {
+  return (WEBHOOK_EVENTS as string[]).includes(event.type);
+}
+
+/**
+ * Sends selected events to the webhooks in the config as signed JSON POSTs.
+ * Every delivery is written to webhook_deliveries first, so failed calls are
+ * retried with backoff (also across restarts) and the table doubles as the
+ * delivery log.
+ */
+export class WebhookDispatcher {
+  private unsubscribe?: () => void;
+  private interval?: NodeJS.Timeout;
+  private isDelivering: boolean = false;
+
+  constructor(
+    private db: Database,
+    private config: ConfigManager,
+    private events: EventBus
+  ) {}
+
+  start(): void {
+    if (this.interval) return;
+
+    this.unsubscribe = this.events.subscribe(event => this.enqueue(event));
+    this.interval = setInterval(() => this.deliverDue(), DELIVERY_POLL_MS);
+    console.log(`🔔 Webhook dispatcher started (${this.config.getWebhooks().length} webhooks configured)`);
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+  }
+
+  async deliverDue(): Promise<void> {
+    if (this.isDelivering) return;
+    this.isDelivering = true;
+
+    try {
+      for (const delivery of this.db.getDueWebhookDeliveries()) {
+        await this.deliver(delivery);
+      }
+    } catch (error) {
+      console.error('Failed to process webhook deliveries:', formatError(error));
+    } finally {
+      this.isDelivering = false;
+    }
+  }
+
+  private enqueue(event: ServerEvent): void {
+    if (!isWebhookEvent(event)) return;
+
+    // Only a job's final failure is announced, not attempts that will be retried
+    if (event.type === 'job.failed' && event.retryAt) return;
+
+    let webhooks = this.config.getWebhooks().filter(webhook => !webhook.events || webhook.events.includes(event.type));
+
+    // Both the poller and the feed route report failures, the poller on every run, so one outage is announced once
+    if (event.type === 'feed.fetch_failed') {
+      const since = new Date(Date.now() - FEED_FAILURE_REPEAT_MS);
+      webhooks = webhooks.filter(webhook => !this.db.hasWebhookDeliverySince(webhook.url, event.type, event.showId, since));
+    }
+    if (webhooks.length === 0) return;
+
+    const { type, ...data } = event;
+    const payload = JSON.stringify({
+      id: randomUUID(), // Same for every webhook receiving this event, so receivers can de-duplicate
+      event: type,
+      createdAt: new Date().toISOString(),
+      data
+    });
+
+    for (const webhook of webhooks) {
+      this.db.createWebhookDelivery(webhook.url, type, payload);
+    }
+
+    this.deliverDue();
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    // Secrets are read from the current config rather than stored with the delivery
+    const webhook = this.config.getWebhooks().find(candidate => candidate.url === delivery.webhookUrl);
+    if (!webhook) {
+      this.db.recordWebhookFailure(delivery.id, 'Webhook is no longer configured');
+      return;
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Podcastoor-Webhooks',
+      'X-Podcastoor-Event': delivery.event,
+      'X-Podcastoor-Delivery': String(delivery.id)
+    };
+    if (webhook.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(webhook.secret, delivery.payload);
+    }
+
+    let responseStatus: number | undefined;
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers,
+        body: delivery.payload,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+      }
+
+      this.db.markWebhookDelivered(delivery.id, response.status);
+      console.log(`🔔 Delivered ${delivery.event} webhook to ${webhook.url}`);
+    } catch (error) {
+      // Client errors other than timeouts and rate limits won't fix themselves
+      const attempt = delivery.attempts + 1;
+      const retryable = responseStatus === undefined || responseStatus === 408 || responseStatus === 429 || responseStatus >= 500;
+      const nextAttemptAt = retryable && attempt < DELIVERY_RETRY_POLICY.attempts
+        ? new Date(Date.now() + getRetryDelayMs(attempt, DELIVERY_RETRY_POLICY))
+        : undefined;
+
+      this.db.recordWebhookFailure(delivery.id, formatError(error), responseStatus, nextAttemptAt);
+      console.warn(
+        `⚠️  ${delivery.event} webhook to ${webhook.url} failed (attempt ${attempt}): ${formatError(error)}` +
+        (nextAttemptAt ? `, retrying at ${nextAttemptAt.toISOString()}` : ', giving up')
+      );
+    }
+  }
+}
\ No newline at end of file
@@ -1,11 +1,13 @@
-import { createReadStream, promises as fs, createWriteStream, existsSync, mkdirSync } from 'fs';
-import { join, basename, dirname } from 'path';
-import { pipeline } from 'stream';
+import { basename, extname } from 'path';
+import { Readable } from 'stream';
 import { ProcessingArtifacts } from '@podcastoor/shared';
+import { StorageProvider, StorageProviderConfig, StoredObjectInfo } from './types';
+import { createStorageProvider } from './providers';
 
 export interface StorageConfig {
   baseDirectory: string;
   publicUrl?: string;
+  provider?: StorageProviderConfig; // Defaults to local files under baseDirectory
 }
 
 export interface UploadResult {
@@ -13,6 +15,7 @@ export interface UploadResult {
   url: string;
   size: number;
   etag: string;
+  contentType: string;
 }
 
 export interface StorageObject {
@@ -26,14 +29,15 @@ export class StorageManager {
   private baseDirectory: string;
   private publicUrl: string;
   private config: StorageConfig;
+  private provider: StorageProvider;
 
   constructor(config: StorageConfig) {
     this.config = config;
     this.baseDirectory = config.baseDirectory;
-    this.publicUrl = config.publicUrl || 'http://localhost:3000/files';
+    this.provider = createStorageProvider(config.provider || { type: 'local', baseDirectory: config.baseDirectory });
+    this.publicUrl = (config.publicUrl || this.provider.defaultPublicUrl || 'http://localhost:3000/files').replace(/\/+$/, '');
     
-    // Ensure base directory exists
-    mkdirSync(this.baseDirectory, { recursive: true });
+    console.log(`Storage provider: ${this.provider.type} (${this.provider.bucketName})`);
   }
 
   async uploadAudioFile(podcastId: string, episodeGuid: string, filePath: string): Promise<string> {
@@ -48,25 +52,11 @@ export class StorageManager {
     console.log(`Uploading ad segment: ${filePath} -> ${key}`);
     
     try {
-      const targetPath = join(this.baseDirectory, key);
-      await this.ensureDirectoryExists(dirname(targetPath));
+      const object = await this.provider.uploadFile(key, filePath, { contentType: this.getContentType(key) });
       
-      const fileStats = await fs.stat(filePath);
+      console.log(`Ad segment upload completed: ${key} (${object.size} bytes)`);
       
-      // Copy file to storage location
-      await fs.copyFile(filePath, targetPath);
-      
-      const url = this.getPublicUrl(key);
-      const etag = this.generateEtag(targetPath, fileStats.size);
-      
-      console.log(`Ad segment upload completed: ${key} (${fileStats.size} bytes)`);
-      
-      return {
-        key,
-        url,
-        size: fileStats.size,
-        etag
-      };
+      return this.toUploadResult(object);
     } catch (error) {
       throw new Error(`Failed to upload ad segment: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -79,25 +69,11 @@ export class StorageManager {
     console.log(`Uploading audio file: ${filePath} -> ${key}`);
     
     try {
-      const targetPath = join(this.baseDirectory, key);
-      await this.ensureDirectoryExists(dirname(targetPath));
-      
-      const fileStats = await fs.stat(filePath);
+      const object = await this.provider.uploadFile(key, filePath, { contentType: this.getContentType(key) });
       
-      // Copy file to storage location
-      await fs.copyFile(filePath, targetPath);
+      console.log(`Upload completed: ${key} (${object.size} bytes)`);
       
-      const url = this.getPublicUrl(key);
-      const etag = this.generateEtag(targetPath, fileStats.size);
-      
-      console.log(`Upload completed: ${key} (${fileStats.size} bytes)`);
-      
-      return {
-        key,
-        url,
-        size: fileStats.size,
-        etag
-      };
+      return this.toUploadResult(object);
     } catch (error) {
       throw new Error(`Failed to upload audio file: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -109,25 +85,12 @@ export class StorageManager {
     console.log(`Uploading RSS feed: ${podcastId} -> ${key}`);
     
     try {
-      const targetPath = join(this.baseDirectory, key);
-      await this.ensureDirectoryExists(dirname(targetPath));
-      
       const buffer = Buffer.from(feedContent, 'utf8');
-      
-      // Write RSS content to file
-      await fs.writeFile(targetPath, buffer);
-      
-      const url = this.getPublicUrl(key);
-      const etag = this.generateEtag(targetPath, buffer.length);
+      const object = await this.provider.uploadBuffer(key, buffer, { contentType: this.getContentType(key) });
       
       console.log(`RSS feed upload completed: ${key} (${buffer.length} bytes)`);
       
-      return {
-        key,
-        url,
-        size: buffer.length,
-        etag
-      };
+      return this.toUploadResult(object);
     } catch (error) {
       throw new Error(`Failed to upload RSS feed: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -139,26 +102,13 @@ export class StorageManager {
     console.log(`Uploading processing artifacts: ${podcastId}/${episodeId} -> ${key}`);
     
     try {
-      const targetPath = join(this.baseDirectory, key);
-      await this.ensureDirectoryExists(dirname(targetPath));
-      
       const artifactData = JSON.stringify(artifacts, null, 2);
       const buffer = Buffer.from(artifactData, 'utf8');
-      
-      // Write artifacts to file
-      await fs.writeFile(targetPath, buffer);
-      
-      const url = this.getPublicUrl(key);
-      const etag = this.generateEtag(targetPath, buffer.length);
+      const object = await this.provider.uploadBuffer(key, buffer, { contentType: this.getContentType(key) });
       
       console.log(`Processing artifacts upload completed: ${key} (${buffer.length} bytes)`);
       
-      return {
-        key,
-        url,
-        size: buffer.length,
-        etag
-      };
+      return this.toUploadResult(object);
     } catch (error) {
       throw new Error(`Failed to upload processing artifacts: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -171,15 +121,10 @@ export class StorageManager {
 
   async getRSSFeedContent(podcastId: string): Promise<string | null> {
     const key = `rss/${podcastId}.xml`;
-    const filePath = join(this.baseDirectory, key);
     
     try {
-      if (!existsSync(filePath)) {
-        return null;
-      }
-      
-      const content = await fs.readFile(filePath, 'utf8');
-      return content;
+      const content = await this.provider.readObject(key);
+      return content ? content.toString('utf8') : null;
     } catch (error) {
       throw new Error(`Failed to retrieve RSS feed: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -187,18 +132,17 @@ export class StorageManager {
 
   async getProcessingArtifacts(podcastId: string, episodeId: string): Promise<ProcessingArtifacts | null> {
     const key = this.buildArtifactKey(podcastId, episodeId);
-    const filePath = join(this.baseDirectory, key);
     
     console.log(`Retrieving processing artifacts: ${podcastId}/${episodeId} from ${key}`);
     
     try {
-      if (!existsSync(filePath)) {
+      const content = await this.provider.readObject(key);
+      if (!content) {
         console.log(`Processing artifacts not found: ${key}`);
         return null;
       }
       
-      const content = await fs.readFile(filePath, 'utf8');
-      const artifacts = JSON.parse(content);
+      const artifacts = JSON.parse(content.toString('utf8'));
       
       console.log(`Processing artifacts retrieved: ${key}`);
       return artifacts;
@@ -216,17 +160,7 @@ export class StorageManager {
     console.log(`Downloading audio file: ${key} -> ${outputPath}`);
     
     try {
-      const sourcePath = join(this.baseDirectory, key);
-      
-      if (!existsSync(sourcePath)) {
-        throw new Error(`File not found: ${key}`);
-      }
-      
-      // Ensure output directory exists
-      await this.ensureDirectoryExists(dirname(outputPath));
-      
-      // Copy file to output path
-      await fs.copyFile(sourcePath, outputPath);
+      await this.provider.downloadToFile(key, outputPath);
       
       console.log(`Download completed: ${key}`);
     } catch (error) {
@@ -238,14 +172,8 @@ export class StorageManager {
     console.log(`Deleting audio file: ${key}`);
     
     try {
-      const filePath = join(this.baseDirectory, key);
-      
-      if (existsSync(filePath)) {
-        await fs.unlink(filePath);
-        console.log(`Deletion completed: ${key}`);
-      } else {
-        console.log(`File not found for deletion: ${key}`);
-      }
+      await this.provider.deleteObject(key);
+      console.log(`Deletion completed: ${key}`);
     } catch (error) {
       throw new Error(`Failed to delete audio file: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -256,14 +184,8 @@ export class StorageManager {
     console.log(`Deleting RSS feed: ${key}`);
     
     try {
-      const filePath = join(this.baseDirectory, key);
-      
-      if (existsSync(filePath)) {
-        await fs.unlink(filePath);
-        console.log(`RSS feed deletion completed: ${key}`);
-      } else {
-        console.log(`RSS feed not found for deletion: ${key}`);
-      }
+      await this.provider.deleteObject(key);
+      console.log(`RSS feed deletion completed: ${key}`);
     } catch (error) {
       throw new Error(`Failed to delete RSS feed: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -273,31 +195,12 @@ export class StorageManager {
     console.log(`Listing audio files with prefix: ${prefix || 'all'}`);
     
     try {
-      const searchDir = prefix ? join(this.baseDirectory, prefix) : this.baseDirectory;
-      const objects: StorageObject[] = [];
-      
-      if (!existsSync(searchDir)) {
-        return objects;
-      }
-      
-      const files = await this.getAllFilesRecursively(searchDir);
-      
-      for (const filePath of files) {
-        try {
-          const stats = await fs.stat(filePath);
-          const relativePath = filePath.replace(this.baseDirectory + '/', '').replace(this.baseDirectory + '\\', '');
-          const key = relativePath.replace(/\\/g, '/'); // Normalize path separators
-          
-          objects.push({
-            key,
-            size: stats.size,
-            lastModified: stats.mtime,
-            url: this.getPublicUrl(key)
-          });
-        } catch (error) {
-          console.error(`Error reading file stats for ${filePath}:`, error);
-        }
-      }
+      const objects: StorageObject[] = (await this.provider.listObjects(prefix)).map(object => ({
+        key: object.key,
+        size: object.size,
+        lastModified: object.lastModified,
+        url: this.getPublicUrl(object.key)
+      }));
       
       console.log(`Found ${objects.length} audio files`);
       return objects;
@@ -309,8 +212,19 @@ export class StorageManager {
   async generatePresignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
     console.log(`Generating presigned URL for: ${key} (expires in ${expiresIn}s)`);
     
-    // For local storage, we just return the public URL since we don't have presigning
-    return this.getPublicUrl(key);
+    // Local storage has no presigning, so its public URL is the best we can do
+    const presignedUrl = await this.provider.getPresignedUrl(key, expiresIn);
+    return presignedUrl || this.getPublicUrl(key);
+  }
+
+  // Maps a URL produced by getPublicUrl back to its storage key
+  getKeyFromUrl(url: string): string | null {
+    const prefix = `${this.publicUrl}/`;
+    return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length)) : null;
+  }
+
+  async openReadStream(key: string, range?: { start: number; end: number }): Promise<Readable> {
+    return this.provider.openReadStream(key, { range });
   }
 
   getPublicUrl(key: string): string {
@@ -319,74 +233,55 @@ export class StorageManager {
     return `${this.publicUrl}/${cleanKey}`;
   }
 
-  async cleanupOldFiles(olderThanDays: number): Promise<number> {
-    console.log(`Cleaning up files older than ${olderThanDays} days`);
-    
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
-    
-    try {
-      const allFiles = await this.listAudioFiles();
-      const filesToDelete = allFiles.filter(file => file.lastModified < cutoffDate);
-      
-      console.log(`Found ${filesToDelete.length} files to delete`);
-      
-      let deletedCount = 0;
-      for (const file of filesToDelete) {
-        try {
-          await this.deleteAudio(file.key);
-          deletedCount++;
-        } catch (error) {
-          console.error(`Failed to delete file ${file.key}:`, error);
-        }
-      }
-      
-      console.log(`Cleanup completed: ${deletedCount} files deleted`);
-      return deletedCount;
-    } catch (error) {
-      throw new Error(`Cleanup failed: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
-
   async fileExists(key: string): Promise<boolean> {
     try {
-      const filePath = join(this.baseDirectory, key);
-      return existsSync(filePath);
+      return (await this.provider.headObject(key)) !== null;
     } catch (error) {
       return false;
     }
   }
 
-  async getFileMetadata(key: string): Promise<{size: number, lastModified: Date, contentType: string} | null> {
+  async getFileMetadata(key: string): Promise<{size: number, lastModified: Date, contentType: string, etag: string} | null> {
     try {
-      const filePath = join(this.baseDirectory, key);
-      
-      if (!existsSync(filePath)) {
+      const object = await this.provider.headObject(key);
+      if (!object) {
         return null;
       }
       
-      const stats = await fs.stat(filePath);
-      
-      // Determine content type based on file extension
-      let contentType = 'application/octet-stream';
-      if (key.endsWith('.mp3')) {
-        contentType = 'audio/mpeg';
-      } else if (key.endsWith('.xml')) {
-        contentType = 'application/rss+xml';
-      } else if (key.endsWith('.json')) {
-        contentType = 'application/json';
-      }
-      
       return {
-        size: stats.size,
-        lastModified: stats.mtime,
-        contentType
+        size: object.size,
+        lastModified: object.lastModified,
+        contentType: object.contentType || this.getContentType(key),
+        etag: object.etag
       };
     } catch (error) {
       return null;
     }
   }
 
+  // Determine content type based on file extension
+  private getContentType(key: string): string {
+    const extension = extname(key).toLowerCase();
+    switch (extension) {
+      case '.mp3':
+        return 'audio/mpeg';
+      case '.m4a':
+      case '.mp4':
+        return 'audio/mp4';
+      case '.aac':
+        return 'audio/aac';
+      case '.ogg':
+      case '.opus':
+        return 'audio/ogg';
+      case '.xml':
+        return 'application/rss+xml';
+      case '.json':
+        return 'application/json';
+      default:
+        return 'application/octet-stream';
+    }
+  }
+
   private buildFileKey(podcastId: string, episodeId: string, suffix?: string): string {
     const datePath = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
     const cleanEpisodeId = episodeId.replace(/[^a-zA-Z0-9-_]/g, '-');
@@ -412,7 +307,7 @@ export class StorageManager {
   }
 
   getBucketName(): string {
-    return 'local-storage';
+    return this.provider.bucketName;
   }
 
   getEndpoint(): string {
@@ -423,75 +318,75 @@ export class StorageManager {
     return this.baseDirectory;
   }
 
-  async deleteProcessedFiles(podcastId: string, episodeId: string): Promise<void> {
-    console.log(`Deleting processed files for ${podcastId}/${episodeId}`);
-    
-    try {
-      // List all files for this episode
-      const prefix = `podcasts/${podcastId}`;
-      const allFiles = await this.listAudioFiles(prefix);
-      
-      const cleanEpisodeId = episodeId.replace(/[^a-zA-Z0-9-_]/g, '-');
-      const episodeFiles = allFiles.filter(obj => obj.key.includes(cleanEpisodeId));
-      
-      for (const file of episodeFiles) {
-        await this.deleteAudio(file.key);
-      }
-      
-      console.log(`Deleted ${episodeFiles.length} files for episode ${episodeId}`);
-    } catch (error) {
-      throw new Error(`Failed to delete processed files: ${error instanceof Error ? error.message : String(error)}`);
-    }
+  // Processed audio, ad segments and artifacts stored for an episode
+  async listEpisodeFiles(podcastId: string, episodeId: string): Promise<string[]> {
+    return (await this.listShowEpisodeFiles(podcastId, [episodeId])).get(episodeId) || [];
   }
 
-  async testConnection(): Promise<boolean> {
-    try {
-      // Test if we can access the base directory
-      const stats = await fs.stat(this.baseDirectory);
-      return stats.isDirectory();
-    } catch (error) {
-      console.error('Storage connection test failed:', error);
-      return false;
+  /**
+   * Files for several episodes of one podcast, keyed by episode ID. Lists the
+   * podcast's prefixes once, however many episodes are asked for.
+   */
+  async listShowEpisodeFiles(podcastId: string, episodeIds: string[]): Promise<Map<string, string[]>> {
+    const files = new Map<string, string[]>();
+    const episodesByKeySegment = new Map<string, string[]>();
+    for (const episodeId of episodeIds) {
+      const cleanEpisodeId = episodeId.replace(/[^a-zA-Z0-9-_]/g, '-');
+      episodesByKeySegment.set(cleanEpisodeId, [...(episodesByKeySegment.get(cleanEpisodeId) || []), episodeId]);
+      files.set(episodeId, []);
     }
-  }
 
-  private async ensureDirectoryExists(dirPath: string): Promise<void> {
     try {
-      await fs.mkdir(dirPath, { recursive: true });
-    } catch (error) {
-      if ((error as any).code !== 'EEXIST') {
-        throw error;
+      // Audio lives under podcasts/<podcast>/<upload date>/<episode>/, artifacts under artifacts/<podcast>/<episode>/
+      const [audioObjects, artifactObjects] = await Promise.all([
+        this.provider.listObjects(`podcasts/${podcastId}/`),
+        this.provider.listObjects(`artifacts/${podcastId}/`)
+      ]);
+      const grouped = [
+        ...audioObjects.map(object => ({ key: object.key, segment: object.key.split('/')[3] })),
+        ...artifactObjects.map(object => ({ key: object.key, segment: object.key.split('/')[2] }))
+      ];
+
+      for (const { key, segment } of grouped) {
+        for (const episodeId of episodesByKeySegment.get(segment) || []) {
+          files.get(episodeId)!.push(key);
+        }
       }
+
+      return files;
+    } catch (error) {
+      throw new Error(`Failed to list episode files: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async getAllFilesRecursively(dir: string): Promise<string[]> {
-    const files: string[] = [];
-    
+  async deleteProcessedFiles(podcastId: string, episodeId: string): Promise<number> {
+    console.log(`Deleting processed files for ${podcastId}/${episodeId}`);
+
     try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        const fullPath = join(dir, entry.name);
-        
-        if (entry.isDirectory()) {
-          const subFiles = await this.getAllFilesRecursively(fullPath);
-          files.push(...subFiles);
-        } else {
-          files.push(fullPath);
-        }
+      const episodeFiles = await this.listEpisodeFiles(podcastId, episodeId);
+
+      for (const key of episodeFiles) {
+        await this.deleteAudio(key);
       }
+
+      console.log(`Deleted ${episodeFiles.length} files for episode ${episodeId}`);
+      return episodeFiles.length;
     } catch (error) {
-      console.error(`Error reading directory ${dir}:`, error);
+      throw new Error(`Failed to delete processed files: ${error instanceof Error ? error.message : String(error)}`);
     }
-    
-    return files;
   }
 
-  private generateEtag(filePath: string, size: number): string {
-    // Generate a simple etag based on file path and size
-    // In a real implementation, you might want to use a hash of the file content
-    const timestamp = new Date().getTime();
-    return `"${size}-${timestamp}"`;
+  async testConnection(): Promise<boolean> {
+    return this.provider.testConnection();
+  }
+
+  private toUploadResult(object: StoredObjectInfo): UploadResult {
+    return {
+      key: object.key,
+      url: this.getPublicUrl(object.key),
+      size: object.size,
+      etag: object.etag,
+      contentType: object.contentType || this.getContentType(object.key)
+    };
   }
 }
\ No newline at end of file
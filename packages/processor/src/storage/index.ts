@@ -1,2 +1,3 @@
 export { StorageManager, type StorageConfig, type UploadResult, type StorageObject } from './StorageManager';
-export * from './types';
\ No newline at end of file
+export * from './types';
+export { createStorageProvider, LocalStorageProvider, S3StorageProvider } from './providers';
\ No newline at end of file
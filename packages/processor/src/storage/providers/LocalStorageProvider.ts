@@ -0,0 +1,165 @@
+import { createReadStream, promises as fs, existsSync, mkdirSync, Stats } from 'fs';
+import { join, dirname, relative, sep } from 'path';
+import { Readable } from 'stream';
+import {
+  DownloadOptions,
+  LocalStorageProviderConfig,
+  StorageProvider,
+  StoredObjectInfo,
+  UploadOptions
+} from '../types';
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly type = 'local' as const;
+  readonly bucketName = 'local-storage';
+  private baseDirectory: string;
+
+  constructor(config: LocalStorageProviderConfig) {
+    this.baseDirectory = config.baseDirectory;
+
+    // Ensure base directory exists
+    mkdirSync(this.baseDirectory, { recursive: true });
+  }
+
+  async uploadFile(key: string, filePath: string, _options?: UploadOptions): Promise<StoredObjectInfo> {
+    const targetPath = this.resolvePath(key);
+    await this.ensureDirectoryExists(dirname(targetPath));
+
+    // Copy file to storage location
+    await fs.copyFile(filePath, targetPath);
+    return this.toObjectInfo(key, await fs.stat(targetPath));
+  }
+
+  async uploadBuffer(key: string, body: Buffer, _options?: UploadOptions): Promise<StoredObjectInfo> {
+    const targetPath = this.resolvePath(key);
+    await this.ensureDirectoryExists(dirname(targetPath));
+
+    await fs.writeFile(targetPath, body);
+    return this.toObjectInfo(key, await fs.stat(targetPath));
+  }
+
+  async readObject(key: string): Promise<Buffer | null> {
+    const filePath = this.resolvePath(key);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+    return fs.readFile(filePath);
+  }
+
+  async downloadToFile(key: string, outputPath: string): Promise<void> {
+    const sourcePath = this.resolvePath(key);
+    if (!existsSync(sourcePath)) {
+      throw new Error(`File not found: ${key}`);
+    }
+
+    await this.ensureDirectoryExists(dirname(outputPath));
+    await fs.copyFile(sourcePath, outputPath);
+  }
+
+  async openReadStream(key: string, options?: DownloadOptions): Promise<Readable> {
+    return createReadStream(this.resolvePath(key), options?.range);
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      return this.toObjectInfo(key, await fs.stat(this.resolvePath(key)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    if (existsSync(filePath)) {
+      await fs.unlink(filePath);
+    }
+  }
+
+  async listObjects(prefix?: string): Promise<StoredObjectInfo[]> {
+    const searchDir = prefix ? this.resolvePath(prefix) : this.baseDirectory;
+    if (!existsSync(searchDir)) {
+      return [];
+    }
+
+    const objects: StoredObjectInfo[] = [];
+    for (const filePath of await this.getAllFilesRecursively(searchDir)) {
+      try {
+        const key = relative(this.baseDirectory, filePath).split(sep).join('/'); // Normalize path separators
+        objects.push(this.toObjectInfo(key, await fs.stat(filePath)));
+      } catch (error) {
+        console.error(`Error reading file stats for ${filePath}:`, error);
+      }
+    }
+    return objects;
+  }
+
+  async getPresignedUrl(_key: string, _expiresIn: number): Promise<string | null> {
+    // Local files are served as-is; there is nothing to sign
+    return null;
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      // Test if we can access the base directory
+      const stats = await fs.stat(this.baseDirectory);
+      return stats.isDirectory();
+    } catch (error) {
+      console.error('Storage connection test failed:', error);
+      return false;
+    }
+  }
+
+  private resolvePath(key: string): string {
+    const filePath = join(this.baseDirectory, key);
+    // Keys come from URLs and config as well as our own code, so never let one escape the base directory
+    if (relative(this.baseDirectory, filePath).startsWith('..')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private toObjectInfo(key: string, stats: Stats): StoredObjectInfo {
+    return {
+      key,
+      size: stats.size,
+      lastModified: stats.mtime,
+      // Changes whenever the file is rewritten, so it is safe for If-Range validation
+      etag: `"${stats.size.toString(16)}-${stats.mtime.getTime().toString(16)}"`
+    };
+  }
+
+  private async ensureDirectoryExists(dirPath: string): Promise<void> {
+    try {
+      await fs.mkdir(dirPath, { recursive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+
+  private async getAllFilesRecursively(dir: string): Promise<string[]> {
+    const files: string[] = [];
+
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+
+      for (const entry of entries) {
+        const fullPath = join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          files.push(...await this.getAllFilesRecursively(fullPath));
+        } else {
+          files.push(fullPath);
+        }
+      }
+    } catch (error) {
+      console.error(`Error reading directory ${dir}:`, error);
+    }
+
+    return files;
+  }
+}
\ No newline at end of file
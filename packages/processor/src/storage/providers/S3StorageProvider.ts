@@ -0,0 +1,257 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  HeadBucketCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  NoSuchKey,
+  NotFound,
+  ObjectCannedACL,
+  S3ServiceException,
+  StorageClass
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createWriteStream, promises as fs } from 'fs';
+import { dirname } from 'path';
+import { pipeline, Readable } from 'stream';
+import { promisify } from 'util';
+import {
+  DownloadOptions,
+  MultipartUpload,
+  S3StorageProviderConfig,
+  StorageProvider,
+  StoredObjectInfo,
+  UploadOptions
+} from '../types';
+
+const pipelineAsync = promisify(pipeline);
+
+const DEFAULT_MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+// S3 rejects parts smaller than 5MB (except the last one)
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Stores objects in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2).
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly type = 's3' as const;
+  readonly bucketName: string;
+  readonly defaultPublicUrl: string;
+  private client: S3Client;
+  private multipartThreshold: number;
+  private partSize: number;
+
+  constructor(config: S3StorageProviderConfig) {
+    const region = config.region || 'us-east-1';
+
+    this.bucketName = config.bucket;
+    this.client = new S3Client({
+      region,
+      endpoint: config.endpoint,
+      // MinIO and most self-hosted services only support path-style bucket addressing
+      forcePathStyle: config.forcePathStyle ?? !!config.endpoint,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey
+      }
+    });
+    this.multipartThreshold = config.multipartThresholdBytes || DEFAULT_MULTIPART_THRESHOLD;
+    this.partSize = Math.max(config.partSizeBytes || DEFAULT_PART_SIZE, MIN_PART_SIZE);
+    this.defaultPublicUrl = config.endpoint
+      ? `${config.endpoint.replace(/\/+$/, '')}/${config.bucket}`
+      : `https://${config.bucket}.s3.${region}.amazonaws.com`;
+  }
+
+  async uploadFile(key: string, filePath: string, options: UploadOptions = {}): Promise<StoredObjectInfo> {
+    const { size } = await fs.stat(filePath);
+
+    if (size > this.multipartThreshold) {
+      await this.uploadMultipart(key, filePath, size, options);
+    } else {
+      await this.client.send(new PutObjectCommand({
+        ...this.putParams(key, options),
+        Body: await fs.readFile(filePath)
+      }));
+    }
+
+    return this.requireObject(key);
+  }
+
+  async uploadBuffer(key: string, body: Buffer, options: UploadOptions = {}): Promise<StoredObjectInfo> {
+    await this.client.send(new PutObjectCommand({
+      ...this.putParams(key, options),
+      Body: body
+    }));
+
+    return this.requireObject(key);
+  }
+
+  async readObject(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return Buffer.from(await response.Body!.transformToByteArray());
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async downloadToFile(key: string, outputPath: string): Promise<void> {
+    await fs.mkdir(dirname(outputPath), { recursive: true });
+    await pipelineAsync(await this.openReadStream(key), createWriteStream(outputPath));
+  }
+
+  async openReadStream(key: string, options: DownloadOptions = {}): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Range: options.range ? `bytes=${options.range.start}-${options.range.end}` : undefined,
+      VersionId: options.versionId
+    }));
+    return response.Body as Readable;
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return {
+        key,
+        size: response.ContentLength || 0,
+        lastModified: response.LastModified || new Date(0),
+        etag: response.ETag || '""',
+        contentType: response.ContentType
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+  }
+
+  async listObjects(prefix?: string): Promise<StoredObjectInfo[]> {
+    const objects: StoredObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }));
+
+      for (const object of response.Contents || []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key,
+          size: object.Size || 0,
+          lastModified: object.LastModified || new Date(0),
+          etag: object.ETag || '""'
+        });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async getPresignedUrl(key: string, expiresIn: number): Promise<string | null> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucketName, Key: key }), { expiresIn });
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.bucketName }));
+      return true;
+    } catch (error) {
+      console.error('Storage connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Uploads a large file part by part so it never has to fit in memory.
+   * A failed upload is aborted so the bucket doesn't keep billing for orphaned parts.
+   */
+  private async uploadMultipart(key: string, filePath: string, size: number, options: UploadOptions): Promise<void> {
+    const created = await this.client.send(new CreateMultipartUploadCommand(this.putParams(key, options)));
+    const upload: MultipartUpload = { uploadId: created.UploadId!, key, parts: [] };
+    const handle = await fs.open(filePath, 'r');
+
+    console.log(`Starting multipart upload of ${key} (${Math.ceil(size / this.partSize)} parts)`);
+
+    try {
+      for (let offset = 0, partNumber = 1; offset < size; offset += this.partSize, partNumber++) {
+        const buffer = Buffer.alloc(Math.min(this.partSize, size - offset));
+        await handle.read(buffer, 0, buffer.length, offset);
+
+        const response = await this.client.send(new UploadPartCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: upload.uploadId,
+          PartNumber: partNumber,
+          Body: buffer
+        }));
+        upload.parts.push({ partNumber, etag: response.ETag! });
+      }
+
+      await this.client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: upload.uploadId,
+        MultipartUpload: {
+          Parts: upload.parts.map(part => ({ PartNumber: part.partNumber, ETag: part.etag }))
+        }
+      }));
+    } catch (error) {
+      await this.client.send(new AbortMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: upload.uploadId
+      })).catch((abortError: unknown) => console.warn(`Failed to abort multipart upload ${upload.uploadId}:`, abortError));
+      throw error;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private putParams(key: string, options: UploadOptions) {
+    return {
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: options.contentType,
+      Metadata: options.metadata,
+      ACL: options.acl as ObjectCannedACL | undefined,
+      StorageClass: options.storageClass as StorageClass | undefined
+    };
+  }
+
+  private async requireObject(key: string): Promise<StoredObjectInfo> {
+    const object = await this.headObject(key);
+    if (!object) {
+      throw new Error(`Object ${key} missing right after upload`);
+    }
+    return object;
+  }
+}
+
+// HEAD responses have no body, so compatible services often surface a bare 404 rather than a NoSuchKey error
+function isNotFound(error: unknown): boolean {
+  return error instanceof NoSuchKey ||
+    error instanceof NotFound ||
+    (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404);
+}
\ No newline at end of file
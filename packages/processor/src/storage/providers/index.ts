@@ -0,0 +1,19 @@
+import { StorageProvider, StorageProviderConfig } from '../types';
+import { LocalStorageProvider } from './LocalStorageProvider';
+import { S3StorageProvider } from './S3StorageProvider';
+
+export function createStorageProvider(config: StorageProviderConfig): StorageProvider {
+  switch (config.type) {
+    case 'local':
+      return new LocalStorageProvider(config);
+    case 's3':
+      return new S3StorageProvider(config);
+    default: {
+      const unknown: never = config;
+      throw new Error(`Unknown storage provider type: ${JSON.stringify(unknown)}`);
+    }
+  }
+}
+
+export { LocalStorageProvider } from './LocalStorageProvider';
+export { S3StorageProvider } from './S3StorageProvider';
\ No newline at end of file
@@ -1,7 +1,52 @@
-export interface StorageProviderConfig {
+import { Readable } from 'stream';
+
+export type StorageProviderConfig = LocalStorageProviderConfig | S3StorageProviderConfig;
+
+export interface LocalStorageProviderConfig {
   type: 'local';
   baseDirectory: string;
-  publicUrl?: string;
+}
+
+export interface S3StorageProviderConfig {
+  type: 's3';
+  bucket: string;
+  endpoint?: string; // Omit for AWS S3; set for MinIO, R2 and other compatible services
+  region?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle?: boolean;
+  multipartThresholdBytes?: number;
+  partSizeBytes?: number;
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+  etag: string;
+  contentType?: string;
+}
+
+/**
+ * A place processed audio, feeds and artifacts are kept. Keys are
+ * slash-separated paths such as `podcasts/<id>/<date>/<episode>/file.mp3`.
+ */
+export interface StorageProvider {
+  readonly type: StorageProviderConfig['type'];
+  readonly bucketName: string;
+  // Where objects can be fetched from when no public URL is configured
+  readonly defaultPublicUrl?: string;
+  uploadFile(key: string, filePath: string, options?: UploadOptions): Promise<StoredObjectInfo>;
+  uploadBuffer(key: string, body: Buffer, options?: UploadOptions): Promise<StoredObjectInfo>;
+  readObject(key: string): Promise<Buffer | null>;
+  downloadToFile(key: string, outputPath: string): Promise<void>;
+  openReadStream(key: string, options?: DownloadOptions): Promise<Readable>;
+  headObject(key: string): Promise<StoredObjectInfo | null>;
+  deleteObject(key: string): Promise<void>;
+  listObjects(prefix?: string): Promise<StoredObjectInfo[]>;
+  // Null when the provider has no way to sign URLs
+  getPresignedUrl(key: string, expiresIn: number): Promise<string | null>;
+  testConnection(): Promise<boolean>;
 }
 
 export interface UploadOptions {
@@ -0,0 +1,78 @@
+import { TranscriptSegment } from '@podcastoor/shared';
+
+export type TranscriptFormat = 'json' | 'srt' | 'vtt';
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  json: 'application/json',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt'
+};
+
+export class TranscriptFormatter {
+  // Podcasting 2.0 JSON transcript format
+  toJSON(segments: TranscriptSegment[]): string {
+    return JSON.stringify({
+      version: '1.0.0',
+      segments: segments.map(segment => ({
+        speaker: segment.speaker,
+        startTime: this.round(segment.startTime),
+        endTime: this.round(segment.endTime),
+        body: segment.text,
+        words: segment.words?.map(word => ({
+          word: word.word,
+          startTime: this.round(word.startTime),
+          endTime: this.round(word.endTime)
+        }))
+      }))
+    }, null, 2);
+  }
+
+  toSRT(segments: TranscriptSegment[]): string {
+    return segments.map((segment, index) => [
+      String(index + 1),
+      `${this.formatTimestamp(segment.startTime, ',')} --> ${this.formatTimestamp(segment.endTime, ',')}`,
+      segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text
+    ].join('\n')).join('\n\n') + '\n';
+  }
+
+  toVTT(segments: TranscriptSegment[]): string {
+    const cues = segments.map(segment => [
+      `${this.formatTimestamp(segment.startTime, '.')} --> ${this.formatTimestamp(segment.endTime, '.')}`,
+      segment.speaker ? `<v ${this.escapeVTT(segment.speaker)}>${this.escapeVTT(segment.text)}` : this.escapeVTT(segment.text)
+    ].join('\n'));
+
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+  }
+
+  format(segments: TranscriptSegment[], format: TranscriptFormat): string {
+    switch (format) {
+      case 'srt':
+        return this.toSRT(segments);
+      case 'vtt':
+        return this.toVTT(segments);
+      default:
+        return this.toJSON(segments);
+    }
+  }
+
+  private formatTimestamp(seconds: number, millisecondSeparator: string): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3_600_000);
+    const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+    const secs = Math.floor((totalMs % 60_000) / 1000);
+    const ms = totalMs % 1000;
+
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${millisecondSeparator}${ms.toString().padStart(3, '0')}`;
+  }
+
+  private escapeVTT(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private round(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { AdDetection, TranscriptSegment } from '@podcastoor/shared';
+import { buildKeptSegments, toProcessedTime, toProcessedTimeClamped } from '../audio/timeline';
+
+/**
+ * Shifts transcript timestamps from the original audio onto the processed
+ * audio. Segments spoken entirely during a removed ad are dropped, segments
+ * straddling an ad boundary are trimmed to the kept audio.
+ */
+export function alignTranscriptToProcessedAudio(
+  transcript: TranscriptSegment[],
+  removedAds: AdDetection[],
+  originalDuration: number
+): TranscriptSegment[] {
+  const keptSegments = buildKeptSegments(removedAds, originalDuration);
+  const aligned: TranscriptSegment[] = [];
+
+  for (const segment of transcript) {
+    const startTime = toProcessedTimeClamped(segment.startTime, keptSegments);
+    const endTime = toProcessedTimeClamped(segment.endTime, keptSegments);
+
+    if (endTime <= startTime) {
+      continue;
+    }
+
+    const words = segment.words
+      ?.map(word => {
+        const wordStart = toProcessedTime(word.startTime, keptSegments);
+        const wordEnd = toProcessedTime(word.endTime, keptSegments);
+        return wordStart !== null && wordEnd !== null
+          ? { ...word, startTime: wordStart, endTime: wordEnd }
+          : null;
+      })
+      .filter((word): word is NonNullable<typeof word> => word !== null);
+
+    aligned.push({
+      ...segment,
+      startTime,
+      endTime,
+      words: words && words.length > 0 ? words : undefined
+    });
+  }
+
+  return aligned;
+}
\ No newline at end of file
@@ -0,0 +1,3 @@
+export { TranscriptFormatter, TRANSCRIPT_CONTENT_TYPES, type TranscriptFormat } from './TranscriptFormatter';
+export { alignTranscriptToProcessedAudio } from './alignment';
+export { buildTranscriptLinks } from './links';
\ No newline at end of file
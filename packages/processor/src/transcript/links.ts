@@ -0,0 +1,18 @@
+import { EpisodeTranscript } from '@podcastoor/shared';
+import { TRANSCRIPT_CONTENT_TYPES } from './TranscriptFormatter';
+
+/**
+ * The hosted transcript files for an episode, in the order they should be
+ * listed in the feed. VTT comes first as it has the widest player support.
+ * A private feed's links carry its token, like its audio URLs.
+ */
+export function buildTranscriptLinks(publicUrl: string, episodeGuid: string, options: { token?: string; language?: string } = {}): EpisodeTranscript[] {
+  const { token, language } = options;
+  const baseUrl = `${publicUrl}/transcripts/${token ? `${token}/` : ''}${encodeURIComponent(episodeGuid)}`;
+
+  return [
+    { url: `${baseUrl}.vtt`, type: TRANSCRIPT_CONTENT_TYPES.vtt, language, rel: 'captions' },
+    { url: `${baseUrl}.srt`, type: TRANSCRIPT_CONTENT_TYPES.srt, language, rel: 'captions' },
+    { url: `${baseUrl}.json`, type: TRANSCRIPT_CONTENT_TYPES.json, language }
+  ];
+}
\ No newline at end of file
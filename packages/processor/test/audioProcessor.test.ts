@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AudioProcessor } from '../src/audio/AudioProcessor';
+import { makeTempDir, startStubServer } from './helpers';
+
+const MB = 1024 * 1024;
+
+test('artwork over the size limit is skipped without reading all of it', async () => {
+  const temp = makeTempDir('artwork');
+  let bytesSent = 0;
+  const server = await startStubServer((request, response) => {
+    if (request.url === '/small.jpg') {
+      response.writeHead(200, { 'Content-Type': 'image/jpeg' }).end(Buffer.from('jpeg'));
+      return;
+    }
+    if (request.url === '/declared.jpg') {
+      response.writeHead(200, { 'Content-Type': 'image/jpeg', 'Content-Length': String(50 * MB) });
+      response.write(Buffer.alloc(1024));
+      return;
+    }
+
+    // No Content-Length: keep streaming until the client hangs up
+    response.writeHead(200, { 'Content-Type': 'image/jpeg' });
+    const pump = () => {
+      while (!response.destroyed && bytesSent < 50 * MB) {
+        bytesSent += MB;
+        if (!response.write(Buffer.alloc(MB))) {
+          response.once('drain', pump);
+          return;
+        }
+      }
+      response.end();
+    };
+    response.on('close', () => response.destroy());
+    pump();
+  });
+
+  try {
+    const audio = new AudioProcessor({ tempDirectory: temp.path });
+
+    assert.deepEqual(await audio.fetchArtwork(`${server.url}/small.jpg`), { mimeType: 'image/jpeg', data: Buffer.from('jpeg') });
+    assert.equal(await audio.fetchArtwork(`${server.url}/declared.jpg`), undefined);
+    assert.equal(await audio.fetchArtwork(`${server.url}/streamed.jpg`), undefined);
+    assert.ok(bytesSent < 50 * MB, `sent ${bytesSent / MB}MB`);
+  } finally {
+    await server.close();
+    temp.remove();
+  }
+});
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { Hono } from 'hono';
+import { Database } from '../src/database/Database';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { AuthManager } from '../src/services/AuthManager';
+import { requireAdmin } from '../src/api/auth';
+import { createAPIServer } from '../src/api/server';
+import { PodcastProcessor } from '../src/PodcastProcessor';
+import { EventBus } from '../src/services/EventBus';
+import { makeTempDir, startStubServer } from './helpers';
+
+test('every API route but sign-in needs an admin, and OPML also takes a feed token', async () => {
+  const temp = makeTempDir('auth');
+  writeFileSync(join(temp.path, 'config.yaml'), [
+    'podcasts: []',
+    `dataDir: ${temp.path}`,
+    'auth:',
+    '  apiKeys: [test-key]',
+    ''
+  ].join('\n'));
+  const db = new Database({ path: join(temp.path, 'podcastoor.db') });
+
+  try {
+    const auth = new AuthManager(db, new ConfigManager(temp.path));
+    const feedToken = auth.createFeedToken(db.createUser('listener').id);
+    const app = new Hono();
+    app.use('/api/*', requireAdmin(auth));
+    app.all('/api/*', c => c.text('ok'));
+
+    const status = async (path: string, headers: Record<string, string> = {}) => (await app.request(path, { headers })).status;
+
+    for (const path of ['/api/episodes/guid-1', '/api/events', '/api/costs', '/api/cleanup/preview', '/api/opml', '/api/shows']) {
+      assert.equal(await status(path), 401, path);
+      assert.equal(await status(path, { Authorization: 'Bearer test-key' }), 200, path);
+    }
+
+    assert.equal(await status('/api/auth/session'), 200);
+    assert.equal(await status(`/api/opml?token=${feedToken.token}`), 200);
+    assert.equal(await status('/api/opml?token=unknown'), 401);
+    assert.equal(await status(`/api/shows?token=${feedToken.token}`), 401);
+  } finally {
+    db.close();
+    temp.remove();
+  }
+});
+test('hosted transcripts and chapters need an admin, or a feed token subscribed to the show', async () => {
+  const temp = makeTempDir('auth');
+  writeFileSync(join(temp.path, 'config.yaml'), [
+    'podcasts: []',
+    `dataDir: ${temp.path}`,
+    'auth:',
+    '  apiKeys: [test-key]',
+    ''
+  ].join('\n'));
+  const db = new Database({ path: join(temp.path, 'podcastoor.db') });
+  const upstream = await startStubServer((_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'application/rss+xml' }).end(
+      '<?xml version="1.0"?><rss version="2.0"><channel><title>Show</title>' +
+      '<item><title>Episode 1</title><guid>ep-1</guid><enclosure url="https://example.com/ep-1.mp3" type="audio/mpeg" length="1"/></item>' +
+      '</channel></rss>'
+    );
+  });
+
+  try {
+    const config = new ConfigManager(temp.path);
+    const auth = new AuthManager(db, config);
+    // The routes under test only read from these
+    const processor = {
+      getDatabase: () => db,
+      getConfig: () => config,
+      getAuth: () => auth,
+      getEvents: () => new EventBus()
+    } as unknown as PodcastProcessor;
+    const app = createAPIServer(processor);
+
+    db.upsertShow('show', 'Show', undefined, `${upstream.url}/feed.xml`);
+    db.upsertEpisode({ guid: 'ep-1', showId: 'show', title: 'Episode 1', description: '', audioUrl: 'https://example.com/ep-1.mp3', publishDate: new Date(), duration: 600 });
+    const jobId = db.createJob('ep-1');
+    db.claimNextJob('worker');
+    db.completeJob(jobId, 'worker', {
+      podcastId: 'show',
+      episodeId: 'ep-1',
+      originalUrl: 'https://example.com/ep-1.mp3',
+      processedUrl: 'https://files.example.com/ep-1.mp3',
+      originalDuration: 600,
+      processedDuration: 540,
+      adsRemoved: [],
+      chapters: [{ title: 'Intro', startTime: 0, endTime: 540 }],
+      transcript: [{ startTime: 0, endTime: 5, text: 'Welcome to the show' }],
+      processingCost: 0.01,
+      processedAt: new Date()
+    });
+
+    const subscriber = db.createUser('subscriber');
+    db.subscribe(subscriber.id, 'show');
+    const subscribed = auth.createFeedToken(subscriber.id).token;
+    const stranger = auth.createFeedToken(db.createUser('stranger').id).token;
+    const keepsAds = db.createUser('keeps-ads');
+    db.subscribe(keepsAds.id, 'show');
+    db.updateUserPreferences(keepsAds.id, { adMode: 'keep' });
+    const keepsAdsToken = auth.createFeedToken(keepsAds.id).token;
+
+    const status = async (path: string, headers: Record<string, string> = {}) => (await app.request(path, { headers })).status;
+
+    for (const file of ['transcripts/ep-1.vtt', 'chapters/ep-1.json']) {
+      const [kind, name] = file.split('/');
+      assert.equal(await status(`/${file}`), 401, file);
+      assert.equal(await status(`/${file}`, { Authorization: 'Bearer test-key' }), 200, file);
+      assert.equal(await status(`/${kind}/${subscribed}/${name}`), 200, file);
+      assert.equal(await status(`/${kind}/${stranger}/${name}`), 404, file);
+      assert.equal(await status(`/${kind}/${keepsAdsToken}/${name}`), 404, file);
+      assert.equal(await status(`/${kind}/unknown/${name}`), 404, file);
+    }
+
+    // The private feed links to the token's copies
+    const feed = await (await app.request(`/rss/${subscribed}/show.rss`)).text();
+    assert.ok(feed.includes(`/transcripts/${subscribed}/ep-1.vtt`), feed);
+    assert.ok(feed.includes(`/chapters/${subscribed}/ep-1.json`), feed);
+  } finally {
+    await upstream.close();
+    db.close();
+    temp.remove();
+  }
+});
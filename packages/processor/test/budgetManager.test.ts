@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { Database } from '../src/database/Database';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { BudgetManager } from '../src/services/BudgetManager';
+import { makeTempDir } from './helpers';
+
+const llmCost = (cost: number) => ({ model: 'stub', operation: 'audio_analysis', inputTokens: 100, outputTokens: 10, totalTokens: 110, cost, durationMs: 1000 });
+
+test('a running job counts its recorded spend once, not on top of its reservation', () => {
+  const temp = makeTempDir('budget');
+  writeFileSync(join(temp.path, 'config.yaml'), [
+    'podcasts: []',
+    `dataDir: ${temp.path}`,
+    'budget:',
+    '  dailyLimit: 10',
+    '  estimatedCostPerMinute: 0.1',
+    ''
+  ].join('\n'));
+  const db = new Database({ path: join(temp.path, 'podcastoor.db') });
+
+  try {
+    const budget = new BudgetManager(db, new ConfigManager(temp.path));
+    db.upsertShow('show', 'Show', undefined, 'https://example.com/feed.xml');
+    db.upsertEpisode({ guid: 'ep-1', showId: 'show', title: 'Episode 1', description: '', audioUrl: 'https://example.com/ep-1.mp3', publishDate: new Date(), duration: 3600 });
+    const jobId = db.createJob('ep-1');
+
+    // An hour of audio at $0.10 a minute reserves $6
+    assert.equal(budget.checkJob(jobId, 'show', 3600).allowed, true);
+    assert.equal(budget.getStatus().daily?.spent, 6);
+
+    db.saveLLMCost(jobId, llmCost(4));
+    assert.equal(budget.getStatus().daily?.spent, 6);
+
+    // Going over the estimate counts what was actually spent
+    db.saveLLMCost(jobId, llmCost(3));
+    assert.equal(budget.getStatus().daily?.spent, 7);
+
+    budget.release(jobId);
+    assert.equal(budget.getStatus().daily?.spent, 7);
+  } finally {
+    db.close();
+    temp.remove();
+  }
+});
+test('a retried job reserves its full estimate despite spend from earlier attempts', () => {
+  const temp = makeTempDir('budget');
+  writeFileSync(join(temp.path, 'config.yaml'), [
+    'podcasts: []',
+    `dataDir: ${temp.path}`,
+    'budget:',
+    '  dailyLimit: 10',
+    '  estimatedCostPerMinute: 0.1',
+    ''
+  ].join('\n'));
+  const db = new Database({ path: join(temp.path, 'podcastoor.db') });
+
+  try {
+    const budget = new BudgetManager(db, new ConfigManager(temp.path));
+    db.upsertShow('show', 'Show', undefined, 'https://example.com/feed.xml');
+    db.upsertEpisode({ guid: 'ep-1', showId: 'show', title: 'Episode 1', description: '', audioUrl: 'https://example.com/ep-1.mp3', publishDate: new Date(), duration: 3600 });
+    const jobId = db.createJob('ep-1');
+
+    // The first attempt spent $4 and failed
+    assert.equal(budget.checkJob(jobId, 'show', 3600).allowed, true);
+    db.saveLLMCost(jobId, llmCost(4));
+    budget.release(jobId);
+    assert.equal(budget.getStatus().daily?.spent, 4);
+
+    // The retry still expects to spend $6 of its own
+    assert.equal(budget.checkJob(jobId, 'show', 3600).allowed, true);
+    assert.equal(budget.getStatus().daily?.spent, 10);
+
+    db.saveLLMCost(jobId, llmCost(2));
+    assert.equal(budget.getStatus().daily?.spent, 10);
+  } finally {
+    db.close();
+    temp.remove();
+  }
+});
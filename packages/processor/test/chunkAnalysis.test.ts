@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { LLMOrchestrator } from '../src/llm/LLMOrchestrator';
+import { AudioChunk } from '../src/audio/types';
+import { makeTempDir, sendJson, startStubServer } from './helpers';
+
+function writeChunks(dir: string, count: number): AudioChunk[] {
+  return Array.from({ length: count }, (_, chunkIndex) => {
+    const filePath = join(dir, `chunk_${chunkIndex}.mp3`);
+    writeFileSync(filePath, Buffer.from(`chunk ${chunkIndex}`));
+    return { filePath, startTime: chunkIndex * 600, endTime: (chunkIndex + 1) * 600, duration: 600, chunkIndex, hasOverlap: chunkIndex > 0 };
+  });
+}
+
+test('a failing chunk stops the other runners from starting new chunks', async () => {
+  const temp = makeTempDir('chunks');
+  const server = await startStubServer(async (request, response) => {
+    const audio = JSON.parse(request.body.toString()).messages[0].content[1].input_audio.data;
+    if (Buffer.from(audio, 'base64').toString() === 'chunk 0') {
+      sendJson(response, 400, { error: 'bad request' });
+      return;
+    }
+    // Still in flight when chunk 0 fails
+    await new Promise(resolve => setTimeout(resolve, 50));
+    sendJson(response, 200, {
+      choices: [{ message: { content: JSON.stringify({ adsDetected: [], chapters: [], transcript: [] }) } }]
+    });
+  });
+
+  try {
+    const orchestrator = new LLMOrchestrator({
+      geminiApiKey: 'unused',
+      models: { geminiAudio: 'gemini-unused' },
+      adDetectionProvider: 'local',
+      providers: { local: { type: 'openai-compatible', model: 'stub-audio-1', baseUrl: server.url } }
+    });
+
+    await assert.rejects(orchestrator.analyzeAudioChunks(writeChunks(temp.path, 6), 3600, { concurrency: 2 }));
+    assert.equal(server.requests.length, 2);
+  } finally {
+    await server.close();
+    temp.remove();
+  }
+});
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { makeTempDir } from './helpers';
+
+test('environment variables are expanded before provider configs are validated', () => {
+  const temp = makeTempDir('config');
+  process.env.LOCAL_LLM_URL = 'http://127.0.0.1:11434/v1';
+
+  try {
+    writeFileSync(join(temp.path, 'config.yaml'), [
+      'podcasts: []',
+      'llm:',
+      '  geminiApiKey: test',
+      '  models:',
+      '    geminiAudio: gemini-test',
+      '  providers:',
+      '    local:',
+      '      type: openai-compatible',
+      '      model: local-audio',
+      '      baseUrl: ${LOCAL_LLM_URL}',
+      ''
+    ].join('\n'));
+
+    const config = new ConfigManager(temp.path);
+    assert.equal(config.getLLMConfig().providers?.local.baseUrl, 'http://127.0.0.1:11434/v1');
+  } finally {
+    delete process.env.LOCAL_LLM_URL;
+    temp.remove();
+  }
+});
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { ProcessingResult } from '@podcastoor/shared';
+import { Database } from '../src/database/Database';
+import { makeTempDir } from './helpers';
+
+function createDatabase() {
+  const temp = makeTempDir('database');
+  const db = new Database({ path: join(temp.path, 'podcastoor.db') });
+  db.upsertShow('show', 'Show', undefined, 'https://example.com/feed.xml');
+  db.upsertEpisode({ guid: 'ep-1', showId: 'show', title: 'Episode 1', description: '', audioUrl: 'https://example.com/ep-1.mp3', publishDate: new Date(), duration: 600 });
+  const jobId = db.createJob('ep-1');
+
+  return {
+    db,
+    jobId,
+    close() {
+      db.close();
+      temp.remove();
+    }
+  };
+}
+
+function createResult(overrides: Partial<ProcessingResult> = {}): ProcessingResult {
+  return {
+    podcastId: 'show',
+    episodeId: 'ep-1',
+    originalUrl: 'https://example.com/ep-1.mp3',
+    processedUrl: 'https://files.example.com/ep-1.mp3',
+    originalDuration: 600,
+    processedDuration: 540,
+    adsRemoved: [{ startTime: 60, endTime: 120, confidence: 0.9, adType: 'pre-roll', description: 'Sponsor' }],
+    chapters: [{ title: 'Intro', startTime: 0, endTime: 540 }],
+    processingCost: 0.01,
+    processedAt: new Date(),
+    ...overrides
+  };
+}
+
+test('saving a processing result again replaces the earlier rows', () => {
+  const { db, jobId, close } = createDatabase();
+
+  try {
+    db.saveProcessingResult(jobId, createResult());
+    db.saveProcessingResult(jobId, createResult({ processedUrl: 'https://files.example.com/ep-1-v2.mp3' }));
+
+    assert.equal(db.getProcessedEpisode(jobId)?.processedUrl, 'https://files.example.com/ep-1-v2.mp3');
+    assert.equal(db.getChapters(jobId).length, 1);
+    assert.equal(db.getAds(jobId).length, 1);
+  } finally {
+    close();
+  }
+});
+
+test('a failed save leaves nothing behind', () => {
+  const { db, jobId, close } = createDatabase();
+
+  try {
+    // A chapter without a title violates the schema after the processed episode row is written
+    const broken = createResult({ chapters: [{ title: null as unknown as string, startTime: 0, endTime: 540 }] });
+
+    assert.throws(() => db.saveProcessingResult(jobId, broken));
+    assert.equal(db.getProcessedEpisode(jobId), null);
+    assert.equal(db.getAds(jobId).length, 0);
+
+    db.saveProcessingResult(jobId, createResult());
+    assert.equal(db.getChapters(jobId).length, 1);
+  } finally {
+    close();
+  }
+});
+test('a worker that lost its lease cannot finish, fail or retry the job', () => {
+  const { db, jobId, close } = createDatabase();
+
+  try {
+    db.claimNextJob('worker-a');
+    // worker-a stops heartbeating; the sweeper requeues the job and worker-b claims it
+    db.requeueExpiredJobs(new Date(Date.now() + 1000), 3);
+    db.claimNextJob('worker-b');
+
+    assert.equal(db.heartbeatJob(jobId, 'worker-a'), false);
+    assert.equal(db.completeJob(jobId, 'worker-a', createResult()), false);
+    assert.equal(db.scheduleJobRetry(jobId, 'worker-a', 'timeout', new Date()), false);
+    assert.equal(db.updateJobStatus(jobId, 'failed', 'timeout', 'worker-a'), false);
+    assert.equal(db.updateJobStatus(jobId, 'pending', undefined, 'worker-a'), false);
+    assert.equal(db.getJob(jobId)?.status, 'processing');
+    assert.equal(db.getProcessedEpisode(jobId), null);
+
+    assert.equal(db.completeJob(jobId, 'worker-b', createResult()), true);
+    assert.equal(db.getJob(jobId)?.status, 'completed');
+    assert.equal(db.getChapters(jobId).length, 1);
+  } finally {
+    close();
+  }
+});
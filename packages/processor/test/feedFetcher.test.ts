@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { ServerEvent } from '@podcastoor/shared';
+import { Database } from '../src/database/Database';
+import { FeedFetcher } from '../src/rss/FeedFetcher';
+import { EventBus } from '../src/services/EventBus';
+import { makeTempDir, startStubServer } from './helpers';
+
+const FEED = '<?xml version="1.0"?><rss version="2.0"><channel><title>Show</title></channel></rss>';
+
+test('a failing feed is backed off and announced once per outage', async () => {
+  const temp = makeTempDir('feeds');
+  let upstreamUp = false;
+  const server = await startStubServer((_request, response) => {
+    if (upstreamUp) {
+      response.writeHead(200, { 'Content-Type': 'application/rss+xml', ETag: '"v1"' }).end(FEED);
+    } else {
+      response.writeHead(503).end('down for maintenance');
+    }
+  });
+
+  const db = new Database({ path: join(temp.path, 'test.db') });
+  const events = new EventBus();
+  const failures: ServerEvent[] = [];
+  events.subscribe(event => event.type === 'feed.fetch_failed' && failures.push(event));
+
+  try {
+    const feedUrl = `${server.url}/feed.xml`;
+    db.upsertShow('show', 'Show', undefined, feedUrl);
+    const fetcher = new FeedFetcher(db, { cacheSeconds: 0, timeoutMs: 5000 }, events);
+
+    // First failure reaches upstream and is announced
+    await assert.rejects(fetcher.fetchFeed('show', feedUrl), /503/);
+    assert.equal(server.requests.length, 1);
+    assert.equal(failures.length, 1);
+
+    // Within the backoff window upstream isn't asked again
+    await assert.rejects(fetcher.fetchFeed('show', feedUrl), /retrying after/);
+    assert.equal(server.requests.length, 1);
+
+    // Once the backoff expires it is retried, but the same outage isn't announced again
+    const failure = db.getFeedFailure('show')!;
+    db.saveFeedFailure({ ...failure, retryAt: new Date(Date.now() - 1000) });
+    await assert.rejects(fetcher.fetchFeed('show', feedUrl), /503/);
+    assert.equal(server.requests.length, 2);
+    assert.equal(failures.length, 1);
+    assert.equal(db.getFeedFailure('show')?.failures, 2);
+    assert.equal(db.getFeedFailure('show')?.failedAt.getTime(), failure.failedAt.getTime());
+
+    // Recovery clears the failure so the next outage is announced again
+    upstreamUp = true;
+    db.saveFeedFailure({ ...db.getFeedFailure('show')!, retryAt: new Date(Date.now() - 1000) });
+    const fetched = await fetcher.fetchFeed('show', feedUrl);
+    assert.equal(fetched.body, FEED);
+    assert.equal(db.getFeedFailure('show'), null);
+
+    // With a cached copy, an outage serves the stale copy instead of failing
+    upstreamUp = false;
+    const stale = await fetcher.fetchFeed('show', feedUrl);
+    assert.equal(stale.stale, true);
+    assert.equal(stale.body, FEED);
+    assert.equal(failures.length, 2);
+
+    const requestsBefore = server.requests.length;
+    assert.equal((await fetcher.fetchFeed('show', feedUrl)).stale, true);
+    assert.equal(server.requests.length, requestsBefore);
+  } finally {
+    db.close();
+    await server.close();
+    temp.remove();
+  }
+});
\ No newline at end of file
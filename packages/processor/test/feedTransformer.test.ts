@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { FeedItemRewrite, FeedTransformer, FeedTransformOptions, ProcessedItemDetails, buildChaptersUrl } from '../src/rss';
+import { buildTranscriptLinks } from '../src/transcript';
+
+// Golden files live next to their input as <name>.expected.xml; run with UPDATE_GOLDEN=1 to rewrite them
+const FIXTURES = join(__dirname, 'fixtures', 'feeds');
+const PUBLIC_URL = 'https://podcastoor.example.com';
+
+function processed(guid: string, overrides: Partial<ProcessedItemDetails> = {}): ProcessedItemDetails {
+  return {
+    originalDuration: 3600,
+    processedDuration: 3330,
+    adsRemoved: 3,
+    enclosureLength: 53280000,
+    enclosureType: 'audio/mpeg',
+    chapters: [
+      { title: 'Intro', startTime: 0, endTime: 120 },
+      { title: 'Main topic', startTime: 120.5, endTime: 3330 }
+    ],
+    chaptersUrl: buildChaptersUrl(PUBLIC_URL, guid),
+    transcripts: buildTranscriptLinks(PUBLIC_URL, guid),
+    ...overrides
+  };
+}
+
+function rewrites(entries: Array<[string, ProcessedItemDetails?]>): Map<string, FeedItemRewrite> {
+  return new Map(entries.map(([guid, details]) => [guid, {
+    audioUrl: `${PUBLIC_URL}/audio/${encodeURIComponent(guid)}`,
+    processed: details
+  }]));
+}
+
+const cases: Array<{ name: string; sourceUrl: string; items: Map<string, FeedItemRewrite>; options?: Partial<FeedTransformOptions> }> = [
+  {
+    name: 'cdata-less-descriptions',
+    sourceUrl: 'https://plain.example.com/feed.xml',
+    items: rewrites([['plain-2', processed('plain-2')], ['plain-1', processed('plain-1', { adsRemoved: 0, chapters: [], transcripts: [] })]])
+  },
+  {
+    name: 'entity-encoded-guids',
+    sourceUrl: 'https://query.example.com/feed.xml',
+    items: rewrites([
+      ['https://query.example.com/?p=7&show=query', processed('https://query.example.com/?p=7&show=query', { adsRemoved: 1, transcripts: [] })],
+      ['https://query.example.com/?p=6&show=query', undefined]
+    ])
+  },
+  {
+    name: 'items-without-guid',
+    sourceUrl: 'https://noguid.example.com/feed.xml',
+    items: rewrites([
+      ['https://noguid.example.com/feed.xml-0', processed('https://noguid.example.com/feed.xml-0', { chapters: [], transcripts: [] })],
+      ['https://noguid.example.com/feed.xml-1', undefined]
+    ])
+  },
+  {
+    name: 'missing-enclosure-length',
+    sourceUrl: 'https://lengthless.example.com/feed.xml',
+    items: rewrites([
+      ['lengthless-2', processed('lengthless-2', { enclosureType: 'audio/mp4', enclosureLength: 12345, adsRemoved: 0, chapters: [], transcripts: [] })],
+      ['lengthless-1', undefined]
+    ])
+  },
+  {
+    name: 'unknown-namespaces',
+    sourceUrl: 'https://ns.example.com/feed.xml',
+    items: rewrites([['ns-1', processed('ns-1', { chapters: [], transcripts: [] })]])
+  },
+  {
+    name: 'upstream-podcast-tags',
+    sourceUrl: 'https://p20.example.com/feed.xml',
+    items: rewrites([['p20-2', processed('p20-2')], ['p20-1', undefined]]),
+    options: { titleSuffix: 'short', chapterFormat: 'podcast' }
+  }
+];
+
+for (const { name, sourceUrl, items, options } of cases) {
+  test(`transforms ${name}`, () => {
+    const input = readFileSync(join(FIXTURES, `${name}.xml`), 'utf8');
+    const expectedPath = join(FIXTURES, `${name}.expected.xml`);
+
+    const output = new FeedTransformer().transform(input, {
+      feedUrl: `${PUBLIC_URL}/rss/show`,
+      sourceUrl,
+      items,
+      ...options
+    });
+
+    if (process.env.UPDATE_GOLDEN) {
+      writeFileSync(expectedPath, output);
+    }
+    assert.ok(existsSync(expectedPath), `Missing golden file ${name}.expected.xml; run with UPDATE_GOLDEN=1 to create it`);
+    assert.equal(output, readFileSync(expectedPath, 'utf8'));
+  });
+}
+
+test('rejects documents that are not RSS', () => {
+  assert.throws(
+    () => new FeedTransformer().transform('<feed xmlns="http://www.w3.org/2005/Atom"></feed>', {
+      feedUrl: `${PUBLIC_URL}/rss/show`,
+      sourceUrl: 'https://atom.example.com/feed',
+      items: new Map()
+    }),
+    /not an RSS 2.0 document/
+  );
+});
\ No newline at end of file
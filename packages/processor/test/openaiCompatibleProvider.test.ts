@@ -0,0 +1,285 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { ServerResponse } from 'http';
+import { join } from 'path';
+import { OpenAICompatibleProvider } from '../src/llm/providers';
+import { LLMOrchestrator } from '../src/llm/LLMOrchestrator';
+import { AnalysisError } from '../src/llm/errors';
+import { makeTempDir, sendJson, startStubServer } from './helpers';
+
+const analysis = {
+  adsDetected: [
+    { startTime: 60, endTime: 90, confidence: 0.95, adType: 'mid-roll', description: 'An ad for a VPN', detectionReason: 'TEXT_CONTENT', sponsor: 'SafeVPN', hostRead: true }
+  ],
+  chapters: [{ title: 'Intro', startTime: 0, endTime: 60 }],
+  transcript: [{ startTime: 0, endTime: 4, speaker: 'Host', text: ' Welcome back. ' }]
+};
+
+function completion(content: unknown) {
+  return {
+    model: 'stub-audio-1',
+    choices: [{ message: { role: 'assistant', content: JSON.stringify(content) } }],
+    usage: { prompt_tokens: 2_000_000, completion_tokens: 500_000 }
+  };
+}
+
+function writeAudio(dir: string): string {
+  const audioPath = join(dir, 'episode.mp3');
+  writeFileSync(audioPath, Buffer.from('not really an mp3'));
+  return audioPath;
+}
+
+test('sends audio as an input_audio part and prices the response', async () => {
+  const temp = makeTempDir('provider');
+  const server = await startStubServer((_request, response) => sendJson(response, 200, completion(analysis)));
+
+  try {
+    const provider = new OpenAICompatibleProvider('local', {
+      type: 'openai-compatible',
+      model: 'stub-audio-1',
+      baseUrl: `${server.url}/v1/`,
+      apiKey: 'secret',
+      headers: { 'X-Title': 'podcastoor-test' },
+      pricing: { inputPerMillion: 1, outputPerMillion: 4 }
+    });
+
+    const response = await provider.analyzeAudio({
+      audioPath: writeAudio(temp.path),
+      model: 'stub-audio-1',
+      prompt: 'Find the ads',
+      responseSchema: { type: 'object' },
+      maxOutputTokens: 1000
+    });
+
+    assert.equal(server.requests.length, 1);
+    const [request] = server.requests;
+    assert.equal(request.method, 'POST');
+    assert.equal(request.url, '/v1/chat/completions');
+    assert.equal(request.headers.authorization, 'Bearer secret');
+    assert.equal(request.headers['x-title'], 'podcastoor-test');
+
+    const body = JSON.parse(request.body.toString());
+    assert.equal(body.model, 'stub-audio-1');
+    assert.equal(body.max_tokens, 1000);
+    assert.equal(body.response_format.type, 'json_schema');
+    const [text, audio] = body.messages[0].content;
+    assert.deepEqual(text, { type: 'text', text: 'Find the ads' });
+    assert.equal(audio.input_audio.format, 'mp3');
+    assert.equal(Buffer.from(audio.input_audio.data, 'base64').toString(), 'not really an mp3');
+
+    assert.deepEqual(JSON.parse(response.text), analysis);
+    assert.equal(response.inputTokens, 2_000_000);
+    assert.equal(response.outputTokens, 500_000);
+    assert.equal(response.cost, 4);
+  } finally {
+    await server.close();
+    temp.remove();
+  }
+});
+
+test('LLMOrchestrator analyzes audio end to end through a configured local provider', async () => {
+  const temp = makeTempDir('orchestrator');
+  const server = await startStubServer((_request, response) => sendJson(response, 200, completion(analysis)));
+
+  try {
+    const orchestrator = new LLMOrchestrator({
+      geminiApiKey: 'unused',
+      models: { geminiAudio: 'gemini-unused' },
+      adDetectionProvider: 'local',
+      providers: {
+        local: { type: 'openai-compatible', model: 'stub-audio-1', baseUrl: server.url }
+      }
+    });
+
+    const result = await orchestrator.analyzeAudio(writeAudio(temp.path));
+
+    assert.equal(result.provider, 'local');
+    assert.equal(result.model, 'stub-audio-1');
+    assert.deepEqual(result.adsDetected, [{
+      startTime: 60,
+      endTime: 90,
+      confidence: 0.95,
+      adType: 'mid-roll',
+      description: '[AUDIO] An ad for a VPN',
+      sponsor: 'SafeVPN',
+      hostRead: true
+    }]);
+    assert.deepEqual(result.chapters, [{ title: 'Intro', startTime: 0, endTime: 60, description: undefined }]);
+    assert.equal(result.transcript[0].text, 'Welcome back.');
+    assert.equal(result.attempts?.length, 1);
+
+    // The transcript may be cut short, and word timings are optional within it
+    const { schema } = JSON.parse(server.requests[0].body.toString()).response_format.json_schema;
+    assert.deepEqual(schema.required, ['adsDetected', 'chapters']);
+    assert.equal(schema.properties.transcript.items.properties.words.type, 'array');
+    assert.deepEqual(schema.properties.transcript.items.required, ['startTime', 'endTime', 'text']);
+  } finally {
+    await server.close();
+    temp.remove();
+  }
+});
+
+test('word timings are kept, up to a cap per segment', async () => {
+  const temp = makeTempDir('orchestrator');
+  const words = Array.from({ length: 150 }, (_, index) => ({ word: `w${index}`, startTime: index, endTime: index + 1 }));
+  const transcript = [{ startTime: 0, endTime: 150, text: 'Many words', words }];
+  const server = await startStubServer((_request, response) => sendJson(response, 200, completion({ ...analysis, transcript })));
+
+  try {
+    const orchestrator = new LLMOrchestrator({
+      geminiApiKey: 'unused',
+      models: { geminiAudio: 'gemini-unused' },
+      adDetectionProvider: 'local',
+      providers: {
+        local: { type: 'openai-compatible', model: 'stub-audio-1', baseUrl: server.url }
+      }
+    });
+
+    const result = await orchestrator.analyzeAudio(writeAudio(temp.path));
+
+    assert.equal(result.transcript[0].words?.length, 100);
+    assert.deepEqual(result.transcript[0].words?.[0], { word: 'w0', startTime: 0, endTime: 1 });
+  } finally {
+    await server.close();
+    temp.remove();
+  }
+});
+
+test('podcasts without chapters leave them out of the analysis request', async () => {
+  const temp = makeTempDir('orchestrator');
+  const server = await startStubServer((_request, response) => sendJson(response, 200, completion({ ...analysis, chapters: undefined })));
+
+  try {
+    const orchestrator = new LLMOrchestrator({
+      geminiApiKey: 'unused',
+      models: { geminiAudio: 'gemini-unused' },
+      adDetectionProvider: 'local',
+      providers: {
+        local: { type: 'openai-compatible', model: 'stub-audio-1', baseUrl: server.url }
+      }
+    });
+
+    const result = await orchestrator.analyzeAudio(writeAudio(temp.path), { generateChapters: false });
+
+    assert.deepEqual(result.chapters, []);
+    const body = JSON.parse(server.requests[0].body.toString());
+    const { schema } = body.response_format.json_schema;
+    assert.deepEqual(schema.required, ['adsDetected']);
+    assert.equal(schema.properties.chapters, undefined);
+    const prompt: string = body.messages[0].content[0].text;
+    assert.doesNotMatch(prompt, /CHAPTERS/);
+    assert.match(prompt, /\n2\. TRANSCRIPT:/);
+  } finally {
+    await server.close();
+    temp.remove();
+  }
+});
+
+test('server errors are retryable', async () => {
+  const temp = makeTempDir('provider');
+  const server = await startStubServer((_request, response) => sendJson(response, 503, { error: 'overloaded' }));
+
+  try {
+    const provider = new OpenAICompatibleProvider('local', { type: 'openai-compatible', model: 'stub-audio-1', baseUrl: server.url });
+
+    await assert.rejects(
+      provider.analyzeAudio({ audioPath: writeAudio(temp.path), model: 'stub-audio-1', prompt: '', responseSchema: {}, maxOutputTokens: 10 }),
+      (error: unknown) => error instanceof AnalysisError && error.retryable && error.details?.status === 503
+    );
+  } finally {
+    await server.close();
+    temp.remove();
+  }
+});
+
+test('a hung server times out and the next model is tried', async () => {
+  const temp = makeTempDir('orchestrator');
+  const hung: ServerResponse[] = [];
+  const server = await startStubServer((request, response) => {
+    if (JSON.parse(request.body.toString()).model === 'stub-audio-1') {
+      hung.push(response);
+    } else {
+      sendJson(response, 200, completion(analysis));
+    }
+  });
+
+  try {
+    const orchestrator = new LLMOrchestrator({
+      geminiApiKey: 'unused',
+      models: { geminiAudio: 'gemini-unused' },
+      adDetectionProvider: 'local',
+      providers: {
+        local: { type: 'openai-compatible', model: 'stub-audio-1', baseUrl: server.url, timeoutSeconds: 0.2 }
+      },
+      fallbackModels: ['local:stub-audio-2']
+    });
+
+    const result = await orchestrator.analyzeAudio(writeAudio(temp.path));
+
+    assert.equal(result.model, 'stub-audio-2');
+    assert.equal(result.attempts?.[0].retryable, true);
+    assert.match(result.attempts?.[0].error ?? '', /timed out after 0.2s/);
+  } finally {
+    hung.forEach(response => response.destroy());
+    await server.close();
+    temp.remove();
+  }
+});
+
+test('client errors are fatal and stop the fallback chain', async () => {
+  const temp = makeTempDir('orchestrator');
+  const server = await startStubServer((_request, response) => sendJson(response, 401, { error: 'invalid api key' }));
+
+  try {
+    const orchestrator = new LLMOrchestrator({
+      geminiApiKey: 'unused',
+      models: { geminiAudio: 'gemini-unused' },
+      adDetectionProvider: 'local',
+      providers: {
+        local: { type: 'openai-compatible', model: 'stub-audio-1', baseUrl: server.url }
+      },
+      fallbackModels: ['local:stub-audio-2']
+    });
+
+    await assert.rejects(
+      orchestrator.analyzeAudio(writeAudio(temp.path)),
+      (error: unknown) => error instanceof AnalysisError && !error.retryable
+    );
+    assert.equal(server.requests.length, 1);
+  } finally {
+    await server.close();
+    temp.remove();
+  }
+});
+
+test('rate limits fall back to the next model', async () => {
+  const temp = makeTempDir('orchestrator');
+  const server = await startStubServer((request, response) => {
+    const { model } = JSON.parse(request.body.toString());
+    if (model === 'stub-audio-1') {
+      sendJson(response, 429, { error: 'slow down' });
+    } else {
+      sendJson(response, 200, completion(analysis));
+    }
+  });
+
+  try {
+    const orchestrator = new LLMOrchestrator({
+      geminiApiKey: 'unused',
+      models: { geminiAudio: 'gemini-unused' },
+      adDetectionProvider: 'local',
+      providers: {
+        local: { type: 'openai-compatible', model: 'stub-audio-1', baseUrl: server.url }
+      },
+      fallbackModels: ['local:stub-audio-2']
+    });
+
+    const result = await orchestrator.analyzeAudio(writeAudio(temp.path));
+    assert.equal(result.model, 'stub-audio-2');
+    assert.deepEqual(result.attempts?.map(attempt => attempt.success), [false, true]);
+  } finally {
+    await server.close();
+    temp.remove();
+  }
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobContext } from '@podcastoor/shared';
+import { PodcastWorker } from '../src/jobs/workers/PodcastWorker';
+import { LeaseLostError } from '../src/jobs/retry';
+import { AudioProcessor } from '../src/audio/AudioProcessor';
+import { LLMOrchestrator } from '../src/llm/LLMOrchestrator';
+import { StorageManager } from '../src/storage/StorageManager';
+import { RSSProcessor } from '../src/rss/RSSProcessor';
+
+// Records every method called on it, resolving each with undefined
+function recorder<T>(calls: string[], name: string, overrides: Record<string, (...args: any[]) => unknown> = {}): T {
+  return new Proxy(overrides, {
+    get: (target, prop) => {
+      if (typeof prop !== 'string' || prop === 'then') return undefined;
+      return async (...args: any[]) => {
+        calls.push(`${name}.${prop}`);
+        return target[prop]?.(...args);
+      };
+    }
+  }) as T;
+}
+
+const jobData = {
+  podcastId: 'show',
+  episodeId: 'ep-1',
+  audioUrl: 'https://example.com/ep-1.mp3',
+  minAdDuration: 15,
+  episodeTitle: 'Episode 1',
+  duration: 600,
+  jobId: 1
+};
+
+test('a worker that loses its lease mid-job stops before the later stages', async () => {
+  const calls: string[] = [];
+  let leaseLost = false;
+  const context: JobContext = {
+    jobId: 1,
+    startTime: new Date(),
+    updateProgress: async () => {
+      if (leaseLost) throw new LeaseLostError(1);
+    },
+    recordLLMCost: async () => {},
+    recordStep: async () => {
+      if (leaseLost) throw new LeaseLostError(1);
+    }
+  };
+
+  const audioProcessor = recorder<AudioProcessor>(calls, 'audio', {
+    downloadAudio: async () => '/tmp/ep-1.mp3',
+    // Another worker takes the job over while this one is downloading
+    extractMetadata: async () => {
+      leaseLost = true;
+      return { duration: 600, size: 1024, format: 'mp3', bitrate: 128000, sampleRate: 44100, channels: 2 };
+    }
+  });
+  const llm = recorder<LLMOrchestrator>(calls, 'llm');
+  const storage = recorder<StorageManager>(calls, 'storage');
+  const worker = new PodcastWorker(audioProcessor, llm, storage, recorder<RSSProcessor>(calls, 'rss'));
+
+  await assert.rejects(worker.process(jobData, context), LeaseLostError);
+  assert.ok(!calls.some(call => call.startsWith('llm.')), `analysis ran after the lease was lost: ${calls.join(', ')}`);
+  assert.ok(!calls.some(call => call.startsWith('storage.')), `uploads ran after the lease was lost: ${calls.join(', ')}`);
+});
+
+test('other progress recording failures do not fail the job stage', async () => {
+  const calls: string[] = [];
+  const context: JobContext = {
+    jobId: 1,
+    startTime: new Date(),
+    updateProgress: async () => {
+      throw new Error('database is locked');
+    },
+    recordLLMCost: async () => {},
+    recordStep: async () => {}
+  };
+
+  const audioProcessor = recorder<AudioProcessor>(calls, 'audio', {
+    downloadAudio: async () => '/tmp/ep-1.mp3',
+    extractMetadata: async () => ({ duration: 600, size: 1024, format: 'mp3', bitrate: 128000, sampleRate: 44100, channels: 2 })
+  });
+  // Analysis failing is how the test stops the run once progress recording has been survived
+  const llm = recorder<LLMOrchestrator>(calls, 'llm', {
+    analyzeAudio: async () => {
+      throw new Error('analysis stopped by test');
+    }
+  });
+  const worker = new PodcastWorker(audioProcessor, llm, recorder<StorageManager>(calls, 'storage'), recorder<RSSProcessor>(calls, 'rss'));
+
+  await assert.rejects(worker.process(jobData, context), /analysis stopped by test/);
+  assert.ok(calls.some(call => call.startsWith('llm.')));
+});
\ No newline at end of file
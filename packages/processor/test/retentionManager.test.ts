@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { Database } from '../src/database/Database';
+import { StorageManager } from '../src/storage/StorageManager';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { RetentionManager } from '../src/services/RetentionManager';
+import { makeTempDir } from './helpers';
+import { startS3Stub } from './s3Stub';
+
+const OLD = new Date('2020-01-01T00:00:00Z');
+
+async function setup() {
+  const temp = makeTempDir('retention');
+  const s3 = await startS3Stub('podcasts');
+  writeFileSync(join(temp.path, 'config.yaml'), [
+    'podcasts: []',
+    `dataDir: ${temp.path}`,
+    'processing:',
+    '  defaultRetentionDays: 30',
+    ''
+  ].join('\n'));
+
+  const db = new Database({ path: join(temp.path, 'podcastoor.db') });
+  const storage = new StorageManager({
+    baseDirectory: temp.path,
+    provider: { type: 's3', bucket: 'podcasts', endpoint: s3.url, accessKeyId: 'minioadmin', secretAccessKey: 'minioadmin' }
+  });
+  const retention = new RetentionManager(db, storage, new ConfigManager(temp.path));
+
+  db.upsertShow('show', 'Show', undefined, 'https://example.com/feed.xml');
+  for (const guid of ['ep-1', 'ep-2', 'ep-3']) {
+    db.upsertEpisode({ guid, showId: 'show', title: guid, description: '', audioUrl: `https://example.com/${guid}.mp3`, publishDate: OLD, duration: 60 });
+    s3.objects.set(`podcasts/show/2020-01-02/${guid}/audio.mp3`, { body: Buffer.from(guid), etag: '"x"', lastModified: OLD });
+    s3.objects.set(`artifacts/show/${guid}/artifacts.json`, { body: Buffer.from('{}'), etag: '"x"', lastModified: OLD });
+  }
+
+  return {
+    s3,
+    db,
+    storage,
+    retention,
+    async close() {
+      db.close();
+      await s3.close();
+      temp.remove();
+    }
+  };
+}
+
+test('lists stored files once per show and deletes expired episodes', async () => {
+  const { s3, db, retention, close } = await setup();
+
+  try {
+    const report = await retention.run();
+
+    const listings = s3.requests.filter(request => request.method === 'GET' && request.url.includes('list-type=2'));
+    assert.equal(listings.length, 2);
+    assert.equal(report.deletedEpisodes, 3);
+    assert.equal(report.deletedFiles, 6);
+    assert.equal(s3.objects.size, 0);
+    assert.equal(db.getEpisode('ep-1'), null);
+  } finally {
+    await close();
+  }
+});
+
+test("a live episode's files are kept when its GUID stores under the same key as an expired one", async () => {
+  const { s3, db, retention, close } = await setup();
+
+  try {
+    // "ep/1" and "ep-1" both sanitize to "ep-1"
+    db.upsertEpisode({ guid: 'ep/1', showId: 'show', title: 'Live', description: '', audioUrl: 'https://example.com/live.mp3', publishDate: new Date(), duration: 60 });
+
+    const report = await retention.run();
+
+    assert.deepEqual(report.episodes.find(e => e.episodeGuid === 'ep-1')?.files, []);
+    assert.ok(s3.objects.has('podcasts/show/2020-01-02/ep-1/audio.mp3'));
+    assert.ok(s3.objects.has('artifacts/show/ep-1/artifacts.json'));
+    assert.equal(s3.objects.has('podcasts/show/2020-01-02/ep-2/audio.mp3'), false);
+    assert.notEqual(db.getEpisode('ep/1'), null);
+  } finally {
+    await close();
+  }
+});
+
+test('an episode whose job is queued during cleanup keeps its rows and is reported separately', async () => {
+  const { db, storage, retention, close } = await setup();
+
+  try {
+    // Queue a job for ep-2 while its first file is being deleted
+    const deleteAudio = storage.deleteAudio.bind(storage);
+    storage.deleteAudio = async (key: string) => {
+      if (key.includes('/ep-2/')) {
+        db.createJob('ep-2');
+      }
+      await deleteAudio(key);
+    };
+
+    const report = await retention.run();
+
+    assert.deepEqual(report.episodes.map(e => [e.episodeGuid, e.status]), [
+      ['ep-1', 'deleted'],
+      ['ep-2', 'files-deleted-active-job'],
+      ['ep-3', 'deleted']
+    ]);
+    assert.equal(report.partialEpisodes, 1);
+    assert.equal(report.deletedEpisodes, 2);
+    assert.notEqual(db.getEpisode('ep-2'), null);
+  } finally {
+    await close();
+  }
+});
+
+test('an episode whose job is queued before its files are deleted keeps them', async () => {
+  const { s3, db, storage, retention, close } = await setup();
+
+  try {
+    // Queue a job for ep-1 while the show's files are being listed
+    const listShowEpisodeFiles = storage.listShowEpisodeFiles.bind(storage);
+    storage.listShowEpisodeFiles = async (podcastId: string, episodeIds: string[]) => {
+      const files = await listShowEpisodeFiles(podcastId, episodeIds);
+      db.createJob('ep-1');
+      return files;
+    };
+
+    const report = await retention.run();
+
+    assert.equal(report.episodes[0].status, 'skipped-active-job');
+    assert.equal(report.skippedEpisodes, 1);
+    assert.ok(s3.objects.has('podcasts/show/2020-01-02/ep-1/audio.mp3'));
+  } finally {
+    await close();
+  }
+});
\ No newline at end of file
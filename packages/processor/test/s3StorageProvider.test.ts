@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { S3StorageProvider } from '../src/storage/providers';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { makeTempDir } from './helpers';
+import { startS3Stub } from './s3Stub';
+
+const MB = 1024 * 1024;
+
+async function readStream(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+function createProvider(endpoint: string) {
+  return new S3StorageProvider({
+    type: 's3',
+    bucket: 'podcasts',
+    endpoint,
+    accessKeyId: 'minioadmin',
+    secretAccessKey: 'minioadmin',
+    multipartThresholdBytes: 6 * MB,
+    partSizeBytes: 5 * MB
+  });
+}
+
+test('stores, reads, lists and deletes objects on an S3-compatible service', async () => {
+  const s3 = await startS3Stub('podcasts');
+
+  try {
+    const provider = createProvider(s3.url);
+    assert.equal(provider.defaultPublicUrl, `${s3.url}/podcasts`);
+    assert.equal(await provider.testConnection(), true);
+
+    const stored = await provider.uploadBuffer('podcasts/show/ep1/feed.xml', Buffer.from('<rss/>'), { contentType: 'application/rss+xml' });
+    assert.equal(stored.size, 6);
+    assert.equal(stored.contentType, 'application/rss+xml');
+    await provider.uploadBuffer('podcasts/show/ep2/feed.xml', Buffer.from('<rss></rss>'));
+    await provider.uploadBuffer('podcasts/other/ep1/feed.xml', Buffer.from('<rss/>'));
+
+    assert.equal((await provider.readObject('podcasts/show/ep1/feed.xml'))?.toString(), '<rss/>');
+    assert.equal(await readStream(await provider.openReadStream('podcasts/show/ep2/feed.xml', { range: { start: 1, end: 3 } })), 'rss');
+
+    const listed = await provider.listObjects('podcasts/show/');
+    assert.deepEqual(listed.map(object => object.key), ['podcasts/show/ep1/feed.xml', 'podcasts/show/ep2/feed.xml']);
+
+    await provider.deleteObject('podcasts/show/ep1/feed.xml');
+    assert.equal(await provider.readObject('podcasts/show/ep1/feed.xml'), null);
+    assert.equal(await provider.headObject('podcasts/show/ep1/feed.xml'), null);
+  } finally {
+    await s3.close();
+  }
+});
+
+test('uploads large files in parts', async () => {
+  const temp = makeTempDir('s3');
+  const s3 = await startS3Stub('podcasts');
+
+  try {
+    const filePath = join(temp.path, 'episode.mp3');
+    const content = Buffer.alloc(7 * MB, 'a');
+    content.write('end', content.length - 3);
+    writeFileSync(filePath, content);
+
+    const stored = await createProvider(s3.url).uploadFile('podcasts/show/ep1/audio.mp3', filePath, { contentType: 'audio/mpeg' });
+
+    assert.equal(stored.size, content.length);
+    assert.match(stored.etag, /-2"$/);
+    assert.ok(s3.objects.get('podcasts/show/ep1/audio.mp3')!.body.equals(content));
+    assert.equal(s3.openUploads.size, 0);
+  } finally {
+    await s3.close();
+    temp.remove();
+  }
+});
+
+test('a failed multipart upload is aborted', async () => {
+  const temp = makeTempDir('s3');
+  const s3 = await startS3Stub('podcasts');
+
+  try {
+    const filePath = join(temp.path, 'episode.mp3');
+    writeFileSync(filePath, Buffer.alloc(7 * MB));
+    s3.failNextPart = true;
+
+    await assert.rejects(createProvider(s3.url).uploadFile('podcasts/show/ep1/audio.mp3', filePath));
+    assert.equal(s3.openUploads.size, 0);
+    assert.equal(s3.objects.has('podcasts/show/ep1/audio.mp3'), false);
+  } finally {
+    await s3.close();
+    temp.remove();
+  }
+});
+
+test('storage endpoints can come from environment variables', () => {
+  const temp = makeTempDir('config');
+  process.env.S3_ENDPOINT = 'http://minio:9000';
+
+  try {
+    writeFileSync(join(temp.path, 'config.yaml'), [
+      'podcasts: []',
+      `dataDir: ${temp.path}`,
+      'storage:',
+      '  provider: s3',
+      '  bucket: podcasts',
+      '  endpoint: ${S3_ENDPOINT}',
+      '  accessKeyId: minioadmin',
+      '  secretAccessKey: minioadmin',
+      ''
+    ].join('\n'));
+
+    const config = new ConfigManager(temp.path);
+    const { provider } = config.getStorageConfig();
+    assert.equal(provider.type === 's3' && provider.endpoint, 'http://minio:9000');
+  } finally {
+    delete process.env.S3_ENDPOINT;
+    temp.remove();
+  }
+});
\ No newline at end of file
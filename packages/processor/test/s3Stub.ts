@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import { ServerResponse } from 'http';
+import { RecordedRequest, StubServer, startStubServer } from './helpers';
+
+interface StoredObject {
+  body: Buffer;
+  contentType?: string;
+  etag: string;
+  lastModified: Date;
+}
+
+export interface S3Stub extends StubServer {
+  objects: Map<string, StoredObject>;
+  // Multipart uploads that were started and neither completed nor aborted
+  openUploads: Map<string, Map<number, Buffer>>;
+  // Makes the next UploadPart fail, to exercise the abort path
+  failNextPart: boolean;
+}
+
+const md5 = (body: Buffer) => `"${createHash('md5').update(body).digest('hex')}"`;
+
+function sendXml(response: ServerResponse, status: number, xml: string): void {
+  response.writeHead(status, { 'Content-Type': 'application/xml' }).end(`<?xml version="1.0" encoding="UTF-8"?>${xml}`);
+}
+
+function sendError(response: ServerResponse, status: number, code: string, method: string): void {
+  // HEAD responses carry no body, like real S3
+  if (method === 'HEAD') {
+    response.writeHead(status).end();
+    return;
+  }
+  sendXml(response, status, `<Error><Code>${code}</Code><Message>${code}</Message></Error>`);
+}
+
+// Newer SDKs send streaming bodies with aws-chunked encoding: "<hex size>;...\r\n<data>\r\n" frames plus trailers
+function decodeBody(request: RecordedRequest): Buffer {
+  if (!String(request.headers['content-encoding'] || '').includes('aws-chunked')) {
+    return request.body;
+  }
+
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < request.body.length) {
+    const lineEnd = request.body.indexOf('\r\n', offset);
+    const size = parseInt(request.body.subarray(offset, lineEnd).toString().split(';')[0], 16);
+    if (!size) break;
+    chunks.push(request.body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * An in-memory stand-in for an S3-compatible service such as MinIO, using
+ * path-style addressing (`/<bucket>/<key>`). Covers the calls S3StorageProvider
+ * makes: object CRUD, ranged GETs, ListObjectsV2, HeadBucket and multipart uploads.
+ */
+export async function startS3Stub(bucket: string): Promise<S3Stub> {
+  const objects = new Map<string, StoredObject>();
+  const openUploads = new Map<string, Map<number, Buffer>>();
+  let nextUploadId = 1;
+  // Assigned below; the handler only runs once requests arrive
+  let stub: S3Stub;
+
+  const server = await startStubServer((request, response) => {
+    const url = new URL(request.url, 'http://stub');
+    const [, requestBucket, ...keyParts] = url.pathname.split('/');
+    const key = decodeURIComponent(keyParts.join('/'));
+    const { method } = request;
+
+    if (requestBucket !== bucket) {
+      sendError(response, 404, 'NoSuchBucket', method);
+      return;
+    }
+
+    if (!key) {
+      if (method === 'HEAD') {
+        response.writeHead(200).end();
+        return;
+      }
+      // ListObjectsV2
+      const prefix = url.searchParams.get('prefix') || '';
+      const contents = [...objects.entries()]
+        .filter(([objectKey]) => objectKey.startsWith(prefix))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([objectKey, object]) =>
+          `<Contents><Key>${objectKey}</Key><Size>${object.body.length}</Size><ETag>${object.etag}</ETag><LastModified>${object.lastModified.toISOString()}</LastModified></Contents>`
+        );
+      sendXml(response, 200, `<ListBucketResult><Name>${bucket}</Name><Prefix>${prefix}</Prefix><KeyCount>${contents.length}</KeyCount><IsTruncated>false</IsTruncated>${contents.join('')}</ListBucketResult>`);
+      return;
+    }
+
+    const uploadId = url.searchParams.get('uploadId');
+
+    if (method === 'POST' && url.searchParams.has('uploads')) {
+      const id = `upload-${nextUploadId++}`;
+      openUploads.set(id, new Map());
+      sendXml(response, 200, `<InitiateMultipartUploadResult><Bucket>${bucket}</Bucket><Key>${key}</Key><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`);
+      return;
+    }
+
+    if (uploadId) {
+      const parts = openUploads.get(uploadId);
+      if (!parts) {
+        sendError(response, 404, 'NoSuchUpload', method);
+        return;
+      }
+
+      if (method === 'PUT') {
+        if (stub.failNextPart) {
+          stub.failNextPart = false;
+          // A client error, so the SDK doesn't retry it on its own
+          sendError(response, 400, 'InvalidPart', method);
+          return;
+        }
+        const body = decodeBody(request);
+        parts.set(Number(url.searchParams.get('partNumber')), body);
+        response.writeHead(200, { ETag: md5(body) }).end();
+        return;
+      }
+
+      if (method === 'POST') {
+        const body = Buffer.concat([...parts.entries()].sort(([a], [b]) => a - b).map(([, part]) => part));
+        objects.set(key, { body, etag: `"${createHash('md5').update(body).digest('hex')}-${parts.size}"`, lastModified: new Date() });
+        openUploads.delete(uploadId);
+        sendXml(response, 200, `<CompleteMultipartUploadResult><Bucket>${bucket}</Bucket><Key>${key}</Key><ETag>${objects.get(key)!.etag}</ETag></CompleteMultipartUploadResult>`);
+        return;
+      }
+
+      if (method === 'DELETE') {
+        openUploads.delete(uploadId);
+        response.writeHead(204).end();
+        return;
+      }
+    }
+
+    if (method === 'PUT') {
+      const body = decodeBody(request);
+      objects.set(key, { body, contentType: request.headers['content-type'], etag: md5(body), lastModified: new Date() });
+      response.writeHead(200, { ETag: md5(body) }).end();
+      return;
+    }
+
+    if (method === 'DELETE') {
+      objects.delete(key);
+      response.writeHead(204).end();
+      return;
+    }
+
+    const object = objects.get(key);
+    if (!object) {
+      sendError(response, 404, 'NoSuchKey', method);
+      return;
+    }
+
+    const headers = {
+      'Content-Type': object.contentType || 'application/octet-stream',
+      ETag: object.etag,
+      'Last-Modified': object.lastModified.toUTCString(),
+      'Accept-Ranges': 'bytes'
+    };
+
+    const range = /^bytes=(\d+)-(\d+)$/.exec(String(request.headers.range || ''));
+    if (range && method === 'GET') {
+      const start = Number(range[1]);
+      const end = Math.min(Number(range[2]), object.body.length - 1);
+      response.writeHead(206, {
+        ...headers,
+        'Content-Length': end - start + 1,
+        'Content-Range': `bytes ${start}-${end}/${object.body.length}`
+      }).end(object.body.subarray(start, end + 1));
+      return;
+    }
+
+    response.writeHead(200, { ...headers, 'Content-Length': object.body.length });
+    response.end(method === 'HEAD' ? undefined : object.body);
+  });
+
+  stub = Object.assign(server, { objects, openUploads, failNextPart: false });
+  return stub;
+}
\ No newline at end of file
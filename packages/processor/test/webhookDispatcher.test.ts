@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { setTimeout as delay } from 'timers/promises';
+import { Database } from '../src/database/Database';
+import { ConfigManager } from '../src/config/ConfigManager';
+import { EventBus } from '../src/services/EventBus';
+import { WebhookDispatcher } from '../src/services/WebhookDispatcher';
+import { makeTempDir, sendJson, startStubServer } from './helpers';
+
+test('a failing feed is announced once per outage, however often it is reported', async () => {
+  const temp = makeTempDir('webhooks');
+  const receiver = await startStubServer((request, response) => sendJson(response, 200, { ok: true }));
+  process.env.WEBHOOK_URL = `${receiver.url}/hooks`;
+  writeFileSync(join(temp.path, 'config.yaml'), [
+    'podcasts: []',
+    `dataDir: ${temp.path}`,
+    'webhooks:',
+    '  - url: ${WEBHOOK_URL}',
+    '    events: [feed.fetch_failed]',
+    ''
+  ].join('\n'));
+
+  const db = new Database({ path: join(temp.path, 'podcastoor.db') });
+  const events = new EventBus();
+  const dispatcher = new WebhookDispatcher(db, new ConfigManager(temp.path), events);
+
+  try {
+    dispatcher.start();
+    for (let run = 0; run < 3; run++) {
+      events.publish({ type: 'feed.fetch_failed', showId: 'show-a', feedUrl: 'https://a.example.com/feed.xml', error: 'HTTP 503' });
+    }
+    events.publish({ type: 'feed.fetch_failed', showId: 'show-b', feedUrl: 'https://b.example.com/feed.xml', error: 'HTTP 404' });
+
+    // A delivery queued while another is in flight waits for the next pass
+    for (let wait = 0; wait < 50 && db.getWebhookDeliveries().some(delivery => delivery.status === 'pending'); wait++) {
+      await delay(20);
+      await dispatcher.deliverDue();
+    }
+
+    const deliveries = db.getWebhookDeliveries();
+    assert.equal(deliveries.length, 2);
+    assert.ok(deliveries.every(delivery => delivery.status === 'delivered'));
+    assert.deepEqual(receiver.requests.map(request => JSON.parse(request.body.toString()).data.showId).sort(), ['show-a', 'show-b']);
+  } finally {
+    dispatcher.stop();
+    delete process.env.WEBHOOK_URL;
+    db.close();
+    await receiver.close();
+    temp.remove();
+  }
+});
\ No newline at end of file
@@ -12,7 +12,15 @@ export const PodcastConfigSchema = z.object({
     transcriptionModel: z.string().min(1),
     chunkSizeMinutes: z.number().positive(),
     overlapSeconds: z.number().nonnegative(),
-    minAdDuration: z.number().nonnegative().optional()
+    minAdDuration: z.number().nonnegative().optional(),
+    adDetectionProvider: z.string().min(1).optional(),
+    adPolicy: z.object({
+      mode: z.enum(['strip', 'mark']),
+      allowlist: z.object({
+        sponsors: z.array(z.string().min(1)).optional(),
+        adTypes: z.array(z.enum(['pre-roll', 'mid-roll', 'post-roll', 'embedded', 'host-read'])).optional()
+      }).optional()
+    }).optional()
   })
 });
 
@@ -21,14 +29,18 @@ export const AdDetectionSchema = z.object({
   endTime: z.number().nonnegative(),
   confidence: z.number().min(0).max(1),
   adType: z.enum(['pre-roll', 'mid-roll', 'post-roll', 'embedded']),
-  description: z.string().optional()
+  description: z.string().optional(),
+  sponsor: z.string().optional(),
+  hostRead: z.boolean().optional()
 });
 
 export const ChapterSchema = z.object({
   title: z.string().min(1),
   startTime: z.number().nonnegative(),
   endTime: z.number().nonnegative(),
-  description: z.string().optional()
+  description: z.string().optional(),
+  img: z.string().url().optional(),
+  url: z.string().url().optional()
 });
 
 export const ProcessingResultSchema = z.object({
@@ -44,12 +56,36 @@ export const ProcessingResultSchema = z.object({
 });
 
 export const StorageConfigSchema = z.object({
-  provider: z.enum(['minio', 'r2']),
-  endpoint: z.string().url(),
+  provider: z.enum(['minio', 'r2', 's3']),
+  endpoint: z.string().url().optional(),
   bucket: z.string().min(1),
   region: z.string().optional(),
   accessKeyId: z.string().min(1),
-  secretAccessKey: z.string().min(1)
+  secretAccessKey: z.string().min(1),
+  forcePathStyle: z.boolean().optional()
+}).refine(config => config.provider === 's3' || !!config.endpoint, {
+  message: 'endpoint is required for MinIO and R2 storage',
+  path: ['endpoint']
+});
+
+export const LLMProviderConfigSchema = z.object({
+  type: z.enum(['gemini', 'openai-compatible']),
+  model: z.string().min(1),
+  apiKey: z.string().optional(),
+  baseUrl: z.string().url().optional(),
+  headers: z.record(z.string()).optional(),
+  timeoutSeconds: z.number().positive().optional(),
+  pricing: z.object({
+    inputPerMillion: z.number().nonnegative(),
+    outputPerMillion: z.number().nonnegative()
+  }).optional()
+});
+
+export const WebhookConfigSchema = z.object({
+  url: z.string().url(),
+  secret: z.string().min(1).optional(),
+  events: z.array(z.enum(['episode.processed', 'job.failed', 'feed.fetch_failed'])).min(1).optional(),
+  enabled: z.boolean().optional()
 });
 
 export const LLMConfigSchema = z.object({
@@ -23,6 +23,72 @@ export interface JobStatusResponse {
   currentStep?: string;
 }
 
+// LLM spend rolled up from the per-job cost ledger
+export interface CostBreakdown {
+  key: string; // show id, model or YYYY-MM-DD day
+  label?: string; // show title, when rolling up by show
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface CostReport {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  total: Omit<CostBreakdown, 'key' | 'label'>;
+  byShow: CostBreakdown[];
+  byModel: CostBreakdown[];
+  byDay: CostBreakdown[];
+}
+
+export interface BudgetWindowStatus {
+  limit: number;
+  spent: number;
+  remaining: number;
+  exceeded: boolean;
+  resetsAt: string; // ISO timestamp when the window starts over (UTC day/month)
+}
+
+export interface BudgetStatus {
+  enabled: boolean;
+  onLimit: 'hold' | 'skip';
+  paused: boolean; // A global cap is exhausted, so no new jobs start
+  heldJobs: number;
+  estimatedCostPerMinute: number;
+  daily?: BudgetWindowStatus;
+  monthly?: BudgetWindowStatus;
+  podcasts: Array<{
+    podcastId: string;
+    daily?: BudgetWindowStatus;
+    monthly?: BudgetWindowStatus;
+  }>;
+}
+
+interface JobEventBase {
+  jobId: number;
+  episodeGuid: string;
+  showId?: string;
+}
+
+// Streamed as JSON messages from GET /api/events
+export type ServerEvent =
+  | JobEventBase & { type: 'job.queued'; holdReason?: string; runAt?: string }
+  | JobEventBase & { type: 'job.started'; attempt: number }
+  | JobEventBase & { type: 'job.progress'; progress: number; step?: string }
+  | JobEventBase & { type: 'job.completed' }
+  | JobEventBase & { type: 'job.failed'; error: string; retryAt?: string }
+  | JobEventBase & {
+      type: 'episode.processed';
+      title: string;
+      processedUrl: string;
+      timeSaved: number; // seconds
+      adsRemoved: number;
+    }
+  | { type: 'episode.discovered'; showId: string; episodeGuid: string; title: string }
+  | { type: 'feed.fetch_failed'; showId: string; feedUrl: string; error: string }
+  | { type: 'config.reloaded' };
+
 export interface AudioProxyParams {
   episodeGuid: string;
 }
@@ -31,6 +31,7 @@ export interface ProcessingJob {
 
 export interface ProcessingStep {
   name: string;
+  attempt?: number;
   startTime: Date;
   endTime?: Date;
   durationMs?: number;
@@ -71,7 +72,7 @@ export interface AdRemoval {
   createdAt: Date;
 }
 
-import { AdDetection, AdSegment, Chapter } from './index';
+import { AdDetection, AdSegment, Chapter, TranscriptSegment } from './index';
 
 export interface ProcessingResult {
   id?: number;
@@ -81,9 +82,13 @@ export interface ProcessingResult {
   processedUrl: string;
   originalDuration: number;
   processedDuration: number;
+  processedFileSize?: number; // bytes
+  processedContentType?: string;
   adsRemoved: AdDetection[];
   adSegments?: AdSegment[];
   chapters: Chapter[];
+  transcript?: TranscriptSegment[];
   processingCost: number;
+  analysisModel?: string;
   processedAt: Date;
 }
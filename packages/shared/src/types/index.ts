@@ -8,11 +8,14 @@ export interface PodcastConfig {
 }
 
 export interface ProcessingOptions {
-  removeAds: boolean;
+  removeAds: boolean; // false keeps every ad, marked as a sponsor chapter, unless adPolicy says otherwise
   generateChapters: boolean;
+  adPolicy?: AdPolicy;
+  transcriptionModel?: string;
   chunkSizeMinutes: number;
   overlapSeconds: number;
   minAdDuration?: number;
+  adDetectionProvider?: string;
 }
 
 export interface AdDetection {
@@ -21,6 +24,26 @@ export interface AdDetection {
   confidence: number;
   adType: 'pre-roll' | 'mid-roll' | 'post-roll' | 'embedded';
   description?: string;
+  sponsor?: string; // Brand or product advertised, when the model could tell
+  hostRead?: boolean; // Read by the show's hosts rather than a produced spot
+}
+
+// strip cuts ads out of the audio; mark keeps the audio and adds "Sponsor" chapters
+export type AdPolicyMode = 'strip' | 'mark';
+
+export type AllowlistAdType = AdDetection['adType'] | 'host-read';
+
+export interface AdPolicy {
+  mode: AdPolicyMode;
+  // Ads matching the allowlist are kept (and marked) even when stripping
+  allowlist?: {
+    sponsors?: string[]; // Matched case-insensitively against the sponsor and description
+    adTypes?: AllowlistAdType[];
+  };
+}
+
+export interface KeptAd extends AdDetection {
+  keptBecause: 'mark' | 'sponsor' | 'ad-type';
 }
 
 export interface AdSegment extends AdDetection {
@@ -34,8 +57,23 @@ export interface Chapter {
   startTime: number;
   endTime: number;
   description?: string;
+  img?: string; // Chapter artwork URL
+  url?: string; // Link relevant to the chapter
+}
+
+export interface TranscriptWord {
+  word: string;
+  startTime: number;
+  endTime: number;
 }
 
+export interface TranscriptSegment {
+  startTime: number;
+  endTime: number;
+  text: string;
+  speaker?: string;
+  words?: TranscriptWord[];
+}
 
 export interface Episode {
   guid: string;
@@ -47,11 +85,31 @@ export interface Episode {
   imageUrl?: string;
 }
 
+export interface EpisodeTranscript {
+  url: string;
+  type: string;
+  language?: string;
+  rel?: 'captions';
+}
+
 export interface ProcessedEpisode extends Episode {
   processedAudioUrl: string;
+  enclosureLength?: number; // Processed file size in bytes
+  enclosureType?: string;
   chapters: Chapter[];
   adsRemoved: AdDetection[];
   enhancedDescription: string;
+  chaptersUrl?: string; // Hosted JSON chapters file
+  transcripts?: EpisodeTranscript[];
+}
+
+export interface AnalysisAttempt {
+  provider: string;
+  model: string;
+  success: boolean;
+  error?: string;
+  retryable?: boolean;
+  durationMs: number;
 }
 
 export interface AudioMetadata {
@@ -63,13 +121,36 @@ export interface AudioMetadata {
   size: number;
 }
 
+export interface LLMProviderConfig {
+  type: 'gemini' | 'openai-compatible';
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  timeoutSeconds?: number; // How long one analysis request may take before the next model is tried
+  pricing?: {
+    inputPerMillion: number;
+    outputPerMillion: number;
+  };
+}
+
 export interface StorageConfig {
-  provider: 'minio' | 'r2';
-  endpoint: string;
+  provider: 'minio' | 'r2' | 's3';
+  endpoint?: string; // Required for MinIO and R2
   bucket: string;
   region?: string;
   accessKeyId: string;
   secretAccessKey: string;
+  forcePathStyle?: boolean;
+}
+
+export type WebhookEventType = 'episode.processed' | 'job.failed' | 'feed.fetch_failed';
+
+export interface WebhookConfig {
+  url: string;
+  secret?: string; // Signs each payload with HMAC-SHA256 when set
+  events?: WebhookEventType[]; // Defaults to every event
+  enabled?: boolean;
 }
 
 
@@ -82,10 +163,15 @@ export interface ProcessingArtifacts {
     processed: AudioMetadata;
   };
   speakerCount: number;
+  analysisModel?: string;
+  analysisAttempts?: AnalysisAttempt[];
   initialAdsDetected: AdDetection[];
   finalAdsDetected: AdDetection[];
   adSegments?: AdSegment[];
   chapters: Chapter[];
+  // Policy the episode was processed with, and the detected ads it left in the audio
+  adPolicy?: AdPolicy & { generateChapters: boolean };
+  keptAds?: KeptAd[];
   processingTime: {
     download: number;
     analysis: number;
@@ -4,6 +4,7 @@ import HomePage from './pages/HomePage'
 import ShowsPage from './pages/ShowsPage'
 import ShowDetailPage from './pages/ShowDetailPage'
 import EpisodeDetailPage from './pages/EpisodeDetailPage'
+import UsersPage from './pages/UsersPage'
 import ErrorBoundary from './components/ErrorBoundary'
 
 function App() {
@@ -15,6 +16,7 @@ function App() {
           <Route path="shows" element={<ShowsPage />} />
           <Route path="shows/:showId" element={<ShowDetailPage />} />
           <Route path="shows/:showId/episodes/:episodeId" element={<EpisodeDetailPage />} />
+          <Route path="users" element={<UsersPage />} />
         </Route>
       </Routes>
     </ErrorBoundary>
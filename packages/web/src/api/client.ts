@@ -34,6 +34,38 @@ export interface Job {
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
+  attempts: number;
+  nextRunAt?: Date;
+  progress: number;
+  currentStep?: string;
+  holdReason?: string; // Set while a pending job waits for the LLM budget
+}
+
+export interface JobStep {
+  name: string;
+  attempt?: number;
+  startTime: string;
+  endTime?: string;
+  durationMs?: number;
+}
+
+export interface LLMCost {
+  id: number;
+  jobId: number;
+  model: string;
+  operation: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  durationMs: number;
+  createdAt: string;
+}
+
+export interface JobDetails extends Job {
+  steps: JobStep[];
+  llmCosts: LLMCost[];
+  totalCost: number;
 }
 
 export interface ProcessedEpisode {
@@ -66,6 +98,7 @@ export interface EpisodeDetails {
   processedEpisode: ProcessedEpisode | null;
   chapters: Chapter[];
   ads: AdDetection[];
+  llmCosts?: LLMCost[];
 }
 
 export interface ShowStats {
@@ -76,6 +109,120 @@ export interface ShowStats {
   averageAdsPerEpisode: number;
 }
 
+export interface BudgetWindowStatus {
+  limit: number;
+  spent: number;
+  remaining: number;
+  exceeded: boolean;
+  resetsAt: string;
+}
+
+export interface BudgetStatus {
+  enabled: boolean;
+  onLimit: 'hold' | 'skip';
+  paused: boolean;
+  heldJobs: number;
+  estimatedCostPerMinute: number;
+  daily?: BudgetWindowStatus;
+  monthly?: BudgetWindowStatus;
+  podcasts: Array<{
+    podcastId: string;
+    daily?: BudgetWindowStatus;
+    monthly?: BudgetWindowStatus;
+  }>;
+}
+
+interface JobEventBase {
+  jobId: number;
+  episodeGuid: string;
+  showId?: string;
+}
+
+export type ServerEvent =
+  | JobEventBase & { type: 'job.queued'; holdReason?: string; runAt?: string }
+  | JobEventBase & { type: 'job.started'; attempt: number }
+  | JobEventBase & { type: 'job.progress'; progress: number; step?: string }
+  | JobEventBase & { type: 'job.completed' }
+  | JobEventBase & { type: 'job.failed'; error: string; retryAt?: string }
+  | JobEventBase & {
+      type: 'episode.processed';
+      title: string;
+      processedUrl: string;
+      timeSaved: number;
+      adsRemoved: number;
+    }
+  | { type: 'episode.discovered'; showId: string; episodeGuid: string; title: string }
+  | { type: 'feed.fetch_failed'; showId: string; feedUrl: string; error: string }
+  | { type: 'config.reloaded' };
+
+// "mark" leaves ads in the audio as sponsor chapters; allowlisted ads are kept even when stripping
+export interface AdPolicy {
+  mode: 'strip' | 'mark';
+  allowlist?: {
+    sponsors?: string[];
+    adTypes?: Array<'pre-roll' | 'mid-roll' | 'post-roll' | 'embedded' | 'host-read'>;
+  };
+}
+
+export interface PodcastConfig {
+  id: string;
+  name: string;
+  rssUrl: string;
+  enabled: boolean;
+  retentionDays: number;
+  processingOptions: {
+    removeAds: boolean;
+    generateChapters: boolean;
+    adPolicy?: AdPolicy;
+    transcriptionModel?: string;
+    chunkSizeMinutes: number;
+    overlapSeconds: number;
+  };
+}
+
+export type PodcastInput = Partial<Omit<PodcastConfig, 'processingOptions'>> & {
+  name: string;
+  rssUrl: string;
+  processingOptions?: Partial<PodcastConfig['processingOptions']>;
+};
+
+export interface AuthSession {
+  authRequired: boolean;
+  authenticated: boolean;
+}
+
+export interface FeedToken {
+  id: number;
+  userId: number;
+  token: string;
+  label?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  feedBaseUrl: string; // Append /<showId> for a show's private feed
+}
+
+export interface FeedPreferences {
+  adMode: 'strip' | 'keep';
+  titleSuffix: 'full' | 'short' | 'none';
+  chapterFormat: 'all' | 'podcast' | 'psc' | 'none';
+}
+
+export interface User {
+  id: number;
+  name: string;
+  preferences: FeedPreferences;
+  createdAt: string;
+  subscriptions: string[]; // Podcast ids
+  tokens: FeedToken[];
+}
+
+// Surfaces the server's validation message instead of a generic one
+async function errorFrom(res: Response, fallback: string): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  return new Error(body?.error || fallback);
+}
+
 export interface HealthStatus {
   status: string;
   timestamp: string;
@@ -87,6 +234,7 @@ export interface HealthStatus {
     failed: number;
   };
   lastProcessingRun: Date;
+  budget?: BudgetStatus;
 }
 
 export const api = {
@@ -142,7 +290,13 @@ export const api = {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ episodeGuid, priority })
     });
-    if (!res.ok) throw new Error('Failed to create job');
+    if (!res.ok) throw await errorFrom(res, 'Failed to create job');
+    return res.json();
+  },
+
+  async getJob(jobId: number): Promise<JobDetails> {
+    const res = await fetch(`${API_BASE}/jobs/${jobId}`);
+    if (!res.ok) throw new Error('Failed to fetch job');
     return res.json();
   },
 
@@ -152,12 +306,46 @@ export const api = {
     return res.json();
   },
 
+  // Podcast configuration
+  async getPodcasts(): Promise<PodcastConfig[]> {
+    const res = await fetch(`${API_BASE}/podcasts`);
+    if (!res.ok) throw new Error('Failed to fetch podcasts');
+    return res.json();
+  },
+
+  async createPodcast(podcast: PodcastInput): Promise<PodcastConfig> {
+    const res = await fetch(`${API_BASE}/podcasts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(podcast)
+    });
+    if (!res.ok) throw await errorFrom(res, 'Failed to add podcast');
+    return res.json();
+  },
+
+  async updatePodcast(podcastId: string, updates: Partial<PodcastInput>): Promise<PodcastConfig> {
+    const res = await fetch(`${API_BASE}/podcasts/${podcastId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates)
+    });
+    if (!res.ok) throw await errorFrom(res, 'Failed to update podcast');
+    return res.json();
+  },
+
+  async deletePodcast(podcastId: string): Promise<void> {
+    const res = await fetch(`${API_BASE}/podcasts/${podcastId}`, {
+      method: 'DELETE'
+    });
+    if (!res.ok) throw await errorFrom(res, 'Failed to remove podcast');
+  },
+
   // Processing
   async processShow(showId: string): Promise<{ success: boolean; message: string }> {
     const res = await fetch(`${API_BASE}/process/${showId}`, {
       method: 'POST'
     });
-    if (!res.ok) throw new Error('Failed to process show');
+    if (!res.ok) throw await errorFrom(res, 'Failed to process show');
     return res.json();
   },
 
@@ -165,10 +353,92 @@ export const api = {
     const res = await fetch(`${API_BASE}/process-all`, {
       method: 'POST'
     });
-    if (!res.ok) throw new Error('Failed to process all shows');
+    if (!res.ok) throw await errorFrom(res, 'Failed to process all shows');
+    return res.json();
+  },
+
+  // Admin sign-in
+  async getSession(): Promise<AuthSession> {
+    const res = await fetch(`${API_BASE}/auth/session`);
+    if (!res.ok) throw new Error('Failed to fetch session');
+    return res.json();
+  },
+
+  async login(password: string): Promise<void> {
+    const res = await fetch(`${API_BASE}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password })
+    });
+    if (!res.ok) throw await errorFrom(res, 'Failed to sign in');
+  },
+
+  async logout(): Promise<void> {
+    const res = await fetch(`${API_BASE}/auth/logout`, { method: 'POST' });
+    if (!res.ok) throw new Error('Failed to sign out');
+  },
+
+  // Users and their private feed tokens
+  async getUsers(): Promise<User[]> {
+    const res = await fetch(`${API_BASE}/users`);
+    if (!res.ok) throw await errorFrom(res, 'Failed to fetch users');
+    return res.json();
+  },
+
+  async createUser(name: string): Promise<User> {
+    const res = await fetch(`${API_BASE}/users`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name })
+    });
+    if (!res.ok) throw await errorFrom(res, 'Failed to add user');
+    return res.json();
+  },
+
+  async deleteUser(userId: number): Promise<void> {
+    const res = await fetch(`${API_BASE}/users/${userId}`, { method: 'DELETE' });
+    if (!res.ok) throw await errorFrom(res, 'Failed to remove user');
+  },
+
+  async updateUserPreferences(userId: number, preferences: Partial<FeedPreferences>): Promise<void> {
+    const res = await fetch(`${API_BASE}/users/${userId}/preferences`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(preferences)
+    });
+    if (!res.ok) throw await errorFrom(res, 'Failed to update feed preferences');
+  },
+
+  async subscribe(userId: number, podcastId: string): Promise<void> {
+    const res = await fetch(`${API_BASE}/users/${userId}/subscriptions/${podcastId}`, { method: 'PUT' });
+    if (!res.ok) throw await errorFrom(res, 'Failed to subscribe');
+  },
+
+  async unsubscribe(userId: number, podcastId: string): Promise<void> {
+    const res = await fetch(`${API_BASE}/users/${userId}/subscriptions/${podcastId}`, { method: 'DELETE' });
+    if (!res.ok) throw await errorFrom(res, 'Failed to unsubscribe');
+  },
+
+  async createFeedToken(userId: number, label?: string): Promise<FeedToken> {
+    const res = await fetch(`${API_BASE}/users/${userId}/tokens`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ label })
+    });
+    if (!res.ok) throw await errorFrom(res, 'Failed to create feed token');
     return res.json();
   },
 
+  async revokeFeedToken(tokenId: number): Promise<void> {
+    const res = await fetch(`${API_BASE}/feed-tokens/${tokenId}`, { method: 'DELETE' });
+    if (!res.ok) throw await errorFrom(res, 'Failed to revoke feed token');
+  },
+
+  // OPML of every enabled show; with a token it lists that token's private feeds
+  getOpmlUrl(token?: string): string {
+    return token ? `${API_BASE}/opml?token=${encodeURIComponent(token)}` : `${API_BASE}/opml`;
+  },
+
   // Audio
   getAudioUrl(episodeGuid: string): string {
     return `/audio/${episodeGuid}`;
@@ -0,0 +1,60 @@
+import { useEffect, useRef } from 'react';
+import { ServerEvent } from './client';
+
+const API_BASE = (import.meta as any).env?.VITE_API_URL || '/api';
+const REFRESH_DEBOUNCE_MS = 500;
+
+type Listener = (event: ServerEvent) => void;
+
+const listeners = new Set<Listener>();
+let source: EventSource | null = null;
+
+// All subscribers share one connection, opened on first subscribe and closed after the last
+export function subscribeToEvents(listener: Listener): () => void {
+  listeners.add(listener);
+
+  if (!source) {
+    source = new EventSource(`${API_BASE}/events`);
+    source.onmessage = (message) => {
+      let event: ServerEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch (error) {
+        console.error('Ignoring malformed server event:', error);
+        return;
+      }
+      listeners.forEach(notify => notify(event));
+    };
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
+
+export function useServerEvents(listener: Listener) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribeToEvents(event => listenerRef.current(event)), []);
+}
+
+/**
+ * Calls refresh after events that match, coalescing bursts (such as a feed
+ * scan discovering many episodes) into a single reload.
+ */
+export function useEventRefresh(matches: (event: ServerEvent) => boolean, refresh: () => void) {
+  const timer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useServerEvents(event => {
+    if (!matches(event)) return;
+    clearTimeout(timer.current);
+    timer.current = setTimeout(refresh, REFRESH_DEBOUNCE_MS);
+  });
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+}
\ No newline at end of file
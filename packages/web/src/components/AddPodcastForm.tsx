@@ -0,0 +1,134 @@
+import { FormEvent, useState } from 'react'
+import { api, PodcastConfig } from '../api/client'
+
+interface AddPodcastFormProps {
+  onAdded: (podcast: PodcastConfig) => void
+  onCancel: () => void
+}
+
+export default function AddPodcastForm({ onAdded, onCancel }: AddPodcastFormProps) {
+  const [name, setName] = useState('')
+  const [rssUrl, setRssUrl] = useState('')
+  const [retentionDays, setRetentionDays] = useState('')
+  const [removeAds, setRemoveAds] = useState(true)
+  const [generateChapters, setGenerateChapters] = useState(true)
+  const [keptSponsors, setKeptSponsors] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const podcast = await api.createPodcast({
+        name: name.trim(),
+        rssUrl: rssUrl.trim(),
+        // Left empty, the server's default retention applies
+        ...(retentionDays ? { retentionDays: Number(retentionDays) } : {}),
+        processingOptions: {
+          removeAds,
+          generateChapters,
+          adPolicy: {
+            mode: removeAds ? 'strip' : 'mark',
+            allowlist: { sponsors: keptSponsors.split(',').map(s => s.trim()).filter(Boolean) }
+          }
+        }
+      })
+      onAdded(podcast)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add podcast')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">Add Podcast Feed</h3>
+
+      <div>
+        <label htmlFor="podcast-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input
+          id="podcast-name"
+          type="text"
+          required
+          value={name}
+          onChange={e => setName(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="podcast-rss" className="block text-sm font-medium text-gray-700 mb-1">RSS feed URL</label>
+        <input
+          id="podcast-rss"
+          type="url"
+          required
+          placeholder="https://example.com/feed.xml"
+          value={rssUrl}
+          onChange={e => setRssUrl(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="podcast-retention" className="block text-sm font-medium text-gray-700 mb-1">Keep episodes for (days)</label>
+        <input
+          id="podcast-retention"
+          type="number"
+          min={1}
+          placeholder="Default"
+          value={retentionDays}
+          onChange={e => setRetentionDays(e.target.value)}
+          className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div className="flex gap-6">
+        <label className="inline-flex items-center text-sm text-gray-700">
+          <input type="checkbox" checked={removeAds} onChange={e => setRemoveAds(e.target.checked)} className="mr-2" />
+          Remove ads (otherwise marked as sponsor chapters)
+        </label>
+        <label className="inline-flex items-center text-sm text-gray-700">
+          <input type="checkbox" checked={generateChapters} onChange={e => setGenerateChapters(e.target.checked)} className="mr-2" />
+          Generate chapters
+        </label>
+      </div>
+
+      {removeAds && (
+        <div>
+          <label htmlFor="podcast-kept-sponsors" className="block text-sm font-medium text-gray-700 mb-1">Keep ads from these sponsors</label>
+          <input
+            id="podcast-kept-sponsors"
+            type="text"
+            placeholder="Comma-separated, e.g. Patreon, Live Tour"
+            value={keptSponsors}
+            onChange={e => setKeptSponsors(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Adding...' : 'Add Podcast'}
+        </button>
+      </div>
+    </form>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { FormEvent, useEffect, useState } from 'react'
+import { api, AuthSession } from '../api/client'
+
+// Sign-in control for the nav bar; hidden while the server has auth turned off
+export default function AdminLogin() {
+  const [session, setSession] = useState<AuthSession | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.getSession().then(setSession).catch(() => setSession(null))
+  }, [])
+
+  async function handleLogin(event: FormEvent) {
+    event.preventDefault()
+    setError(null)
+
+    try {
+      await api.login(password)
+      // Pages loaded while signed out may be showing permission errors
+      window.location.reload()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in')
+    }
+  }
+
+  async function handleLogout() {
+    await api.logout()
+    window.location.reload()
+  }
+
+  if (!session?.authRequired) return null
+
+  if (session.authenticated) {
+    return (
+      <button onClick={handleLogout} className="text-sm text-gray-600 hover:text-blue-600 px-3 py-2 rounded-lg hover:bg-blue-50 transition-colors">
+        Sign out
+      </button>
+    )
+  }
+
+  if (!showForm) {
+    return (
+      <button onClick={() => setShowForm(true)} className="text-sm text-white bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors">
+        Admin sign in
+      </button>
+    )
+  }
+
+  return (
+    <form onSubmit={handleLogin} className="flex items-center gap-2">
+      <input
+        type="password"
+        autoFocus
+        required
+        placeholder="Admin password"
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+        className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button type="submit" className="text-sm text-white bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg transition-colors">
+        Sign in
+      </button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </form>
+  )
+}
\ No newline at end of file
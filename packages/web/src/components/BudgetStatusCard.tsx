@@ -0,0 +1,60 @@
+import { BudgetStatus, BudgetWindowStatus } from '../api/client'
+
+interface BudgetStatusCardProps {
+  budget: BudgetStatus
+}
+
+function BudgetBar({ label, window }: { label: string; window: BudgetWindowStatus }) {
+  const percent = window.limit > 0 ? Math.min(100, (window.spent / window.limit) * 100) : 100
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-700">{label}</span>
+        <span className={window.exceeded ? 'text-red-600 font-medium' : 'text-gray-600'}>
+          ${window.spent.toFixed(2)} / ${window.limit.toFixed(2)}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full ${window.exceeded ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Resets {new Date(window.resetsAt).toLocaleString()}</p>
+    </div>
+  )
+}
+
+export default function BudgetStatusCard({ budget }: BudgetStatusCardProps) {
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">LLM Budget</h3>
+        <span className={`px-2 py-1 text-xs rounded-full ${
+          budget.paused ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+        }`}>
+          {budget.paused ? 'Queue paused' : 'Processing'}
+        </span>
+      </div>
+
+      <div className="space-y-4">
+        {budget.daily && <BudgetBar label="Today" window={budget.daily} />}
+        {budget.monthly && <BudgetBar label="This month" window={budget.monthly} />}
+
+        {budget.podcasts.map(podcast => (
+          <div key={podcast.podcastId} className="space-y-2">
+            {podcast.daily && <BudgetBar label={`${podcast.podcastId} today`} window={podcast.daily} />}
+            {podcast.monthly && <BudgetBar label={`${podcast.podcastId} this month`} window={podcast.monthly} />}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        {budget.heldJobs > 0 && `${budget.heldJobs} job${budget.heldJobs === 1 ? '' : 's'} waiting for budget · `}
+        Over-budget jobs are {budget.onLimit === 'hold' ? 'held until the budget resets' : 'skipped'}
+        {budget.estimatedCostPerMinute > 0 && ` · ~$${budget.estimatedCostPerMinute.toFixed(4)} per audio minute`}
+      </p>
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,22 +1,69 @@
-import React from 'react';
-
-interface Job {
-  id: number;
-  episodeGuid: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  error?: string;
-  priority: number;
-  createdAt: string;
-  startedAt?: string;
-  completedAt?: string;
-}
+import { useEffect, useRef, useState } from 'react';
+import { api, Job, JobStep } from '../api/client';
+import { useServerEvents } from '../api/events';
 
 interface JobStatusProps {
   job: Job;
   onRetry?: () => void;
 }
 
-export function JobStatus({ job, onRetry }: JobStatusProps) {
+const STEP_LABELS: Record<string, string> = {
+  download_audio: 'Download audio',
+  analyze_audio: 'Analyze audio',
+  refine_ads: 'Refine ad detection',
+  generate_chapters: 'Generate chapters',
+  process_audio: 'Remove ads',
+  upload_audio: 'Upload audio',
+  upload_artifacts: 'Upload artifacts',
+  save_results: 'Save results'
+};
+
+function formatStepDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function JobStatus({ job: initialJob, onRetry }: JobStatusProps) {
+  const [job, setJob] = useState<Job>(initialJob);
+  const [steps, setSteps] = useState<JobStep[]>([]);
+  const [totalCost, setTotalCost] = useState(0);
+
+  useEffect(() => {
+    setJob(initialJob);
+  }, [initialJob]);
+
+  const currentJobId = useRef(job.id);
+  currentJobId.current = job.id;
+
+  const refresh = async (jobId: number) => {
+    try {
+      const details = await api.getJob(jobId);
+      // The page may have moved on to a newer job while this request was in flight
+      if (jobId !== currentJobId.current) return;
+
+      const { steps: jobSteps, llmCosts: _llmCosts, totalCost: jobCost, ...latest } = details;
+      setSteps(jobSteps);
+      setTotalCost(jobCost);
+      setJob(latest);
+    } catch (error) {
+      console.error('Failed to refresh job status:', error);
+    }
+  };
+
+  useEffect(() => {
+    refresh(job.id);
+  }, [job.id]);
+
+  // Every lifecycle event for this job can change its progress, steps or cost
+  useServerEvents(event => {
+    if ('jobId' in event && event.jobId === job.id) {
+      refresh(job.id);
+    }
+  });
+
+  // Only the latest attempt's timeline is shown
+  const currentAttempt = steps.reduce((max, step) => Math.max(max, step.attempt ?? 1), 1);
+  const attemptSteps = steps.filter(step => (step.attempt ?? 1) === currentAttempt);
+
   return (
     <div className="bg-gray-50 rounded-lg p-4">
       <div className="flex justify-between items-center mb-2">
@@ -30,16 +77,42 @@ export function JobStatus({ job, onRetry }: JobStatusProps) {
           {job.status}
         </span>
       </div>
-      
+
       {job.status === 'processing' && (
-        <div className="w-full bg-gray-200 rounded-full h-2">
-          <div 
-            className="bg-blue-600 h-2 rounded-full animate-pulse"
-            style={{ width: '50%' }}
-          />
+        <div>
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>{job.currentStep || 'Starting...'}</span>
+            <span>{job.progress ?? 0}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-500"
+              style={{ width: `${job.progress ?? 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {job.status === 'pending' && job.holdReason && (
+        <div className="mt-2">
+          <p className="text-sm text-yellow-700">{job.holdReason}</p>
+          {job.nextRunAt && (
+            <p className="text-xs text-gray-500 mt-1">
+              Waiting for budget, rechecking at {new Date(job.nextRunAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+      )}
+
+      {job.status === 'pending' && !job.holdReason && job.nextRunAt && (
+        <div className="mt-2">
+          {job.error && <p className="text-sm text-yellow-700">{job.error}</p>}
+          <p className="text-xs text-gray-500 mt-1">
+            Attempt {job.attempts} failed, retrying at {new Date(job.nextRunAt).toLocaleString()}
+          </p>
         </div>
       )}
-      
+
       {job.status === 'failed' && job.error && (
         <div className="mt-2">
           <p className="text-sm text-red-600">{job.error}</p>
@@ -53,7 +126,28 @@ export function JobStatus({ job, onRetry }: JobStatusProps) {
           )}
         </div>
       )}
-      
+
+      {attemptSteps.length > 0 && (
+        <ol className="mt-3 space-y-1">
+          {attemptSteps.map((step, index) => (
+            <li key={`${step.name}-${index}`} className="flex justify-between text-xs">
+              <span className={step.endTime ? 'text-gray-700' : 'text-blue-700 font-medium'}>
+                {step.endTime ? '✓' : '…'} {STEP_LABELS[step.name] || step.name}
+              </span>
+              <span className="text-gray-500">
+                {step.durationMs !== undefined ? formatStepDuration(step.durationMs) : 'running'}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {totalCost > 0 && (
+        <p className="text-xs text-gray-500 mt-2">
+          LLM cost: ${totalCost.toFixed(4)}
+        </p>
+      )}
+
       {job.completedAt && (
         <p className="text-xs text-gray-500 mt-2">
           Completed: {new Date(job.completedAt).toLocaleString()}
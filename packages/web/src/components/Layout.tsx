@@ -1,4 +1,5 @@
 import { Link, Outlet } from 'react-router-dom'
+import AdminLogin from './AdminLogin'
 
 export default function Layout() {
   return (
@@ -24,14 +25,18 @@ export default function Layout() {
                 <Link to="/shows" className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200">
                   Shows
                 </Link>
+                <Link to="/users" className="text-gray-700 hover:text-blue-600 hover:bg-blue-50 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200">
+                  Private Feeds
+                </Link>
               </div>
             </div>
             
             {/* Optional: Add a search or action area */}
-            <div className="flex items-center">
+            <div className="flex items-center space-x-4">
               <div className="hidden md:block text-sm text-gray-500">
                 Ad-free podcast experience
               </div>
+              <AdminLogin />
             </div>
           </div>
         </div>
@@ -6,6 +6,7 @@ import { JobStatus } from '../components/JobStatus';
 import { ChaptersList } from '../components/ChaptersList';
 // import { AdSegmentPlayer } from '../components/AdSegmentPlayer';
 import ErrorBoundary from '../components/ErrorBoundary';
+import { useEventRefresh } from '../api/events';
 import { formatTime, formatDuration } from '../utils/format';
 
 export default function EpisodeDetailPage() {
@@ -34,6 +35,19 @@ export default function EpisodeDetailPage() {
     }
   };
   
+  // Reload quietly when a job for this episode is queued or finishes
+  useEventRefresh(
+    event => (event.type === 'job.queued' || event.type === 'job.completed' || event.type === 'job.failed')
+      && event.episodeGuid === episodeId,
+    async () => {
+      try {
+        setEpisode(await api.getEpisode(episodeId!));
+      } catch (error) {
+        console.error('Failed to refresh episode:', error);
+      }
+    }
+  );
+  
   const handleProcessEpisode = async () => {
     if (!episode?.episode) return;
     
@@ -3,6 +3,8 @@ import { Link } from 'react-router-dom'
 import { api, Episode, HealthStatus } from '../api/client'
 import EpisodeCard from '../components/EpisodeCard'
 import StatsCard from '../components/StatsCard'
+import BudgetStatusCard from '../components/BudgetStatusCard'
+import { useEventRefresh } from '../api/events'
 
 export default function HomePage() {
   const [health, setHealth] = useState<HealthStatus | null>(null)
@@ -14,6 +16,9 @@ export default function HomePage() {
     loadData()
   }, [])
 
+  // Stats, budget and recent episodes change whenever a job settles or a feed scan finds episodes
+  useEventRefresh(event => event.type !== 'job.progress' && event.type !== 'job.started', loadData)
+
   async function loadData() {
     try {
       const healthData = await api.getHealth()
@@ -117,6 +122,13 @@ export default function HomePage() {
         </div>
       )}
 
+      {/* Budget Section */}
+      {health?.budget?.enabled && (
+        <div className="mb-12">
+          <BudgetStatusCard budget={health.budget} />
+        </div>
+      )}
+
       {/* Recent Episodes Section */}
       <div>
         <div className="flex justify-between items-center mb-8">
@@ -4,6 +4,7 @@ import { api, Podcast, PodcastStats, Episode } from '../api/client'
 import EpisodeCard from '../components/EpisodeCard'
 import StatsCard from '../components/StatsCard'
 import ErrorBoundary from '../components/ErrorBoundary'
+import { useEventRefresh } from '../api/events'
 
 // Helper function to safely get numeric values with defaults
 const safeNumber = (value: number | undefined | null, defaultValue: number = 0): number => {
@@ -25,6 +26,12 @@ export default function ShowDetailPage() {
     }
   }, [showId])
 
+  useEventRefresh(
+    event => event.type === 'config.reloaded'
+      || (event.type !== 'job.progress' && event.showId === showId),
+    loadData
+  )
+
   async function loadData() {
     if (!showId) return
     
@@ -2,16 +2,25 @@ import { useEffect, useState } from 'react'
 import { Link } from 'react-router-dom'
 import { api, Podcast } from '../api/client'
 import ShowCard from '../components/ShowCard'
+import AddPodcastForm from '../components/AddPodcastForm'
+import { useEventRefresh } from '../api/events'
 
 export default function ShowsPage() {
   const [podcasts, setPodcasts] = useState<Podcast[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [showAddForm, setShowAddForm] = useState(false)
 
   useEffect(() => {
     loadPodcasts()
   }, [])
 
+  // A newly added feed shows up once its first fetch stores the show
+  useEventRefresh(
+    event => event.type === 'episode.discovered' || event.type === 'config.reloaded' || event.type === 'job.completed',
+    loadPodcasts
+  )
+
   async function loadPodcasts() {
     try {
       const shows = await api.getShows()
@@ -71,19 +80,42 @@ export default function ShowsPage() {
               </div>
             </div>
             
-            <Link 
-              to="/" 
-              className="inline-flex items-center text-blue-600 hover:text-blue-800 font-medium transition-colors"
-            >
-              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-              </svg>
-              Back to Dashboard
-            </Link>
+            <div className="flex items-center gap-6">
+              <button
+                onClick={() => setShowAddForm(true)}
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+                Add Podcast
+              </button>
+              <Link 
+                to="/" 
+                className="inline-flex items-center text-blue-600 hover:text-blue-800 font-medium transition-colors"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+                Back to Dashboard
+              </Link>
+            </div>
           </div>
         </div>
       </div>
 
+      {showAddForm && (
+        <div className="mb-10 max-w-xl mx-auto">
+          <AddPodcastForm
+            onAdded={() => {
+              setShowAddForm(false)
+              loadPodcasts()
+            }}
+            onCancel={() => setShowAddForm(false)}
+          />
+        </div>
+      )}
+
       {podcasts.length === 0 ? (
         <div className="text-center py-20">
           <div className="w-24 h-24 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -95,7 +127,9 @@ export default function ShowsPage() {
           <p className="text-gray-600 mb-8 max-w-md mx-auto">
             Add your first podcast RSS feed to start enjoying ad-free episodes with enhanced chapters
           </p>
-          <button className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-medium rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all duration-200 shadow-lg hover:shadow-xl">
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-medium rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all duration-200 shadow-lg hover:shadow-xl">
             <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
             </svg>
@@ -0,0 +1,210 @@
+import { FormEvent, useEffect, useState } from 'react'
+import { api, FeedPreferences, FeedToken, PodcastConfig, User } from '../api/client'
+
+const PREFERENCE_OPTIONS: { [K in keyof FeedPreferences]: { label: string; options: Array<[FeedPreferences[K], string]> } } = {
+  adMode: { label: 'Ads', options: [['strip', 'Removed'], ['keep', 'Kept (original audio)']] },
+  titleSuffix: { label: 'Episode titles', options: [['full', 'Ads and time saved'], ['short', '"(ad-free)"'], ['none', 'Unchanged']] },
+  chapterFormat: { label: 'Chapters', options: [['all', 'All formats'], ['podcast', 'Podcast 2.0'], ['psc', 'Podlove'], ['none', 'None']] }
+}
+
+function TokenRow({ token, onRevoke }: { token: FeedToken; onRevoke: () => void }) {
+  const revoked = Boolean(token.revokedAt)
+
+  return (
+    <li className={`p-3 rounded-lg border ${revoked ? 'bg-gray-50 border-gray-100 text-gray-400' : 'border-gray-200'}`}>
+      <div className="flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <div className="text-sm font-medium">
+            {token.label || 'Unlabelled token'}
+            {revoked && <span className="ml-2 text-xs uppercase">Revoked</span>}
+          </div>
+          <div className="text-xs text-gray-500">
+            Created {new Date(token.createdAt).toLocaleDateString()}
+            {token.lastUsedAt ? `, last used ${new Date(token.lastUsedAt).toLocaleString()}` : ', never used'}
+          </div>
+          {!revoked && (
+            <code className="block mt-1 text-xs text-gray-700 break-all">{token.feedBaseUrl}/&lt;show id&gt;</code>
+          )}
+        </div>
+        {!revoked && (
+          <div className="flex gap-2 shrink-0">
+            <a
+              href={api.getOpmlUrl(token.token)}
+              className="text-sm text-blue-600 hover:text-blue-800 px-2 py-1"
+            >
+              OPML
+            </a>
+            <button onClick={onRevoke} className="text-sm text-red-600 hover:text-red-800 px-2 py-1">
+              Revoke
+            </button>
+          </div>
+        )}
+      </div>
+    </li>
+  )
+}
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<User[]>([])
+  const [podcasts, setPodcasts] = useState<PodcastConfig[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [newUserName, setNewUserName] = useState('')
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  async function loadUsers() {
+    try {
+      const [loadedUsers, loadedPodcasts] = await Promise.all([api.getUsers(), api.getPodcasts()])
+      setUsers(loadedUsers)
+      setPodcasts(loadedPodcasts)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Every action reloads the list so token state always matches the server
+  async function run(action: () => Promise<unknown>): Promise<boolean> {
+    try {
+      await action()
+      await loadUsers()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+      return false
+    }
+  }
+
+  function handleAddUser(event: FormEvent) {
+    event.preventDefault()
+    run(() => api.createUser(newUserName.trim())).then(added => added && setNewUserName(''))
+  }
+
+  function handleNewToken(user: User) {
+    const label = window.prompt(`Label for ${user.name}'s new token (e.g. the podcast app it is for)`)
+    if (label === null) return
+    run(() => api.createFeedToken(user.id, label))
+  }
+
+  function handleRevoke(token: FeedToken) {
+    if (!window.confirm('Revoke this token? Podcast apps using its feeds stop receiving episodes.')) return
+    run(() => api.revokeFeedToken(token.id))
+  }
+
+  function handleSubscriptionChange(user: User, podcastId: string, subscribed: boolean) {
+    run(() => subscribed ? api.subscribe(user.id, podcastId) : api.unsubscribe(user.id, podcastId))
+  }
+
+  function handlePreferenceChange(user: User, key: keyof FeedPreferences, value: string) {
+    run(() => api.updateUserPreferences(user.id, { [key]: value }))
+  }
+
+  function handleRemoveUser(user: User) {
+    if (!window.confirm(`Remove ${user.name} and revoke all of their feeds?`)) return
+    run(() => api.deleteUser(user.id))
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-gray-500">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Private Feeds</h1>
+        <p className="text-gray-600">
+          Each user receives the shows they subscribe to, composed their way. Episodes are still processed only once.
+          Tokens give unguessable feed and audio URLs; revoking one cuts off only the apps using it.
+        </p>
+      </div>
+
+      {error && <div className="p-4 bg-red-50 text-red-700 rounded-lg">{error}</div>}
+
+      <form onSubmit={handleAddUser} className="flex gap-3">
+        <input
+          type="text"
+          required
+          placeholder="New user's name"
+          value={newUserName}
+          onChange={e => setNewUserName(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+          Add User
+        </button>
+      </form>
+
+      {users.length === 0 && !error && (
+        <p className="text-gray-500">No users yet.</p>
+      )}
+
+      {users.map(user => (
+        <div key={user.id} className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">{user.name}</h2>
+            <div className="flex gap-2">
+              <button onClick={() => handleNewToken(user)} className="text-sm px-3 py-1.5 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors">
+                New token
+              </button>
+              <button onClick={() => handleRemoveUser(user)} className="text-sm px-3 py-1.5 text-red-600 rounded-lg hover:bg-red-50 transition-colors">
+                Remove
+              </button>
+            </div>
+          </div>
+          <div className="grid md:grid-cols-3 gap-4 mb-4">
+            {(Object.keys(PREFERENCE_OPTIONS) as Array<keyof FeedPreferences>).map(key => (
+              <label key={key} className="block text-sm text-gray-700">
+                <span className="block font-medium mb-1">{PREFERENCE_OPTIONS[key].label}</span>
+                <select
+                  value={user.preferences[key]}
+                  onChange={e => handlePreferenceChange(user, key, e.target.value)}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {PREFERENCE_OPTIONS[key].options.map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="mb-4">
+            <div className="text-sm font-medium text-gray-700 mb-2">Subscriptions</div>
+            {podcasts.length === 0 ? (
+              <p className="text-sm text-gray-500">No podcasts configured yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                {podcasts.map(podcast => (
+                  <label key={podcast.id} className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={user.subscriptions.includes(podcast.id)}
+                      onChange={e => handleSubscriptionChange(user, podcast.id, e.target.checked)}
+                      className="mr-2"
+                    />
+                    {podcast.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <ul className="space-y-2">
+            {user.tokens.map(token => (
+              <TokenRow key={token.id} token={token} onRevoke={() => handleRevoke(token)} />
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
\ No newline at end of file